@@ -3,32 +3,95 @@ import React, { useState, useEffect, useRef } from 'react';
 import { AppView, VoterRecord } from './types';
 import { DataProcessor } from './components/DataProcessor';
 import { VoterSearch } from './components/VoterSearch';
+import { DuplicateReview } from './components/DuplicateReview';
+import { AuditLog } from './components/AuditLog';
+import { RecycleBin } from './components/RecycleBin';
+import { VoterForm } from './components/VoterForm';
+import { ExportDialog } from './components/ExportDialog';
+import { GeographyAdmin } from './components/GeographyAdmin';
+import { OfflineSync } from './components/OfflineSync';
 import { Login } from './components/Login';
-import { VoterApi } from './api';
+import { UserAdmin } from './components/UserAdmin';
+import { AuthApi, PageCursor, PresenceState, VoterApi, VoterSort, VoterSortField } from './api';
 import { getDatabaseInsights } from './analyticsService';
+import { downloadErrorReport } from './validationService';
+import { alternateForm } from './transliterationService';
+import { LOW_CONFIDENCE, PROVENANCE_LABELS } from './provenanceService';
+import { ConfidenceBadge } from './components/ConfidenceBadge';
+import { AppUser, ROLE_LABELS, can } from './authService';
+import { RETENTION_DAYS, askDeleteReason } from './recycleService';
+import { BACKUP_SCHEMA_VERSION } from './backupService';
+import { goOffline, goOnline, listOutbox, syncOutbox } from './replicaService';
+import { joinPresence, leavePresence, onVoterChanges, startLive, stopLive } from './liveService';
 
 const App: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [user, setUser] = useState<AppUser | null>(null);
   const [activeView, setActiveView] = useState<AppView | 'INSIGHTS'>('SEARCH');
   const [dbCount, setDbCount] = useState(0);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'IDLE' | 'CHECKING' | 'CONNECTED' | 'ERROR'>('IDLE');
+  const [connectionStatus, setConnectionStatus] = useState<'IDLE' | 'CHECKING' | 'CONNECTED' | 'OFFLINE' | 'ERROR'>('IDLE');
+  const [queuedCount, setQueuedCount] = useState(0);
+  // Other sessions currently signed in
+  const [others, setOthers] = useState<PresenceState[]>([]);
   const [hasCustomKey, setHasCustomKey] = useState(false);
 
   useEffect(() => {
-    const auth = sessionStorage.getItem('vis_auth');
-    if (auth === 'true') {
-      setIsAuthenticated(true);
-      verifyAndRefresh();
-      checkKeyStatus();
-    }
+    AuthApi.resume()
+      .then(resumed => {
+        if (resumed) handleLogin(resumed);
+      })
+      .catch(e => console.error("Failed to restore the session", e));
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    const handleOffline = () => verifyAndRefresh();
+    const handleOnline = () => verifyAndRefresh();
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [user?.id]);
+
+  // Live updates follow whichever store is active; presence is only shared through the vault
+  useEffect(() => {
+    if (connectionStatus !== 'CONNECTED' && connectionStatus !== 'OFFLINE') return;
+    startLive();
+    const stopCounting = onVoterChanges(() => refreshData());
+    const leave = connectionStatus === 'CONNECTED' ? joinPresence(setOthers) : null;
+    window.addEventListener('pagehide', leavePresence);
+    return () => {
+      stopCounting();
+      stopLive();
+      if (leave) leave();
+      setOthers([]);
+      window.removeEventListener('pagehide', leavePresence);
+    };
+  }, [connectionStatus]);
+
   const verifyAndRefresh = async () => {
     setConnectionStatus('CHECKING');
-    const check = await VoterApi.testConnection();
+    // Always probe the vault itself, not a replica left active by an earlier failure
+    goOnline();
+    const check = navigator.onLine ? await VoterApi.testConnection() : { success: false, message: 'The browser is offline.' };
     if (check.success) {
       setConnectionStatus('CONNECTED');
+      try {
+        if ((await listOutbox()).some(e => !e.conflict)) {
+          const result = await syncOutbox();
+          if (result.error || result.conflicts) {
+            alert(`Back online. Synced ${result.synced} offline change${result.synced === 1 ? '' : 's'}${result.error ? `, then stopped at ${result.error}` : ''}.${result.conflicts ? ` ${result.conflicts} conflict${result.conflicts === 1 ? '' : 's'} to review under Field.` : ''}`);
+          }
+        }
+      } catch (e) {
+        console.error("Failed to sync offline changes", e);
+      }
+      refreshData();
+    } else if (await goOffline()) {
+      setConnectionStatus('OFFLINE');
+      setActiveView(view => (OFFLINE_VIEWS.includes(view) ? view : 'SEARCH'));
       refreshData();
     } else {
       setConnectionStatus('ERROR');
@@ -59,8 +122,8 @@ const App: React.FC = () => {
   const refreshData = async () => {
     setIsSyncing(true);
     try {
-      const voters = await VoterApi.getVoters();
-      setDbCount(voters.length);
+      setDbCount(await VoterApi.countVoters());
+      setQueuedCount((await listOutbox()).length);
     } catch (err) {
       console.error("Failed to fetch from Supabase", err);
     } finally {
@@ -73,17 +136,28 @@ const App: React.FC = () => {
     refreshData();
   };
 
-  const handleLogout = () => {
-    sessionStorage.removeItem('vis_auth');
-    setIsAuthenticated(false);
+  const handleLogin = (signedIn: AppUser) => {
+    setUser(signedIn);
+    setActiveView('SEARCH');
+    verifyAndRefresh();
+    checkKeyStatus();
   };
 
-  if (!isAuthenticated) {
-    return <Login onLogin={() => {
-      setIsAuthenticated(true);
-      verifyAndRefresh();
-      checkKeyStatus();
-    }} />;
+  const handleLogout = async () => {
+    setConnectionStatus('IDLE');
+    try {
+      await AuthApi.signOut();
+    } catch (e) {
+      console.error("Failed to end the session", e);
+    }
+    setUser(null);
+  };
+
+  const ingesting = others.filter(p => p.activity === 'INGESTING');
+  const openGeography = can('GEOGRAPHY', user) && connectionStatus !== 'OFFLINE' ? () => handleNav('GEOGRAPHY') : undefined;
+
+  if (!user) {
+    return <Login onLogin={handleLogin} />;
   }
 
   return (
@@ -101,9 +175,10 @@ const App: React.FC = () => {
                   <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest border transition-colors ${
                     connectionStatus === 'CONNECTED' ? 'bg-emerald-50 text-emerald-600 border-emerald-100' :
                     connectionStatus === 'CHECKING' ? 'bg-amber-50 text-amber-600 border-amber-100 animate-pulse' :
+                    connectionStatus === 'OFFLINE' ? 'bg-amber-50 text-amber-600 border-amber-100' :
                     connectionStatus === 'ERROR' ? 'bg-red-50 text-red-600 border-red-100' : 'bg-slate-50 text-slate-400 border-slate-100'
                   }`}>
-                    {connectionStatus === 'CONNECTED' ? 'Supabase Live' : connectionStatus === 'CHECKING' ? 'Verifying...' : 'No Connection'}
+                    {connectionStatus === 'CONNECTED' ? `${VoterApi.getStorageLabel()} Live` : connectionStatus === 'CHECKING' ? 'Verifying...' : connectionStatus === 'OFFLINE' ? 'Offline Replica' : 'No Connection'}
                   </span>
                 </div>
                 <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest">PostgreSQL Cloud Database • v3.0.0</p>
@@ -112,12 +187,19 @@ const App: React.FC = () => {
             
             <nav className="flex gap-1 bg-slate-50 p-1 rounded-2xl border border-slate-100">
               <NavButton active={activeView === 'SEARCH'} onClick={() => handleNav('SEARCH')} icon="fa-magnifying-glass" label="Explore" />
-              <NavButton active={activeView === 'PROCESS'} onClick={() => handleNav('PROCESS')} icon="fa-cloud-arrow-up" label="Ingest" />
-              <NavButton active={activeView === 'DATABASE'} onClick={() => handleNav('DATABASE')} icon="fa-table" label={`Vault (${dbCount})`} />
-              <NavButton active={activeView === 'INSIGHTS'} onClick={() => handleNav('INSIGHTS')} icon="fa-chart-simple" label="Analytics" />
+              {can('INGEST', user) && <NavButton active={activeView === 'PROCESS'} onClick={() => handleNav('PROCESS')} icon="fa-cloud-arrow-up" label="Ingest" disabled={connectionStatus === 'OFFLINE'} />}
+              {can('BROWSE', user) && <NavButton active={activeView === 'DATABASE'} onClick={() => handleNav('DATABASE')} icon="fa-table" label={`Vault (${dbCount})`} disabled={connectionStatus === 'OFFLINE'} />}
+              {can('REVIEW_DUPLICATES', user) && <NavButton active={activeView === 'DUPLICATES'} onClick={() => handleNav('DUPLICATES')} icon="fa-clone" label="Duplicates" disabled={connectionStatus === 'OFFLINE'} />}
+              {can('GEOGRAPHY', user) && <NavButton active={activeView === 'GEOGRAPHY'} onClick={() => handleNav('GEOGRAPHY')} icon="fa-sitemap" label="Regions" disabled={connectionStatus === 'OFFLINE'} />}
+              {can('RECYCLE', user) && <NavButton active={activeView === 'RECYCLE'} onClick={() => handleNav('RECYCLE')} icon="fa-trash-can-arrow-up" label="Bin" disabled={connectionStatus === 'OFFLINE'} />}
+              {can('AUDIT', user) && <NavButton active={activeView === 'AUDIT'} onClick={() => handleNav('AUDIT')} icon="fa-clock-rotate-left" label="Audit" disabled={connectionStatus === 'OFFLINE'} />}
+              {can('BROWSE', user) && <NavButton active={activeView === 'INSIGHTS'} onClick={() => handleNav('INSIGHTS')} icon="fa-chart-simple" label="Analytics" disabled={connectionStatus === 'OFFLINE'} />}
+              {can('FIELD', user) && <NavButton active={activeView === 'OFFLINE'} onClick={() => handleNav('OFFLINE')} icon="fa-tower-broadcast" label={queuedCount ? `Field (${queuedCount})` : 'Field'} />}
+              {can('MANAGE_USERS', user) && <NavButton active={activeView === 'USERS'} onClick={() => handleNav('USERS')} icon="fa-users-gear" label="Users" disabled={connectionStatus === 'OFFLINE'} />}
             </nav>
 
             <div className="flex items-center gap-3">
+              <PresenceList others={others} />
               <button 
                 onClick={handleOpenKeyDialog}
                 className={`flex items-center gap-2 px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-tighter transition-all border ${
@@ -130,7 +212,12 @@ const App: React.FC = () => {
                 <span className="hidden lg:inline">{hasCustomKey ? 'AI Engine: Active' : 'AI Engine: System'}</span>
               </button>
 
-              <button onClick={handleLogout} className="w-10 h-10 rounded-xl bg-slate-50 text-slate-400 hover:text-red-500 hover:bg-red-50 transition-all flex items-center justify-center border border-slate-100">
+              <div className="hidden lg:block text-right">
+                <p className="text-xs font-black text-slate-700">{user.name}</p>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{ROLE_LABELS[user.role]}</p>
+              </div>
+
+              <button onClick={handleLogout} title="Sign out" className="w-10 h-10 rounded-xl bg-slate-50 text-slate-400 hover:text-red-500 hover:bg-red-50 transition-all flex items-center justify-center border border-slate-100">
                 <i className="fa-solid fa-power-off"></i>
               </button>
             </div>
@@ -151,10 +238,42 @@ const App: React.FC = () => {
              </button>
           </div>
         )}
-        {activeView === 'SEARCH' && <VoterSearch onUpdateCount={refreshData} />}
+        {connectionStatus === 'OFFLINE' && (
+          <div className="mb-10 p-6 bg-amber-50 border border-amber-100 rounded-[32px] text-amber-800 flex flex-wrap items-center gap-4 animate-fade-in no-print">
+            <i className="fa-solid fa-tower-broadcast text-xl text-amber-500"></i>
+            <p className="flex-1 text-sm font-bold">
+              Working from the offline replica. Search, slips and edits stay available; {queuedCount} change{queuedCount === 1 ? '' : 's'} queued to sync when the vault is reachable again.
+            </p>
+            <button onClick={verifyAndRefresh} className="px-6 py-3 bg-amber-500 text-white rounded-xl font-black text-xs hover:bg-amber-600 transition-all">
+              Retry Connection
+            </button>
+          </div>
+        )}
+        {activeView === 'SEARCH' && <VoterSearch onUpdateCount={refreshData} onOpenGeography={openGeography} />}
+        {activeView === 'PROCESS' && ingesting.length > 0 && (
+          <div className="max-w-5xl mx-auto mb-6 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-xs font-bold text-amber-800 no-print">
+            <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-2">
+              <i className="fa-solid fa-users mr-1"></i> Also ingesting now
+            </p>
+            <ul className="space-y-1">
+              {ingesting.map(p => (
+                <li key={p.sessionId}>
+                  <span className="font-black">{p.actor}</span>{p.detail ? `: ${p.detail}` : ''}
+                  <span className="text-amber-600/70"> since {new Date(p.since).toLocaleTimeString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {activeView === 'PROCESS' && <DataProcessor onUpdateCount={refreshData} />}
-        {activeView === 'DATABASE' && <DatabaseView onUpdate={refreshData} />}
+        {activeView === 'DATABASE' && <DatabaseView onUpdate={refreshData} onOpenGeography={openGeography} />}
+        {activeView === 'DUPLICATES' && <DuplicateReview onUpdate={refreshData} />}
+        {activeView === 'GEOGRAPHY' && <GeographyAdmin onUpdate={refreshData} />}
+        {activeView === 'RECYCLE' && <RecycleBin onUpdate={refreshData} />}
+        {activeView === 'AUDIT' && <AuditLog />}
         {activeView === 'INSIGHTS' && <InsightsView />}
+        {activeView === 'OFFLINE' && <OfflineSync offline={connectionStatus === 'OFFLINE'} onUpdate={refreshData} />}
+        {activeView === 'USERS' && <UserAdmin currentUser={user} onCurrentUserChange={setUser} />}
       </main>
 
       <footer className="py-12 bg-white border-t border-slate-100 no-print">
@@ -170,8 +289,40 @@ const App: React.FC = () => {
   );
 };
 
-const NavButton: React.FC<{ active: boolean; onClick: () => void; icon: string; label: string }> = ({ active, onClick, icon, label }) => (
-  <button onClick={onClick} className={`flex items-center gap-2 px-4 py-2.5 rounded-xl text-xs font-black transition-all whitespace-nowrap ${
+/** Other operators' sessions as initials; amber while they are ingesting. */
+const PresenceList: React.FC<{ others: PresenceState[] }> = ({ others }) => {
+  if (others.length === 0) return null;
+  const ingesting = others.filter(p => p.activity === 'INGESTING').length;
+  return (
+    <div className="hidden lg:flex items-center gap-2">
+      <div className="flex -space-x-2">
+        {others.slice(0, 4).map(p => (
+          <span
+            key={p.sessionId}
+            title={p.activity === 'INGESTING' ? `${p.actor}: ingesting ${p.detail || ''}` : `${p.actor}: online`}
+            className={`w-8 h-8 rounded-full border-2 border-white flex items-center justify-center text-[10px] font-black uppercase ${
+              p.activity === 'INGESTING' ? 'bg-amber-100 text-amber-700 animate-pulse' : 'bg-slate-100 text-slate-500'
+            }`}
+          >
+            {p.actor.slice(0, 2)}
+          </span>
+        ))}
+        {others.length > 4 && (
+          <span className="w-8 h-8 rounded-full border-2 border-white bg-slate-50 flex items-center justify-center text-[10px] font-black text-slate-400">
+            +{others.length - 4}
+          </span>
+        )}
+      </div>
+      {ingesting > 0 && <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{ingesting} ingesting</span>}
+    </div>
+  );
+};
+
+// Views that work from the offline replica
+const OFFLINE_VIEWS: (AppView | 'INSIGHTS')[] = ['SEARCH', 'OFFLINE'];
+
+const NavButton: React.FC<{ active: boolean; onClick: () => void; icon: string; label: string; disabled?: boolean }> = ({ active, onClick, icon, label, disabled }) => (
+  <button onClick={onClick} disabled={disabled} className={`flex items-center gap-2 px-4 py-2.5 rounded-xl text-xs font-black transition-all whitespace-nowrap disabled:opacity-30 disabled:pointer-events-none ${
     active ? 'bg-white text-indigo-600 shadow-sm border border-slate-100' : 'text-slate-500 hover:text-slate-700 hover:bg-white/50'
   }`}>
     <i className={`fa-solid ${icon}`}></i>
@@ -262,26 +413,62 @@ const StatCard: React.FC<{ icon: string; label: string; value: string | number;
   </div>
 );
 
-const DatabaseView: React.FC<{ onUpdate: () => void }> = ({ onUpdate }) => {
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS: { field: VoterSortField; label: string }[] = [
+  { field: 'lastUpdated', label: 'Last Updated' },
+  { field: 'epicNo', label: 'EPIC' },
+  { field: 'name', label: 'Name' },
+  { field: 'age', label: 'Age' },
+  { field: 'partNo', label: 'Part No' }
+];
+
+const DatabaseView: React.FC<{ onUpdate: () => void; onOpenGeography?: () => void }> = ({ onUpdate, onOpenGeography }) => {
   const [voters, setVoters] = useState<VoterRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [sort, setSort] = useState<VoterSort>({ field: 'lastUpdated', direction: 'desc' });
+  // cursors[i] is the `after` cursor that loads page i; the first page has none
+  const [cursors, setCursors] = useState<(PageCursor | undefined)[]>([undefined]);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  // null: closed, 'NEW': blank add form, otherwise the voter being edited
+  const [editing, setEditing] = useState<VoterRecord | 'NEW' | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const importRef = useRef<HTMLInputElement>(null);
 
+  const pageIndex = cursors.length - 1;
+  const filter = lowConfidenceOnly ? { maxConfidence: LOW_CONFIDENCE } : undefined;
+  // The live listener is registered once; this keeps it reloading the page currently shown
+  const loadRef = useRef<() => void>(() => undefined);
+  loadRef.current = () => load();
+
   useEffect(() => {
-    load();
-  }, []);
+    setCursors([undefined]);
+    load(undefined);
+  }, [lowConfidenceOnly, sort]);
+
+  useEffect(() => onVoterChanges(changes => {
+    addLog(`REALTIME: ${changes.length} row${changes.length === 1 ? '' : 's'} changed; reloading this page.`);
+    loadRef.current();
+  }), []);
 
   const addLog = (msg: string) => {
     setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
   };
 
-  const load = async () => {
+  const load = async (after = cursors[pageIndex]) => {
     setIsSyncing(true);
-    addLog("SUPABASE: SELECT * FROM voters_table;");
+    addLog(`SUPABASE: SELECT * FROM voters_table${lowConfidenceOnly ? ` WHERE confidence < ${LOW_CONFIDENCE}` : ''} ORDER BY "${sort.field}" ${sort.direction.toUpperCase()} LIMIT ${PAGE_SIZE};`);
     try {
-      const data = await VoterApi.getVoters();
-      setVoters(data);
+      const [page, count] = await Promise.all([
+        VoterApi.getVoterPage({ sort, limit: PAGE_SIZE, after, filter }),
+        VoterApi.countVoters(filter)
+      ]);
+      setVoters(page.rows);
+      setNextCursor(page.nextCursor);
+      setTotal(count);
     } catch (e: any) {
       addLog(`ERROR: ${e.message}`);
     } finally {
@@ -289,12 +476,26 @@ const DatabaseView: React.FC<{ onUpdate: () => void }> = ({ onUpdate }) => {
     }
   };
 
+  const goNext = () => {
+    if (!nextCursor) return;
+    setCursors(prev => [...prev, nextCursor]);
+    load(nextCursor);
+  };
+
+  const goPrev = () => {
+    if (pageIndex === 0) return;
+    const previous = cursors.slice(0, -1);
+    setCursors(previous);
+    load(previous[previous.length - 1]);
+  };
+
   const handleDelete = async (epicNo: string) => {
-    if (confirm('Permanently remove this entry from Supabase cloud?')) {
+    const reason = askDeleteReason(epicNo);
+    if (reason !== null) {
       setIsSyncing(true);
-      addLog(`SUPABASE: DELETE FROM voters WHERE epicNo='${epicNo}';`);
+      addLog(`SUPABASE: UPDATE voters_table SET deletedAt = now() WHERE epicNo='${epicNo}';`);
       try {
-        await VoterApi.deleteVoter(epicNo);
+        await VoterApi.deleteVoter(epicNo, reason, 'VAULT');
         await load();
         onUpdate();
       } catch (e: any) {
@@ -305,25 +506,63 @@ const DatabaseView: React.FC<{ onUpdate: () => void }> = ({ onUpdate }) => {
     }
   };
 
+  const handleSaved = async (saved: VoterRecord) => {
+    addLog(`SUPABASE: UPSERT INTO voters_table (epicNo='${saved.epicNo}') -- ${editing === 'NEW' ? 'manual entry' : 'manual correction'};`);
+    setEditing(null);
+    await load();
+    onUpdate();
+  };
+
   const handleClearAll = async () => {
-    if (confirm('SUPABASE: This will erase all remote records in the cloud table. Are you sure?')) {
-      setIsSyncing(true);
-      addLog("SUPABASE: DELETE FROM voters_table;");
-      try {
-        await VoterApi.truncateTable();
-        setVoters([]);
-        onUpdate();
-      } catch (e: any) {
-        addLog(`ERROR: ${e.message}`);
-      } finally {
-        setIsSyncing(false);
-      }
+    const count = await VoterApi.countVoters();
+    if (count === 0) return;
+    const typed = prompt(`This moves all ${count} records to the Recycle Bin. They can be restored for ${RETENTION_DAYS} days.\n\nType ${count} to confirm.`);
+    if (typed === null) return;
+    if (typed.trim() !== String(count)) {
+      alert('The number did not match. Nothing was wiped.');
+      return;
+    }
+
+    setIsSyncing(true);
+    addLog("SUPABASE: UPDATE voters_table SET deletedAt = now() WHERE deletedAt IS NULL;");
+    try {
+      const wiped = await VoterApi.truncateTable('VAULT');
+      addLog(`RECYCLE BIN: ${wiped} records moved; restore them from the Recycle Bin within ${RETENTION_DAYS} days.`);
+      setVoters([]);
+      setTotal(0);
+      setNextCursor(null);
+      setCursors([undefined]);
+      onUpdate();
+    } catch (e: any) {
+      addLog(`ERROR: ${e.message}`);
+    } finally {
+      setIsSyncing(false);
     }
   };
 
-  const handleBackup = () => {
+  const handleBackfillScripts = async () => {
+    setIsSyncing(true);
+    addLog("SUPABASE: UPDATE voters_table SET nameLatin, nameNative, namePhonetic WHERE nameLatin IS NULL OR namePhonetic IS NULL;");
+    try {
+      const count = await VoterApi.backfillScripts();
+      addLog(`TRANSLITERATION: ${count} records given dual-script names and phonetic keys.`);
+      setCursors([undefined]);
+      await load(undefined);
+    } catch (e: any) {
+      addLog(`ERROR: ${e.message}`);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleBackup = async () => {
     addLog("APP: EXPORT FROM SUPABASE TO JSON;");
-    VoterApi.exportSqlDump();
+    try {
+      const count = await VoterApi.exportBackup();
+      addLog(`BACKUP: ${count} records written with schema v${BACKUP_SCHEMA_VERSION} header and SHA-256 checksum.`);
+    } catch (e: any) {
+      addLog(`ERROR: ${e.message}`);
+    }
   };
 
   const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -331,10 +570,38 @@ const DatabaseView: React.FC<{ onUpdate: () => void }> = ({ onUpdate }) => {
     if (!file) return;
 
     setIsSyncing(true);
-    addLog(`SUPABASE: UPSERTING FROM '${file.name}';`);
+    addLog(`APP: VERIFYING BACKUP '${file.name}' (DRY RUN);`);
     try {
-      await VoterApi.importSqlDump(file);
-      await load();
+      const plan = await VoterApi.restoreBackup(file, { dryRun: true });
+      const { header } = plan;
+      addLog(plan.fileVersion < BACKUP_SCHEMA_VERSION
+        ? `BACKUP: legacy v${plan.fileVersion} file migrated to v${BACKUP_SCHEMA_VERSION}; no checksum to verify.`
+        : `BACKUP: v${header.schemaVersion} from ${header.backend} (app ${header.appVersion}, ${header.createdAt}), checksum verified.`);
+      addLog(`DRY RUN: ${plan.adds.length} to add, ${plan.updates.length} to update, ${plan.conflicts.length} conflicts, ${plan.unchanged} unchanged, ${plan.rejected} rejected.`);
+      if (plan.issues.length > 0 && confirm(`${plan.issues.length} validation issues found in '${file.name}'. Download the error report?`)) {
+        downloadErrorReport(plan.issues, 'RESTORE_ERRORS');
+      }
+
+      const writes = plan.adds.length + plan.updates.length;
+      if (writes + plan.conflicts.length === 0) {
+        addLog('RESTORE: nothing to write.');
+        return;
+      }
+      if (!confirm(`Restore '${file.name}'?\n\n${plan.adds.length} new, ${plan.updates.length} updated, ${plan.unchanged} unchanged, ${plan.rejected} rejected.`)) {
+        addLog('RESTORE: cancelled after dry run.');
+        return;
+      }
+      const overwriteConflicts = plan.conflicts.length > 0 && confirm(
+        `${plan.conflicts.length} records were changed in the vault after this backup was taken (e.g. ${plan.conflicts.slice(0, 3).map(v => v.epicNo).join(', ')}).\n\nOK overwrites them with the backup copy; Cancel keeps the vault's.`
+      );
+
+      addLog(`SUPABASE: UPSERTING FROM '${file.name}';`);
+      const result = await VoterApi.restoreBackup(file, { overwriteConflicts });
+      addLog(`RESTORE: ${result.imported} written, ${overwriteConflicts ? 0 : result.conflicts.length} conflicts kept, ${result.rejected} rejected by validation, ${result.failed.length} failed to write.`);
+      result.failed.forEach(f => addLog(`WRITE FAILED: ${f.epicNo}: ${f.reason}`));
+      if (result.trailError) addLog(`AUDIT WARNING: records were written but their history was not: ${result.trailError}`);
+      setCursors([undefined]);
+      await load(undefined);
       onUpdate();
     } catch (err: any) {
       alert(`Import failed: ${err.message}`);
@@ -346,6 +613,22 @@ const DatabaseView: React.FC<{ onUpdate: () => void }> = ({ onUpdate }) => {
 
   return (
     <div className="space-y-8 animate-fade-in">
+       {editing && (
+         <VoterForm
+           voter={editing === 'NEW' ? undefined : editing}
+           source="VAULT"
+           onOpenGeography={onOpenGeography}
+           onCancel={() => setEditing(null)}
+           onSaved={handleSaved}
+         />
+       )}
+       {isExporting && (
+         <ExportDialog
+           onClose={() => setIsExporting(false)}
+           onExported={(count, format) => addLog(`EXPORT: ${count} records written as ${format}.`)}
+         />
+       )}
+
        <div className="bg-white rounded-[40px] p-10 shadow-sm border border-slate-100">
           <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-8">
             <div>
@@ -353,22 +636,65 @@ const DatabaseView: React.FC<{ onUpdate: () => void }> = ({ onUpdate }) => {
                 <h2 className="text-3xl font-black text-slate-900 tracking-tight">Cloud Infrastructure</h2>
                 <div className={`w-2 h-2 rounded-full ${isSyncing ? 'bg-amber-400 animate-ping' : 'bg-emerald-400'}`}></div>
               </div>
-              <p className="text-slate-500 font-medium">Currently managing <span className="text-indigo-600 font-black">{voters.length}</span> verified entries in Supabase.</p>
+              <p className="text-slate-500 font-medium">Currently managing <span className="text-indigo-600 font-black">{total}</span> verified entries in Supabase.</p>
             </div>
             
             <div className="flex flex-wrap items-center gap-3">
-              <button onClick={handleBackup} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black text-xs hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 flex items-center gap-2">
+              {can('EDIT') && <button onClick={() => setEditing('NEW')} className="bg-indigo-600 text-white px-8 py-4 rounded-2xl font-black text-xs hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100 flex items-center gap-2">
+                 <i className="fa-solid fa-user-plus"></i> Add Voter
+              </button>}
+
+              {can('BACKUP') && <button onClick={handleBackup} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black text-xs hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 flex items-center gap-2">
                  <i className="fa-solid fa-file-export"></i> Cloud Export
-              </button>
+              </button>}
+
+              {can('EXPORT') && <button onClick={() => setIsExporting(true)} className="bg-white border border-slate-200 text-slate-600 px-8 py-4 rounded-2xl font-black text-xs hover:bg-slate-50 transition-all flex items-center gap-2">
+                 <i className="fa-solid fa-table-list"></i> Export Rows
+              </button>}
               
-              <input type="file" ref={importRef} onChange={handleRestore} accept=".json" className="hidden" />
-              <button onClick={() => importRef.current?.click()} className="bg-white border border-slate-200 text-slate-600 px-8 py-4 rounded-2xl font-black text-xs hover:bg-slate-50 transition-all flex items-center gap-2">
-                 <i className="fa-solid fa-file-import"></i> Cloud Restore
+              <button
+                onClick={() => setLowConfidenceOnly(prev => !prev)}
+                className={`px-8 py-4 rounded-2xl font-black text-xs transition-all flex items-center gap-2 border ${
+                  lowConfidenceOnly ? 'bg-red-50 text-red-500 border-red-100' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                 <i className="fa-solid fa-filter"></i> Low Confidence
               </button>
 
-              <button onClick={handleClearAll} className="text-red-500 hover:text-white font-black text-xs px-6 py-4 rounded-2xl border border-red-50 hover:bg-red-500 hover:border-red-500 transition-all">
+              <div className="flex items-center gap-1 bg-white border border-slate-200 rounded-2xl pl-4 pr-1 py-1">
+                 <i className="fa-solid fa-arrow-down-wide-short text-xs text-slate-400"></i>
+                 <select
+                   value={sort.field}
+                   onChange={(e) => setSort(prev => ({ ...prev, field: e.target.value as VoterSortField }))}
+                   className="bg-transparent font-black text-xs text-slate-600 px-2 py-3 outline-none"
+                 >
+                   {SORT_OPTIONS.map(o => <option key={o.field} value={o.field}>{o.label}</option>)}
+                 </select>
+                 <button
+                   onClick={() => setSort(prev => ({ ...prev, direction: prev.direction === 'asc' ? 'desc' : 'asc' }))}
+                   title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+                   className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-500 hover:bg-slate-50 transition-all"
+                 >
+                   <i className={`fa-solid ${sort.direction === 'asc' ? 'fa-arrow-up' : 'fa-arrow-down'}`}></i>
+                 </button>
+              </div>
+
+              {can('EDIT') && <button onClick={handleBackfillScripts} className="bg-white border border-slate-200 text-slate-600 px-8 py-4 rounded-2xl font-black text-xs hover:bg-slate-50 transition-all flex items-center gap-2">
+                 <i className="fa-solid fa-language"></i> Dual-Script Names
+              </button>}
+
+              {can('RESTORE') && (
+                <>
+                  <input type="file" ref={importRef} onChange={handleRestore} accept=".json" className="hidden" />
+                  <button onClick={() => importRef.current?.click()} className="bg-white border border-slate-200 text-slate-600 px-8 py-4 rounded-2xl font-black text-xs hover:bg-slate-50 transition-all flex items-center gap-2">
+                     <i className="fa-solid fa-file-import"></i> Cloud Restore
+                  </button>
+                </>
+              )}
+
+              {can('WIPE') && <button onClick={handleClearAll} className="text-red-500 hover:text-white font-black text-xs px-6 py-4 rounded-2xl border border-red-50 hover:bg-red-500 hover:border-red-500 transition-all">
                  Wipe Table
-              </button>
+              </button>}
             </div>
           </div>
 
@@ -397,37 +723,66 @@ const DatabaseView: React.FC<{ onUpdate: () => void }> = ({ onUpdate }) => {
                   <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] border-b border-slate-50">
                     <th className="px-10 py-6">Unique EPIC ID</th>
                     <th className="px-10 py-6">Metadata</th>
+                    <th className="px-10 py-6">Provenance</th>
                     <th className="px-10 py-6">Polling Site</th>
                     <th className="px-10 py-6 text-right">Ops</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-50">
-                  {voters.slice(0, 100).map((voter) => (
+                  {voters.map((voter) => (
                     <tr key={voter.epicNo} className="hover:bg-slate-50/30 transition-colors group">
                       <td className="px-10 py-6">
                         <span className="font-black text-slate-900 font-mono tracking-tighter text-sm">{voter.epicNo}</span>
                       </td>
                       <td className="px-10 py-6">
-                        <div className="font-black text-slate-800 text-sm mb-0.5">{voter.name}</div>
+                        <div className="font-black text-slate-800 text-sm">{voter.name}</div>
+                        <div className="text-xs font-bold text-slate-400 mb-0.5">{alternateForm(voter.name, voter.nameNative, voter.nameLatin)}</div>
                         <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{voter.age}yr • {voter.gender}</div>
                       </td>
+                      <td className="px-10 py-6">
+                        <ConfidenceBadge provenance={voter.provenance} />
+                        {voter.provenance && (
+                          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1 truncate max-w-[200px]" title={voter.provenance.fileName}>
+                            {PROVENANCE_LABELS[voter.provenance.method]} • {voter.provenance.fileName}
+                          </div>
+                        )}
+                      </td>
                       <td className="px-10 py-6">
                          <div className="text-xs font-bold text-slate-600 truncate max-w-[200px]">{voter.pollingStation?.name || 'Unmapped'}</div>
                       </td>
-                      <td className="px-10 py-6 text-right">
-                        <button onClick={() => handleDelete(voter.epicNo)} className="w-9 h-9 rounded-xl flex items-center justify-center text-slate-200 group-hover:text-red-500 transition-all hover:bg-red-50">
+                      <td className="px-10 py-6 text-right whitespace-nowrap">
+                        {can('EDIT') && <button onClick={() => setEditing(voter)} title="Edit" className="inline-flex w-9 h-9 rounded-xl items-center justify-center text-slate-200 group-hover:text-indigo-600 transition-all hover:bg-indigo-50">
+                          <i className="fa-solid fa-pen text-xs"></i>
+                        </button>}
+                        {can('DELETE') && <button onClick={() => handleDelete(voter.epicNo)} className="inline-flex w-9 h-9 rounded-xl items-center justify-center text-slate-200 group-hover:text-red-500 transition-all hover:bg-red-50">
                           <i className="fa-solid fa-xmark"></i>
-                        </button>
+                        </button>}
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
-              {voters.length > 100 && (
-                <div className="p-6 text-center text-slate-400 text-[10px] font-black uppercase tracking-widest border-t border-slate-50">
-                  Showing top 100 records from Supabase
+              <div className="p-6 flex items-center justify-between border-t border-slate-50">
+                <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                  Records {pageIndex * PAGE_SIZE + 1}–{pageIndex * PAGE_SIZE + voters.length} of {total}
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={goPrev}
+                    disabled={pageIndex === 0 || isSyncing}
+                    className="px-5 py-3 rounded-xl border border-slate-200 font-black text-xs text-slate-600 hover:bg-slate-50 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <i className="fa-solid fa-chevron-left mr-2"></i>Prev
+                  </button>
+                  <button
+                    onClick={goNext}
+                    disabled={!nextCursor || isSyncing}
+                    className="px-5 py-3 rounded-xl border border-slate-200 font-black text-xs text-slate-600 hover:bg-slate-50 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    Next<i className="fa-solid fa-chevron-right ml-2"></i>
+                  </button>
                 </div>
-              )}
+              </div>
             </div>
           ) : (
             <div className="p-32 text-center flex flex-col items-center">
@@ -1,138 +1,587 @@
+import { VoterRecord, VoterSearchCriteria } from './types';
+import { DuplicatePair, DuplicateStatus } from './duplicateService';
+import { foldLatin, toLatin, withScripts } from './transliterationService';
+import { buildProvenance, rescoreProvenance } from './provenanceService';
+import { SearchHit, phoneticKeys, rankMatches } from './fuzzyService';
+import { AuditPage, AuditQuery, auditEntry } from './auditService';
+import { deletionMark, purgeCutoff } from './recycleService';
+import { VoterVersion, nextVersions } from './versionService';
+import { GeoUnit, indexGeography, partsInOrder, resolveParts, validateGeoUnit, withGeography } from './geographyService';
+import { RestorePlan, buildBackup, parseBackup, planRestore } from './backupService';
+import { ExportOptions, bySerialNo, createExportWriter, downloadBlob } from './exportService';
+import { BulkWriteOptions, BulkWriteResult, throwIfFailed, writeInChunks } from './bulkWriteService';
+import { OutboxChange } from './replicaService';
+import { hasErrors, validateVoter } from './validationService';
+import { AppUser, AuthStore, MIN_PASSWORD_LENGTH, NewUser, UserPatch, getSessionUser, requirePermission, setSessionUser, validateNewUser } from './authService';
+import { DeletedPage, NO_DELETION, PageCursor, PresenceHandle, PresenceState, VoterChange, VoterListFilter, VoterPage, VoterPageRequest, VoterRow, VoterStore, createAuthStore, createStore } from './storage';
 
-import { createClient } from '@supabase/supabase-js';
-import { VoterRecord } from './types';
+export type { DeletedPage, DeletedVoter, PageCursor, PresenceState, VoterChange, VoterListFilter, VoterPage, VoterPageRequest, VoterSort, VoterSortField } from './storage';
 
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
-const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+/**
+ * The vault's storage adapter, chosen from the environment (see storage/index.ts),
+ * and the adapter calls go to: the vault, or the offline replica while working offline.
+ */
+let vault: VoterStore = createStore(import.meta.env);
+let store: VoterStore = vault;
+/** Set while working offline: edits are applied to the replica and queued here for the vault. */
+let enqueue: ((change: OutboxChange) => Promise<void>) | null = null;
 
-if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
-  throw new Error('Missing Supabase environment variables. Please check your .env file.');
+/** Swaps the storage adapter, e.g. for an in-memory store in tests. */
+export function setVoterStore(next: VoterStore) {
+  vault = store = next;
+  enqueue = null;
 }
 
-const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+/** Points the API at the offline replica, queueing edits through `queue`; `null` returns to the vault. */
+export function setOfflineReplica(replica: VoterStore | null, queue?: (change: OutboxChange) => Promise<void>) {
+  store = replica ?? vault;
+  enqueue = replica && queue ? queue : null;
+}
+
+export const isOffline = () => store !== vault;
+
+export const SEARCH_PAGE_SIZE = 25;
+/** Provenance file name of records added through the voter form. */
+export const MANUAL_ENTRY = 'Manual entry';
+export const FUZZY_RESULT_LIMIT = 50;
+// Postgres pre-filters loosely; this many candidates are re-ranked client-side
+const FUZZY_CANDIDATES = 200;
+// Rows fetched per page while exporting
+const EXPORT_CHUNK = 1000;
+// Stale records rewritten per round of the script backfill
+const BACKFILL_CHUNK = 500;
+
+/** The typed value plus its Latin and folded forms, so either script finds both. */
+const nameTerms = (value?: string) =>
+  value?.trim() ? [...new Set([value.trim(), toLatin(value), foldLatin(value)].filter(Boolean))] : undefined;
+
+const trimmed = (value?: string) => value?.trim() || undefined;
+
+const toSearchFilter = (c: VoterSearchCriteria): VoterListFilter => ({
+  text: nameTerms(c.query),
+  parentSpouseName: nameTerms(c.parentSpouseName),
+  partNo: trimmed(c.partNo),
+  serialNo: trimmed(c.serialNo),
+  minAge: c.minAge,
+  maxAge: c.maxAge,
+  gender: c.gender,
+  assemblyConstituency: trimmed(c.assemblyConstituency),
+  pollingStation: trimmed(c.pollingStation)
+});
+
+/** True when at least one criterion would narrow the search. */
+export const hasSearchCriteria = (c: VoterSearchCriteria) =>
+  Object.values(toSearchFilter(c)).some(v => v !== undefined);
+
+/**
+ * Row shape written to storage: derived name forms, phonetic keys, the
+ * flattened confidence column and the part. Writing a record makes it active again.
+ */
+const toRow = (voter: VoterRecord, partId: string): VoterRow => ({
+  ...withScripts(voter),
+  ...NO_DELETION,
+  namePhonetic: phoneticKeys(voter.name),
+  confidence: voter.provenance?.confidence ?? null,
+  partId
+});
+
+/**
+ * Finds or adds each voter's part, and returns the voters as they will read back: an existing
+ * part keeps its name and station (corrected under Regions), whatever the record says.
+ */
+function placeVoters(voters: VoterRecord[], units: GeoUnit[]) {
+  const { partIds, changed } = resolveParts(voters, units);
+  const updated = new Set(changed.map(u => u.id));
+  const index = indexGeography([...units.filter(u => !updated.has(u.id)), ...changed]);
+  const placed = voters.map((voter, i) => withGeography<VoterRecord>({ ...voter, partId: partIds[i] }, index));
+  return { placed, partIds, changed };
+}
 
-const TABLE_NAME = 'voters_table';
+// Kept per part rather than per voter, so a record cannot change them
+const PART_FIELDS: { label: string; read: (v: VoterRecord) => string }[] = [
+  { label: 'Part Name', read: v => v.partName },
+  { label: 'Polling Station', read: v => v.pollingStation?.name },
+  { label: 'Station Address', read: v => v.pollingStation?.address }
+];
 
 export const VoterApi = {
+  /**
+   * Name of the active storage backend, for status badges
+   */
+  getStorageLabel: (): string => store.label,
+
   /**
    * VERIFY Connection & Table Existence
    */
-  testConnection: async (): Promise<{ success: boolean; message: string }> => {
+  testConnection: async (): Promise<{ success: boolean; message: string }> => store.testConnection(),
+
+  /**
+   * GET all voters
+   */
+  getVoters: async (): Promise<VoterRecord[]> => store.listVoters(),
+
+  /**
+   * COUNT voters without downloading them
+   */
+  countVoters: async (filter?: VoterListFilter): Promise<number> => store.countVoters(filter),
+
+  /**
+   * GET one page of voters, sorted; pass the previous page's `nextCursor` as `after`
+   */
+  getVoterPage: async (request: VoterPageRequest): Promise<VoterPage> => store.listVoterPage(request),
+
+  /**
+   * GET voters by EPIC number
+   */
+  getByEpicNos: async (epicNos: string[]): Promise<VoterRecord[]> => store.getByEpicNos(epicNos),
+
+  /**
+   * GET voters registered in any of the given parts
+   */
+  getByPartNos: async (partNos: string[]): Promise<VoterRecord[]> => store.getByPartNos(partNos),
+
+  /**
+   * UPSERT voters (Insert or Update if EPIC No exists) in chunks, audited against the rows they replace.
+   * Each changed record is also stored as its next version. Rows the store rejects are
+   * isolated and reported in `failed`; the rest are still written.
+   */
+  bulkCreate: async (voters: VoterRecord[], source = 'API', options?: BulkWriteOptions): Promise<BulkWriteResult> => {
+    requirePermission('EDIT');
+    const epicNos = voters.map(v => v.epicNo);
+    const previous = new Map((await store.getByEpicNos(epicNos)).map(v => [v.epicNo, v]));
+    const latest = await store.latestVersions(epicNos);
+    const { placed, partIds, changed } = placeVoters(voters, await store.listGeoUnits());
+    if (changed.length > 0) await store.saveGeoUnits(changed);
+    // Audited and versioned as stored, so part fields the part overrides never show as changes
+    const rows = placed.map((voter, i) => toRow(voter, partIds[i]));
+    const { written, failed } = await writeInChunks(rows, chunk => store.upsertVoters(chunk), options);
+    // The rows are already stored, so a failed trail is reported with them rather than thrown
+    const trailErrors: string[] = [];
     try {
-      const { data, error, count } = await supabase
-        .from(TABLE_NAME)
-        .select('*', { count: 'exact', head: true });
-      
-      if (error) throw error;
-      return { success: true, message: `Connected to Supabase. Table "${TABLE_NAME}" found.` };
+      await store.appendAudit(written.map(row => {
+        const before = previous.get(row.epicNo);
+        return auditEntry(before ? 'UPDATE' : 'INSERT', source, { before, after: row });
+      }));
     } catch (err: any) {
-      console.error('Connection Test Failed:', err);
-      return { success: false, message: err.message || 'Could not reach Supabase table.' };
+      trailErrors.push(`audit log: ${err.message}`);
     }
+    try {
+      await store.appendVersions(nextVersions(written, previous, latest, source));
+    } catch (err: any) {
+      trailErrors.push(`version history: ${err.message}`);
+    }
+    return {
+      inserted: written.filter(row => !previous.has(row.epicNo)).map(row => row.epicNo),
+      updated: written.filter(row => previous.has(row.epicNo)).map(row => row.epicNo),
+      failed: failed.map(({ item, reason }) => ({ epicNo: item.epicNo, reason })),
+      ...(trailErrors.length > 0 && { trailError: trailErrors.join('; ') })
+    };
   },
 
   /**
-   * GET all voters from Supabase
+   * SAVE a voter added or corrected by hand. Validated with the ingestion rules;
+   * records with errors are rejected. Returns the record as stored.
    */
-  getVoters: async (): Promise<VoterRecord[]> => {
-    const { data, error } = await supabase
-      .from(TABLE_NAME)
-      .select('*')
-      .order('lastUpdated', { ascending: false });
+  saveVoter: async (voter: VoterRecord, mode: 'CREATE' | 'EDIT', source = 'API'): Promise<VoterRecord> => {
+    requirePermission('EDIT');
+    const issues = validateVoter(voter);
+    if (hasErrors(issues)) {
+      throw new Error(issues.filter(i => i.severity === 'ERROR').map(i => i.message).join(' '));
+    }
+    const [existing] = await store.getByEpicNos([voter.epicNo]);
+    if (mode === 'CREATE' && existing) throw new Error(`EPIC ${voter.epicNo} is already in the vault.`);
+    if (mode === 'EDIT' && !existing) throw new Error(`EPIC ${voter.epicNo} is no longer in the vault.`);
 
-    if (error) {
-      console.error('Supabase fetch error:', error);
-      throw new Error(error.message);
+    const { placed: [stored] } = placeVoters([voter], await store.listGeoUnits());
+    const overridden = PART_FIELDS.filter(({ read }) => (read(voter) || '').trim() && (read(voter) || '').trim() !== (read(stored) || '').trim());
+    if (overridden.length > 0) {
+      throw new Error(`${overridden.map(f => f.label).join(', ')} belong${overridden.length === 1 ? 's' : ''} to part ${stored.partNo || '(blank)'} and every voter in it; correct ${overridden.length === 1 ? 'it' : 'them'} under Regions.`);
     }
-    return data || [];
+
+    // An edited record keeps where it came from; only its confidence is re-scored
+    const provenance = existing?.provenance
+      ? rescoreProvenance(existing.provenance, issues)
+      : buildProvenance({ fileName: MANUAL_ENTRY }, { method: 'MANUAL' }, issues);
+    const record: VoterRecord = { ...stored, provenance, lastUpdated: new Date().toISOString() };
+    throwIfFailed(await VoterApi.bulkCreate([record], source));
+    if (enqueue) await enqueue({ kind: 'SAVE', epicNo: record.epicNo, record, source, base: existing?.lastUpdated ?? null });
+    return withScripts(record);
   },
 
   /**
-   * UPSERT voters (Insert or Update if EPIC No exists)
+   * GET the geography tree, states down to polling stations
    */
-  bulkCreate: async (voters: VoterRecord[]): Promise<{ success: boolean; count: number }> => {
-    const { data, error } = await supabase
-      .from(TABLE_NAME)
-      .upsert(voters, { onConflict: 'epicNo' });
+  getGeography: async (): Promise<GeoUnit[]> => store.listGeoUnits(),
 
-    if (error) {
-      console.error('Supabase upsert error:', error);
-      throw new Error(error.message);
+  /**
+   * SAVE a geography unit; every voter in its branch reads the change
+   */
+  saveGeoUnit: async (unit: GeoUnit): Promise<void> => {
+    requirePermission('GEOGRAPHY');
+    const problem = validateGeoUnit(unit, await store.listGeoUnits());
+    if (problem) throw new Error(problem);
+    await store.saveGeoUnits([{ ...unit, name: unit.name.trim(), code: unit.code?.trim() || null, address: unit.address?.trim() || null }]);
+  },
+
+  /**
+   * DELETE a geography unit that nothing is filed under
+   */
+  deleteGeoUnit: async (id: string): Promise<void> => {
+    requirePermission('GEOGRAPHY');
+    const units = await store.listGeoUnits();
+    if (units.some(u => u.parentId === id)) throw new Error('Delete or empty the units under it first.');
+    if (units.find(u => u.id === id)?.level === 'PART') {
+      const voters = await store.countVoters({ partId: id });
+      if (voters > 0) throw new Error(`${voters} voter${voters === 1 ? ' is' : 's are'} registered in this part.`);
     }
+    await store.deleteGeoUnit(id);
+  },
+
+  /**
+   * GET every stored version of a voter, newest first
+   */
+  getVersions: async (epicNo: string): Promise<VoterVersion[]> => store.listVersions(epicNo),
 
-    return { success: true, count: voters.length };
+  /**
+   * ROLLBACK a voter to an earlier version; the rollback is itself stored as a new version
+   */
+  rollbackVoter: async (epicNo: string, version: number): Promise<VoterRecord> => {
+    requirePermission('EDIT');
+    // The replica holds no history from the vault, only what was edited offline
+    if (isOffline()) throw new Error('Version rollback is only available online.');
+    const target = (await store.listVersions(epicNo)).find(v => v.version === version);
+    if (!target) throw new Error(`Version ${version} of ${epicNo} was not found.`);
+    const record: VoterRecord = { ...target.record, lastUpdated: new Date().toISOString() };
+    throwIfFailed(await VoterApi.bulkCreate([record], `ROLLBACK: v${version}`));
+    return record;
   },
 
   /**
-   * DELETE a specific voter record
+   * DELETE a specific voter record (soft: it moves to the recycle bin)
    */
-  deleteVoter: async (epicNo: string): Promise<void> => {
-    const { error } = await supabase
-      .from(TABLE_NAME)
-      .delete()
-      .eq('epicNo', epicNo);
+  deleteVoter: async (epicNo: string, reason: string, source = 'API'): Promise<void> => {
+    requirePermission('DELETE');
+    const [before] = await store.getByEpicNos([epicNo]);
+    const mark = deletionMark(reason);
+    await store.softDeleteVoters([epicNo], mark);
+    await store.appendAudit([auditEntry('DELETE', source, { epicNo, before, note: mark.deletedReason })]);
+    if (enqueue) await enqueue({ kind: 'DELETE', epicNo, reason, source, base: before?.lastUpdated ?? null });
+  },
 
-    if (error) {
-      console.error('Supabase delete error:', error);
-      throw new Error(error.message);
+  /**
+   * TRUNCATE table logic (moves every record to the recycle bin as one restorable deletion)
+   */
+  truncateTable: async (source = 'API', reason = 'Table wipe'): Promise<number> => {
+    requirePermission('WIPE');
+    const mark = deletionMark(reason);
+    const count = await store.softDeleteAll(mark);
+    await store.appendAudit([auditEntry('TRUNCATE', source, {
+      note: `${count} record${count === 1 ? '' : 's'} moved to the recycle bin (deletion ${mark.deletionId})`
+    })]);
+    return count;
+  },
+
+  /**
+   * GET soft-deleted voters, most recently deleted first
+   */
+  getDeleted: async (limit: number, after?: PageCursor | null): Promise<DeletedPage> => store.listDeleted({ limit, after }),
+
+  /**
+   * COUNT soft-deleted voters
+   */
+  countDeleted: async (): Promise<number> => store.countDeleted(),
+
+  /**
+   * RESTORE voters from the recycle bin, by EPIC or by the deletion that removed them
+   */
+  restoreVoters: async (target: { epicNos?: string[]; deletionId?: string }, source = 'API'): Promise<number> => {
+    requirePermission('RECYCLE');
+    const restored = await store.restoreVoters(target);
+    await store.appendAudit(restored.map(epicNo => auditEntry('RESTORE', source, {
+      epicNo,
+      note: target.deletionId ? `Deletion ${target.deletionId}` : undefined
+    })));
+    return restored.length;
+  },
+
+  /**
+   * PURGE voters deleted longer ago than the retention window; this cannot be undone
+   */
+  purgeExpired: async (source = 'API'): Promise<number> => {
+    requirePermission('RECYCLE');
+    const cutoff = purgeCutoff();
+    const count = await store.purgeDeleted(cutoff);
+    if (count > 0) {
+      await store.appendAudit([auditEntry('PURGE', source, { note: `${count} record${count === 1 ? '' : 's'} deleted before ${cutoff} removed permanently` })]);
     }
+    return count;
+  },
+
+  /**
+   * GET audit entries, newest first; pass the previous page's `nextCursor` as `before`
+   */
+  getAuditLog: async (query: AuditQuery): Promise<AuditPage> => {
+    requirePermission('AUDIT');
+    return store.listAudit(query);
+  },
+
+  /**
+   * SEARCH voters matching every given criterion, one page at a time, by name.
+   * Name queries in Devanagari are also tried in Latin, and both forms of each name are matched.
+   */
+  search: async (criteria: VoterSearchCriteria, after?: PageCursor | null, limit = SEARCH_PAGE_SIZE): Promise<VoterPage> => {
+    if (!hasSearchCriteria(criteria)) return { rows: [], nextCursor: null };
+    return store.listVoterPage({ sort: { field: 'name', direction: 'asc' }, limit, after, filter: toSearchFilter(criteria) });
+  },
+
+  /**
+   * SEARCH by spelling variants and sound-alikes of `criteria.query`, best match first.
+   * The other criteria still have to match exactly.
+   */
+  fuzzySearch: async (criteria: VoterSearchCriteria, limit = FUZZY_RESULT_LIMIT): Promise<SearchHit[]> => {
+    const terms = nameTerms(criteria.query);
+    if (!terms) return [];
+
+    const keys = phoneticKeys(criteria.query!);
+    const candidates = await store.listFuzzyCandidates({
+      terms,
+      phoneticKeys: keys,
+      filter: { ...toSearchFilter(criteria), text: undefined },
+      limit: FUZZY_CANDIDATES
+    });
+    return rankMatches(terms, keys, candidates).slice(0, limit);
+  },
+
+  /**
+   * COUNT voters matching the search criteria
+   */
+  countMatches: async (criteria: VoterSearchCriteria): Promise<number> =>
+    hasSearchCriteria(criteria) ? store.countVoters(toSearchFilter(criteria)) : 0,
+
+  /**
+   * GET probable duplicate pairs, best matches first
+   */
+  getDuplicatePairs: async (status: DuplicateStatus = 'OPEN'): Promise<DuplicatePair[]> => store.listDuplicatePairs(status),
+
+  /**
+   * INSERT new duplicate pairs; pairs already reviewed keep their decision
+   */
+  saveDuplicatePairs: async (pairs: DuplicatePair[]): Promise<void> => {
+    requirePermission('EDIT');
+    await store.insertDuplicatePairs(pairs);
   },
 
   /**
-   * TRUNCATE table logic (Delete all records)
+   * RESOLVE a duplicate pair (merge, keep both or flag)
    */
-  truncateTable: async (): Promise<void> => {
-    const { error } = await supabase
-      .from(TABLE_NAME)
-      .delete()
-      .neq('epicNo', 'TRUNCATE_PLACEHOLDER_ZERO');
+  resolveDuplicatePair: async (id: string, status: DuplicateStatus): Promise<void> => {
+    requirePermission('REVIEW_DUPLICATES');
+    await store.updateDuplicatePair(id, { status, resolvedAt: status === 'OPEN' ? null : new Date().toISOString() });
+  },
 
-    if (error) {
-      console.error('Supabase clear error:', error);
-      throw new Error(error.message);
+  /**
+   * BACKFILL native/Latin name forms and phonetic keys for records stored before they existed
+   */
+  backfillScripts: async (): Promise<number> => {
+    let written = 0;
+    // Keyset by EPIC, so a record whose forms stay empty is not fetched again
+    for (let after: string | null = null; ;) {
+      const pending = await store.listMissingScripts(BACKFILL_CHUNK, after);
+      if (pending.length === 0) return written;
+      const result = await VoterApi.bulkCreate(pending, 'BACKFILL');
+      written += result.updated.length + result.inserted.length;
+      after = pending[pending.length - 1].epicNo;
     }
   },
 
   /**
-   * SEARCH voters using PostgreSQL Full Text or ILIKE
+   * EXPORT the vault as a checksummed backup file
+   */
+  exportBackup: async (): Promise<number> => {
+    requirePermission('BACKUP');
+    const backup = await buildBackup(await VoterApi.getVoters(), store.backend);
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${store.backend.toUpperCase()}_BACKUP_${new Date().getTime()}.json`);
+    return backup.header.recordCount;
+  },
+
+  /**
+   * RESTORE a backup file. Files that fail their checksum or header checks are refused.
+   * With `dryRun` nothing is written and the plan is only reported; conflicts
+   * (records changed in the vault since the backup) are skipped unless `overwriteConflicts`.
+   */
+  restoreBackup: async (
+    file: File,
+    options: { dryRun?: boolean; overwriteConflicts?: boolean } = {}
+  ): Promise<RestorePlan & { imported: number } & Pick<BulkWriteResult, 'failed' | 'trailError'>> => {
+    requirePermission('RESTORE');
+    const backup = await parseBackup(await file.text());
+    const epicNos = backup.records.map(r => (r as VoterRecord | null)?.epicNo).filter((e): e is string => typeof e === 'string');
+    const plan = planRestore(backup, await store.getByEpicNos(epicNos), file.name);
+    if (options.dryRun) return { ...plan, imported: 0, failed: [] };
+
+    const source = `RESTORE: ${file.name}`;
+    const writes = [...plan.adds, ...plan.updates, ...(options.overwriteConflicts ? plan.conflicts : [])];
+    const result = await VoterApi.bulkCreate(writes, source);
+    const skipped = options.overwriteConflicts ? 0 : plan.conflicts.length;
+    await store.appendAudit([auditEntry('IMPORT', source, {
+      note: `${result.inserted.length} added, ${result.updated.length} updated, ${plan.unchanged} unchanged, ${skipped} conflicts skipped, ${plan.rejected} rejected, ${result.failed.length} failed to write (backup v${plan.fileVersion})`
+    })]);
+    return { ...plan, imported: result.inserted.length + result.updated.length, failed: result.failed, trailError: result.trailError };
+  },
+
+  /**
+   * EXPORT voters matching the search criteria (all voters if none are set) as CSV, XLSX or SQL.
+   * Rows are fetched and written a part at a time, in roll order: parts in geography order
+   * (by number, so part 2 precedes part 10), then by serial number within each part, which
+   * is sorted here since the store only sorts serials as text.
    */
-  search: async (query: string): Promise<VoterRecord[]> => {
-    if (!query) return [];
-    
-    const { data, error } = await supabase
-      .from(TABLE_NAME)
-      .select('*')
-      .or(`name.ilike.%${query}%,epicNo.ilike.%${query}%`)
-      .limit(50);
+  exportVoters: async (
+    criteria: VoterSearchCriteria,
+    options: ExportOptions,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<number> => {
+    requirePermission('EXPORT');
+    const filter = toSearchFilter(criteria);
+    const writer = createExportWriter(options);
+    const total = await store.countVoters(filter);
+    const index = indexGeography(await store.listGeoUnits());
+    // Skip parts the part number or AC criteria rule out, rather than query each one
+    const parts = partsInOrder(index).filter(part =>
+      (!filter.partNo || part.code === filter.partNo) &&
+      (!filter.assemblyConstituency || (index.byId.get(part.parentId!)?.name || '').toLowerCase().includes(filter.assemblyConstituency.toLowerCase()))
+    );
+
+    let done = 0;
+    // Rows stored before the geography tree existed have no part; they come last
+    for (const partId of [...parts.map(p => p.id), null]) {
+      const rows: VoterRecord[] = [];
+      let after: PageCursor | null = null;
+      do {
+        const page: VoterPage = await store.listVoterPage({ sort: { field: 'epicNo', direction: 'asc' }, limit: EXPORT_CHUNK, after, filter: { ...filter, partId } });
+        rows.push(...page.rows);
+        after = page.nextCursor;
+      } while (after);
+      if (rows.length === 0) continue;
 
-    if (error) {
-      console.error('Supabase search error:', error);
-      throw new Error(error.message);
+      writer.write(rows.sort(bySerialNo));
+      done += rows.length;
+      if (onProgress) onProgress(done, total);
     }
 
-    return data || [];
+    downloadBlob(writer.finish(), `VOTERS_${new Date().getTime()}.${writer.extension}`);
+    return done;
+  },
+
+  /**
+   * WATCH voter writes made by any operator; returns an unsubscribe function.
+   * Bound to the store active when called (see liveService, which re-attaches on mode changes).
+   */
+  watchVoters: (onChange: (changes: VoterChange[]) => void): (() => void) => store.watchVoters(onChange),
+
+  /**
+   * JOIN the list of operators currently using the vault
+   */
+  joinPresence: (state: PresenceState, onSync: (present: PresenceState[]) => void): PresenceHandle =>
+    store.joinPresence(state, onSync)
+};
+
+let auth: AuthStore = createAuthStore(import.meta.env);
+
+/** Swaps the account store, e.g. for in-memory accounts in tests; signs the session out. */
+export function setAuthStore(next: AuthStore) {
+  auth = next;
+  setSessionUser(null);
+}
+
+const activeAdmins = (users: AppUser[]) => users.filter(u => u.role === 'ADMIN' && !u.disabled);
+
+export const AuthApi = {
+  /**
+   * What users sign in with: a username, or their email with Supabase
+   */
+  getLoginKind: (): AuthStore['loginKind'] => auth.loginKind,
+
+  /**
+   * RESUME the session kept from an earlier page load, if any
+   */
+  resume: async (): Promise<AppUser | null> => {
+    const user = await auth.currentUser();
+    setSessionUser(user);
+    return user;
+  },
+
+  /**
+   * SIGN IN
+   */
+  signIn: async (login: string, password: string): Promise<AppUser> => {
+    const user = await auth.signIn(login, password);
+    setSessionUser(user);
+    return user;
+  },
+
+  /**
+   * SIGN OUT
+   */
+  signOut: async (): Promise<void> => {
+    setSessionUser(null);
+    await auth.signOut();
+  },
+
+  /**
+   * CHECK whether the first administrator still has to be created
+   */
+  needsSetup: async (): Promise<boolean> => auth.needsSetup(),
+
+  /**
+   * CREATE the first account, as an admin, and sign in with it
+   */
+  setUp: async (user: Omit<NewUser, 'role'>): Promise<AppUser> => {
+    if (!(await auth.needsSetup())) throw new Error('An administrator already exists. Sign in instead.');
+    const problems = validateNewUser({ ...user, role: 'ADMIN' });
+    if (problems.length > 0) throw new Error(problems.join(' '));
+    await auth.createUser({ ...user, role: 'ADMIN' });
+    return AuthApi.signIn(user.login, user.password);
+  },
+
+  /**
+   * GET every account
+   */
+  listUsers: async (): Promise<AppUser[]> => {
+    requirePermission('MANAGE_USERS');
+    return auth.listUsers();
+  },
+
+  /**
+   * CREATE an account
+   */
+  createUser: async (user: NewUser): Promise<AppUser> => {
+    requirePermission('MANAGE_USERS');
+    const problems = validateNewUser(user, (await auth.listUsers()).map(u => u.login));
+    if (problems.length > 0) throw new Error(problems.join(' '));
+    return auth.createUser(user);
   },
 
   /**
-   * EXPORT entire database to JSON
+   * UPDATE an account's name, role or status. The last active admin cannot be demoted or disabled.
    */
-  exportSqlDump: async () => {
-    const data = await VoterApi.getVoters();
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `SUPABASE_BACKUP_${new Date().getTime()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  updateUser: async (id: string, patch: UserPatch): Promise<void> => {
+    requirePermission('MANAGE_USERS');
+    const users = await auth.listUsers();
+    const target = users.find(u => u.id === id);
+    const losesAdmin = target?.role === 'ADMIN' && !target.disabled && ((patch.role && patch.role !== 'ADMIN') || patch.disabled);
+    if (losesAdmin && activeAdmins(users).length <= 1) throw new Error('Keep at least one active admin.');
+    await auth.updateUser(id, patch);
+    const me = getSessionUser();
+    if (me?.id === id) setSessionUser({ ...me, ...patch });
   },
 
   /**
-   * IMPORT JSON backup
+   * SET a password; users may change their own, admins anyone's
    */
-  importSqlDump: async (file: File) => {
-    const text = await file.text();
-    const data = JSON.parse(text) as VoterRecord[];
-    return await VoterApi.bulkCreate(data);
+  setPassword: async (id: string, password: string): Promise<void> => {
+    if (getSessionUser()?.id !== id) requirePermission('MANAGE_USERS');
+    if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+    await auth.setPassword(id, password);
   }
 };
@@ -0,0 +1,105 @@
+import { VoterRecord } from './types';
+import { getSessionUser } from './authService';
+
+/**
+ * Append-only audit trail of voter changes.
+ * `VoterApi` writes one entry per affected record after every write, so the
+ * trail is the same whichever storage backend is active.
+ */
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE' | 'IMPORT' | 'TRUNCATE';
+
+export interface AuditEntry {
+  id: string;
+  actor: string;
+  action: AuditAction;
+  /** null for table-wide actions (TRUNCATE, IMPORT summaries) */
+  epicNo: string | null;
+  before: VoterRecord | null;
+  after: VoterRecord | null;
+  /** What triggered the change, e.g. "INGEST: roll_142.pdf" or "VAULT" */
+  source: string;
+  note?: string | null;
+  createdAt: string;
+}
+
+export interface AuditCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface AuditQuery {
+  /** Substring of the EPIC */
+  epicNo?: string;
+  actor?: string;
+  action?: AuditAction;
+  /** Substring of the source */
+  source?: string;
+  limit: number;
+  before?: AuditCursor | null;
+}
+
+export interface AuditPage {
+  /** Newest first */
+  entries: AuditEntry[];
+  nextCursor: AuditCursor | null;
+}
+
+export const AUDIT_ACTIONS: AuditAction[] = ['INSERT', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE', 'IMPORT', 'TRUNCATE'];
+
+/** The signed-in user's login; 'system' for work done without a session, e.g. in tests. */
+export function currentActor(): string {
+  return getSessionUser()?.login || 'system';
+}
+
+let lastMs = 0;
+let sequence = 0;
+
+/**
+ * UUIDv7-style id: millisecond timestamp, then a counter, then random bits.
+ * Entries written in the same millisecond (a whole batch usually is) still
+ * sort in the order they were created.
+ */
+export function auditId(now = Date.now()): string {
+  sequence = now === lastMs ? sequence + 1 : 0;
+  lastMs = now;
+  const random = crypto.getRandomValues(new Uint8Array(8));
+  const hex = now.toString(16).padStart(12, '0') +
+    '7' + (sequence & 0xfff).toString(16).padStart(3, '0') +
+    ((random[0] & 0x3f) | 0x80).toString(16).padStart(2, '0') +
+    [...random.slice(1)].map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+export function auditEntry(
+  action: AuditAction,
+  source: string,
+  change: { epicNo?: string | null; before?: VoterRecord | null; after?: VoterRecord | null; note?: string }
+): AuditEntry {
+  const now = Date.now();
+  return {
+    id: auditId(now),
+    actor: currentActor(),
+    action,
+    epicNo: change.epicNo ?? change.after?.epicNo ?? change.before?.epicNo ?? null,
+    before: change.before ?? null,
+    after: change.after ?? null,
+    source,
+    note: change.note ?? null,
+    createdAt: new Date(now).toISOString()
+  };
+}
+
+// Derived on every write, so differences there only echo a changed name
+const DERIVED_FIELDS = new Set(['nameNative', 'nameLatin', 'parentSpouseNameNative', 'parentSpouseNameLatin', 'namePhonetic', 'confidence', 'lastUpdated', 'deletedAt', 'deletedReason', 'deletedBy', 'deletionId']);
+
+/** Top-level fields whose value differs between the two snapshots. */
+export function changedFields(before: VoterRecord | null, after: VoterRecord | null): string[] {
+  const a = (before || {}) as Record<string, unknown>;
+  const b = (after || {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(key => !DERIVED_FIELDS.has(key) && JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .sort();
+}
+
+export const cursorForEntry = (entry: AuditEntry): AuditCursor => ({ createdAt: entry.createdAt, id: entry.id });
@@ -0,0 +1,114 @@
+/**
+ * Roles and what each may do.
+ * The UI hides what a role cannot use and `VoterApi` refuses it again, so a
+ * tampered page still cannot write; with Supabase the database policies
+ * (see the auth migration) are the final check.
+ */
+
+export type UserRole = 'ADMIN' | 'DATA_ENTRY' | 'HELPDESK' | 'VIEWER';
+
+export const USER_ROLES: UserRole[] = ['ADMIN', 'DATA_ENTRY', 'HELPDESK', 'VIEWER'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: 'Admin',
+  DATA_ENTRY: 'Data Entry',
+  HELPDESK: 'Helpdesk',
+  VIEWER: 'Viewer'
+};
+
+export const ROLE_HINTS: Record<UserRole, string> = {
+  ADMIN: 'Everything, including users, backups, the recycle bin and wiping the vault',
+  DATA_ENTRY: 'Ingest, edit, delete and export voters; review duplicates',
+  HELPDESK: 'Search and print slips, also from the offline replica',
+  VIEWER: 'Browse the vault, analytics and the audit log; no changes'
+};
+
+export type Permission =
+  | 'SEARCH'
+  | 'PRINT'
+  | 'BROWSE'
+  | 'EDIT'
+  | 'DELETE'
+  | 'INGEST'
+  | 'EXPORT'
+  | 'REVIEW_DUPLICATES'
+  | 'FIELD'
+  | 'AUDIT'
+  | 'GEOGRAPHY'
+  | 'RECYCLE'
+  | 'BACKUP'
+  | 'RESTORE'
+  | 'WIPE'
+  | 'MANAGE_USERS';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: ['SEARCH', 'PRINT', 'BROWSE', 'EDIT', 'DELETE', 'INGEST', 'EXPORT', 'REVIEW_DUPLICATES', 'FIELD', 'AUDIT', 'GEOGRAPHY', 'RECYCLE', 'BACKUP', 'RESTORE', 'WIPE', 'MANAGE_USERS'],
+  DATA_ENTRY: ['SEARCH', 'PRINT', 'BROWSE', 'EDIT', 'DELETE', 'INGEST', 'EXPORT', 'REVIEW_DUPLICATES', 'FIELD'],
+  HELPDESK: ['SEARCH', 'PRINT', 'FIELD'],
+  VIEWER: ['SEARCH', 'BROWSE', 'AUDIT']
+};
+
+export interface AppUser {
+  id: string;
+  /** Username (local accounts) or email (Supabase); recorded as the audit actor */
+  login: string;
+  name: string;
+  role: UserRole;
+  disabled: boolean;
+}
+
+export interface NewUser {
+  login: string;
+  name: string;
+  role: UserRole;
+  password: string;
+}
+
+export type UserPatch = Partial<Pick<AppUser, 'name' | 'role' | 'disabled'>>;
+
+/** Account storage behind `AuthApi`; one adapter per storage backend. */
+export interface AuthStore {
+  /** What users sign in with */
+  readonly loginKind: 'USERNAME' | 'EMAIL';
+  /** The signed-in user, restoring a session kept from an earlier page load; null when signed out. */
+  currentUser(): Promise<AppUser | null>;
+  signIn(login: string, password: string): Promise<AppUser>;
+  signOut(): Promise<void>;
+  /** True until the first account exists; that account is created as an admin from the login screen. */
+  needsSetup(): Promise<boolean>;
+  listUsers(): Promise<AppUser[]>;
+  createUser(user: NewUser): Promise<AppUser>;
+  updateUser(id: string, patch: UserPatch): Promise<void>;
+  setPassword(id: string, password: string): Promise<void>;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+let sessionUser: AppUser | null = null;
+
+export function setSessionUser(user: AppUser | null) {
+  sessionUser = user;
+}
+
+export const getSessionUser = () => sessionUser;
+
+export const can = (permission: Permission, user: AppUser | null = sessionUser) =>
+  !!user && !user.disabled && ROLE_PERMISSIONS[user.role].includes(permission);
+
+export function requirePermission(permission: Permission) {
+  if (can(permission)) return;
+  const action = permission.toLowerCase().replace(/_/g, ' ');
+  if (!sessionUser) throw new Error(`Sign in first (${action}).`);
+  throw new Error(`The ${ROLE_LABELS[sessionUser.role]} role does not allow this action (${action}).`);
+}
+
+/** Problems with a new account's details; empty when it can be created. */
+export function validateNewUser(user: NewUser, existingLogins: string[] = []): string[] {
+  const login = user.login.trim().toLowerCase();
+  return [
+    ...(login ? [] : ['Enter a username.']),
+    ...(existingLogins.some(l => l.toLowerCase() === login) ? [`"${user.login.trim()}" is already taken.`] : []),
+    ...(user.name.trim() ? [] : ['Enter the operator\'s name.']),
+    ...(user.password.length >= MIN_PASSWORD_LENGTH ? [] : [`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`])
+  ];
+}
@@ -0,0 +1,209 @@
+import { VoterRecord } from './types';
+import { changedFields } from './auditService';
+import { sha256Hex } from './hash';
+import { buildProvenance } from './provenanceService';
+import { ValidationReportRow, hasErrors, toReportRows, validateVoter } from './validationService';
+
+/**
+ * Vault backups.
+ * A backup is a header plus the voter records it covers. The header carries a
+ * SHA-256 of the records, so a truncated or hand-edited file is refused
+ * before anything is written, and a schema version, so files written by
+ * older builds are migrated forward instead of being upserted as-is.
+ */
+
+export const BACKUP_FORMAT = 'VIS_BACKUP';
+/** 1: bare JSON array of stored rows (no header). 2: header + records. */
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  appVersion: string;
+  /** Storage backend the backup was taken from */
+  backend: string;
+  recordCount: number;
+  createdAt: string;
+  /** SHA-256 (hex) of `JSON.stringify(records)` */
+  checksum: string;
+}
+
+export interface Backup {
+  header: BackupHeader;
+  records: VoterRecord[];
+}
+
+/** A backup file read and migrated to the current schema, records not yet checked. */
+export interface ParsedBackup {
+  header: BackupHeader;
+  records: unknown[];
+  /** Schema version the file was written with */
+  fileVersion: number;
+}
+
+/** What a restore would do. A dry run stops here; a real restore writes `adds` and `updates`. */
+export interface RestorePlan {
+  header: BackupHeader;
+  fileVersion: number;
+  adds: VoterRecord[];
+  updates: VoterRecord[];
+  /** Backup records whose vault copy was changed after the backup was taken */
+  conflicts: VoterRecord[];
+  unchanged: number;
+  rejected: number;
+  issues: ValidationReportRow[];
+}
+
+// Columns adapters derive on write; a backup holds records, not rows
+const STORAGE_FIELDS = ['namePhonetic', 'confidence', 'partId', 'deletedAt', 'deletedReason', 'deletedBy', 'deletionId'];
+
+const toRecord = <T extends object>(row: T): VoterRecord => {
+  const record = { ...row } as unknown as Record<string, unknown>;
+  STORAGE_FIELDS.forEach(field => delete record[field]);
+  return record as unknown as VoterRecord;
+};
+
+const checksumOf = (records: unknown[]) =>
+  sha256Hex(new TextEncoder().encode(JSON.stringify(records)));
+
+export async function buildBackup(rows: VoterRecord[], backend: string): Promise<Backup> {
+  const records = rows.map(toRecord);
+  return {
+    header: {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      appVersion: __APP_VERSION__,
+      backend,
+      recordCount: records.length,
+      createdAt: new Date().toISOString(),
+      checksum: await checksumOf(records)
+    },
+    records
+  };
+}
+
+/**
+ * Upgrades a file one schema version at a time; keyed by the version upgraded from.
+ * Version 1 files have no header, so one is made up for them (and their
+ * checksum is computed here rather than verified).
+ */
+const MIGRATIONS: Record<number, (file: unknown) => Promise<{ header: BackupHeader; records: unknown[] }>> = {
+  1: async (file) => {
+    const records = (file as unknown[]).map(row => (row && typeof row === 'object' ? toRecord(row) : row));
+    return {
+      header: {
+        format: BACKUP_FORMAT,
+        schemaVersion: 2,
+        appVersion: 'unknown',
+        backend: 'unknown',
+        recordCount: records.length,
+        createdAt: '',
+        checksum: await checksumOf(records)
+      },
+      records
+    };
+  }
+};
+
+/** Reads a backup file, verifies its header and migrates it forward. Throws on anything that cannot be trusted. */
+export async function parseBackup(text: string): Promise<ParsedBackup> {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a backup: the file is not valid JSON.');
+  }
+
+  const fileVersion = Array.isArray(file) ? 1 : (file as Partial<Backup> | null)?.header?.schemaVersion;
+  if (!Array.isArray(file)) {
+    const header = (file as Partial<Backup> | null)?.header;
+    if (header?.format !== BACKUP_FORMAT || typeof fileVersion !== 'number' || !Array.isArray((file as Backup).records)) {
+      throw new Error('Not a backup: the file has no VIS backup header.');
+    }
+    if (fileVersion > BACKUP_SCHEMA_VERSION) {
+      throw new Error(`Backup schema v${fileVersion} is newer than this app supports (v${BACKUP_SCHEMA_VERSION}). Update the app first.`);
+    }
+    const { records } = file as Backup;
+    if (records.length !== header.recordCount) {
+      throw new Error(`Backup is incomplete: header lists ${header.recordCount} records, file has ${records.length}.`);
+    }
+    if (await checksumOf(records) !== header.checksum) {
+      throw new Error('Backup checksum does not match its records; the file was altered or damaged.');
+    }
+  }
+
+  let current = file as Backup;
+  for (let version = fileVersion as number; version < BACKUP_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from backup schema v${version}.`);
+    current = await migrate(current) as Backup;
+  }
+  return { header: current.header, records: current.records, fileVersion: fileVersion as number };
+}
+
+const isText = (value: unknown) => typeof value === 'string';
+const REQUIRED_TEXT = ['epicNo', 'name', 'parentSpouseName', 'assemblyConstituency', 'parliamentaryConstituency', 'district', 'state', 'partNo', 'partName', 'serialNo', 'lastUpdated'];
+
+/** Fields that would break validation or storage outright; `validateVoter` judges the values. */
+function shapeProblems(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return ['record'];
+  const record = value as Record<string, unknown>;
+  const station = record.pollingStation as Record<string, unknown> | undefined;
+  return [
+    ...REQUIRED_TEXT.filter(field => !isText(record[field])),
+    ...(typeof record.age === 'number' ? [] : ['age']),
+    ...(isText(record.gender) ? [] : ['gender']),
+    ...(station && typeof station === 'object' && isText(station.name) && isText(station.address) ? [] : ['pollingStation'])
+  ];
+}
+
+/**
+ * Sorts every backup record into add / update / conflict / unchanged against
+ * the vault's current copies, rejecting malformed and invalid ones.
+ */
+export function planRestore(backup: ParsedBackup, existing: VoterRecord[], fileName: string): RestorePlan {
+  const current = new Map(existing.map(v => [v.epicNo, toRecord(v)]));
+  const seen = new Set<string>();
+  const plan: RestorePlan = {
+    header: backup.header,
+    fileVersion: backup.fileVersion,
+    adds: [],
+    updates: [],
+    conflicts: [],
+    unchanged: 0,
+    rejected: 0,
+    issues: []
+  };
+
+  backup.records.forEach((value, index) => {
+    const source = { fileName, row: index + 1 };
+    const reject = (field: string, code: string, message: string) => {
+      plan.rejected++;
+      plan.issues.push({ field, code, severity: 'ERROR', message, epicNo: String((value as VoterRecord | null)?.epicNo ?? ''), source });
+    };
+
+    const broken = shapeProblems(value);
+    if (broken.length > 0) return reject(broken[0], 'RECORD_SHAPE', `Malformed record: ${broken.join(', ')} missing or of the wrong type.`);
+    const voter = value as VoterRecord;
+    if (seen.has(voter.epicNo)) return reject('epicNo', 'EPIC_DUPLICATE', `EPIC ${voter.epicNo} appears more than once in the backup.`);
+    seen.add(voter.epicNo);
+
+    const found = validateVoter(voter);
+    plan.issues.push(...toReportRows(voter, found, source));
+    if (hasErrors(found)) {
+      plan.rejected++;
+      return;
+    }
+
+    // Backups from before provenance existed are attributed to the backup file
+    const record = voter.provenance ? voter : { ...voter, provenance: buildProvenance(source, { method: 'BACKUP_RESTORE' }, found) };
+    const stored = current.get(voter.epicNo);
+    if (!stored) plan.adds.push(record);
+    // A record without provenance has not lost the vault's; only its own fields count
+    else if (changedFields(stored, voter).every(field => field === 'provenance' && !voter.provenance)) plan.unchanged++;
+    // Compared as instants: the same time can be written with a `Z` or a `+00:00` offset
+    else if (Date.parse(stored.lastUpdated) > Date.parse(voter.lastUpdated)) plan.conflicts.push(record);
+    else plan.updates.push(record);
+  });
+  return plan;
+}
@@ -0,0 +1,98 @@
+import { isTransient } from './storage';
+
+/**
+ * Chunked bulk writes.
+ * Large batches are sent in chunks so one oversized request or one bad row
+ * cannot sink a whole ingestion. Transient failures are retried with
+ * exponential backoff; any other failure is bisected until the rows that
+ * cause it are isolated, and everything else in the chunk is still written.
+ */
+
+export interface BulkWriteOptions {
+  /** Rows per request */
+  chunkSize?: number;
+  /** Retries per chunk on transient errors */
+  retries?: number;
+  /** Delay before the first retry; doubles each time */
+  backoffMs?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const DEFAULT_CHUNK_SIZE = 500;
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_BACKOFF_MS = 500;
+
+export interface ChunkFailure<T> {
+  item: T;
+  reason: string;
+}
+
+/** Outcome of a bulk voter write, by EPIC. */
+export interface BulkWriteResult {
+  inserted: string[];
+  updated: string[];
+  failed: { epicNo: string; reason: string }[];
+  /**
+   * Set when the rows were written but their audit or version entries were
+   * not; the rows stay written, only their history is incomplete.
+   */
+  trailError?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const reasonOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export async function writeInChunks<T>(
+  items: T[],
+  write: (chunk: T[]) => Promise<void>,
+  options: BulkWriteOptions = {}
+): Promise<{ written: T[]; failed: ChunkFailure<T>[] }> {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, retries = DEFAULT_RETRIES, backoffMs = DEFAULT_BACKOFF_MS, onProgress } = options;
+  const written: T[] = [];
+  const failed: ChunkFailure<T>[] = [];
+
+  // Resolves to the error that finally stopped the chunk, or null once written
+  const attempt = async (chunk: T[]): Promise<unknown> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        await write(chunk);
+        return null;
+      } catch (error) {
+        if (!isTransient(error) || retry >= retries) return error;
+        await sleep(backoffMs * 2 ** retry);
+      }
+    }
+  };
+
+  const run = async (chunk: T[]): Promise<void> => {
+    const error = await attempt(chunk);
+    if (!error) {
+      written.push(...chunk);
+    } else if (chunk.length === 1 || isTransient(error)) {
+      // Splitting cannot help when the backend itself is unavailable
+      const reason = isTransient(error) ? `${reasonOf(error)} (gave up after ${retries} retries)` : reasonOf(error);
+      failed.push(...chunk.map(item => ({ item, reason })));
+    } else {
+      const middle = Math.ceil(chunk.length / 2);
+      await run(chunk.slice(0, middle));
+      await run(chunk.slice(middle));
+    }
+  };
+
+  const size = Math.max(1, chunkSize);
+  for (let i = 0; i < items.length; i += size) {
+    await run(items.slice(i, i + size));
+    if (onProgress) onProgress(Math.min(i + size, items.length), items.length);
+  }
+  return { written, failed };
+}
+
+/** One line per failed record, for logs and errors. */
+export const describeFailures = (result: BulkWriteResult) =>
+  result.failed.map(f => `${f.epicNo}: ${f.reason}`).join('\n');
+
+/** For single-record writes, where a failure should surface as an error. */
+export function throwIfFailed(result: BulkWriteResult) {
+  if (result.failed.length > 0) throw new Error(describeFailures(result));
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { VoterApi } from '../api';
+import { AUDIT_ACTIONS, AuditAction, AuditCursor, AuditEntry, changedFields } from '../auditService';
+
+const PAGE_SIZE = 50;
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  INSERT: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  UPDATE: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  DELETE: 'bg-red-50 text-red-500 border-red-100',
+  RESTORE: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  PURGE: 'bg-slate-900 text-white border-slate-900',
+  IMPORT: 'bg-amber-50 text-amber-600 border-amber-100',
+  TRUNCATE: 'bg-red-600 text-white border-red-600'
+};
+
+const display = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<AuditCursor | null>(null);
+  const [epicNo, setEpicNo] = useState('');
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [source, setSource] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const query = {
+    epicNo: epicNo.trim() || undefined,
+    actor: actor.trim() || undefined,
+    action: action || undefined,
+    source: source.trim() || undefined,
+    limit: PAGE_SIZE
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => load(null), 300);
+    return () => clearTimeout(timer);
+  }, [epicNo, actor, action, source]);
+
+  const load = async (before: AuditCursor | null) => {
+    setIsLoading(true);
+    try {
+      const page = await VoterApi.getAuditLog({ ...query, before });
+      setEntries(prev => (before ? [...prev, ...page.entries] : page.entries));
+      setNextCursor(page.nextCursor);
+    } catch (e: any) {
+      alert(`Could not load audit trail: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = 'block w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300';
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
+      <div className="bg-white rounded-[40px] p-10 shadow-sm border border-slate-100">
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">Audit Trail</h2>
+            <p className="text-slate-500 font-medium">Every insert, update, delete and import, with who made it and what changed.</p>
+          </div>
+          {isLoading && <i className="fa-solid fa-circle-notch animate-spin text-indigo-600"></i>}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <input value={epicNo} onChange={(e) => setEpicNo(e.target.value)} placeholder="EPIC contains…" className={inputClass} />
+          <input value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Actor" className={inputClass} />
+          <select value={action} onChange={(e) => setAction(e.target.value as AuditAction | '')} className={inputClass}>
+            <option value="">All actions</option>
+            {AUDIT_ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+          <input value={source} onChange={(e) => setSource(e.target.value)} placeholder="Source contains…" className={inputClass} />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[40px] shadow-sm border border-slate-100 overflow-hidden">
+        {entries.length === 0 && !isLoading ? (
+          <div className="text-center py-24">
+            <i className="fa-solid fa-clock-rotate-left text-4xl text-slate-100 mb-4"></i>
+            <p className="text-slate-400 font-bold">No audit entries match.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-slate-50">
+            {entries.map(entry => {
+              const fields = changedFields(entry.before, entry.after);
+              const expanded = expandedId === entry.id;
+              return (
+                <div key={entry.id}>
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    className="w-full px-10 py-5 flex flex-wrap items-center gap-4 text-left hover:bg-slate-50/30 transition-colors"
+                  >
+                    <span className={`px-3 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest ${ACTION_STYLES[entry.action]}`}>
+                      {entry.action}
+                    </span>
+                    <span className="font-black text-slate-900 font-mono text-sm w-32">{entry.epicNo || '—'}</span>
+                    <span className="text-xs font-bold text-slate-600 flex-1 truncate">
+                      {entry.note || (fields.length > 0 ? fields.join(', ') : 'No field changes')}
+                    </span>
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate max-w-[220px]" title={entry.source}>{entry.source}</span>
+                    <span className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">{entry.actor}</span>
+                    <span className="text-[10px] font-bold text-slate-400">{new Date(entry.createdAt).toLocaleString()}</span>
+                  </button>
+                  {expanded && fields.length > 0 && (
+                    <div className="px-10 pb-6">
+                      <table className="w-full text-left text-xs">
+                        <thead>
+                          <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                            <th className="py-2 w-48">Field</th>
+                            <th className="py-2">Before</th>
+                            <th className="py-2">After</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50">
+                          {fields.map(field => (
+                            <tr key={field}>
+                              <td className="py-2 font-black text-slate-500">{field}</td>
+                              <td className="py-2 font-mono text-red-500 break-all">{display((entry.before as Record<string, unknown> | null)?.[field])}</td>
+                              <td className="py-2 font-mono text-emerald-600 break-all">{display((entry.after as Record<string, unknown> | null)?.[field])}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {nextCursor && (
+          <div className="p-6 text-center border-t border-slate-50">
+            <button
+              onClick={() => load(nextCursor)}
+              disabled={isLoading}
+              className="px-6 py-3 rounded-xl border border-slate-200 font-black text-xs text-slate-600 hover:bg-slate-50 transition-all disabled:opacity-30"
+            >
+              Load Older Entries
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
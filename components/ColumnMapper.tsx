@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import {
+  ColumnMapping,
+  MappableField,
+  MAPPABLE_FIELDS,
+  adaptMapping,
+  deleteMappingProfile,
+  loadMappingProfiles
+} from '../mappingService';
+
+interface ColumnMapperProps {
+  fileName: string;
+  sheetName: string;
+  headers: string[];
+  sampleRows: Record<string, unknown>[];
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping, profileName?: string) => void;
+  onSkip: () => void;
+}
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({ fileName, sheetName, headers, sampleRows, initialMapping, onConfirm, onSkip }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [profileName, setProfileName] = useState('');
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profiles, setProfiles] = useState(loadMappingProfiles());
+
+  const missingRequired = MAPPABLE_FIELDS.filter(f => f.required && !mapping[f.key]);
+
+  const updateField = (field: MappableField, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header) next[field] = header;
+      else delete next[field];
+      return next;
+    });
+  };
+
+  const handleLoadProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (profile) setMapping(adaptMapping(profile.mapping, headers));
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    deleteMappingProfile(id);
+    setProfiles(loadMappingProfiles());
+  };
+
+  const handleConfirm = () => {
+    onConfirm(mapping, saveProfile && profileName.trim() ? profileName.trim() : undefined);
+  };
+
+  return (
+    <div className="bg-white border-2 border-indigo-100 rounded-[32px] p-8 space-y-8 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h3 className="text-xl font-black text-slate-900 tracking-tight">Column Mapping</h3>
+          <p className="text-xs text-slate-400 font-black uppercase tracking-widest">{fileName} • Sheet "{sheetName}" • {headers.length} columns detected</p>
+        </div>
+        {profiles.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              defaultValue=""
+              onChange={(e) => handleLoadProfile(e.target.value)}
+              className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold text-slate-600"
+            >
+              <option value="" disabled>Load saved profile...</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto border border-slate-100 rounded-2xl">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              {headers.map(h => <th key={h} className="px-4 py-3 whitespace-nowrap">{h}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {sampleRows.map((row, i) => (
+              <tr key={i}>
+                {headers.map(h => (
+                  <td key={h} className="px-4 py-3 text-xs font-medium text-slate-600 whitespace-nowrap max-w-[200px] truncate">
+                    {row[h] === undefined || row[h] === null ? '' : String(row[h])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {MAPPABLE_FIELDS.map(field => (
+          <label key={field.key} className="flex items-center justify-between gap-4 bg-slate-50 rounded-2xl px-5 py-3 border border-slate-100">
+            <span className="text-xs font-black text-slate-700">
+              {field.label}
+              {field.required && <span className="text-red-500 ml-1">*</span>}
+            </span>
+            <select
+              value={mapping[field.key] || ''}
+              onChange={(e) => updateField(field.key, e.target.value)}
+              className={`bg-white border rounded-xl px-3 py-2 text-xs font-bold max-w-[220px] ${
+                mapping[field.key] ? 'border-indigo-200 text-indigo-600' : 'border-slate-200 text-slate-400'
+              }`}
+            >
+              <option value="">— Not mapped —</option>
+              {headers.map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4 pt-4 border-t border-slate-100">
+        <div className="flex items-center gap-3">
+          <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+          <input
+            type="text"
+            value={profileName}
+            disabled={!saveProfile}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name (e.g. Pune AC-210 roll)"
+            className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold text-slate-700 w-72 disabled:opacity-50"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          {missingRequired.length > 0 && (
+            <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">
+              Unmapped: {missingRequired.map(f => f.label).join(', ')}
+            </span>
+          )}
+          <button onClick={onSkip} className="px-6 py-3 rounded-xl border border-slate-200 text-slate-500 font-black text-xs hover:bg-slate-50 transition-all">
+            Skip Sheet
+          </button>
+          <button onClick={handleConfirm} className="px-8 py-3 rounded-xl bg-indigo-600 text-white font-black text-xs hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-100">
+            Apply Mapping
+          </button>
+        </div>
+      </div>
+
+      {profiles.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {profiles.map(p => (
+            <span key={p.id} className="flex items-center gap-2 bg-slate-50 border border-slate-100 rounded-full pl-3 pr-1 py-1 text-[10px] font-black text-slate-500">
+              {p.name}
+              <button onClick={() => handleDeleteProfile(p.id)} className="w-5 h-5 rounded-full hover:bg-red-50 hover:text-red-500 flex items-center justify-center">
+                <i className="fa-solid fa-xmark text-[9px]"></i>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Provenance } from '../types';
+import { LOW_CONFIDENCE } from '../provenanceService';
+
+/** Extraction confidence pill; red below the low-confidence threshold. */
+export const ConfidenceBadge: React.FC<{ provenance?: Provenance }> = ({ provenance }) => {
+  if (!provenance) {
+    return <span className="text-[8px] font-black text-slate-300 uppercase tracking-widest">No Provenance</span>;
+  }
+  const { confidence } = provenance;
+  const tone = confidence < LOW_CONFIDENCE
+    ? 'bg-red-50 text-red-500 border-red-100'
+    : confidence < 0.85 ? 'bg-amber-50 text-amber-600 border-amber-100' : 'bg-emerald-50 text-emerald-600 border-emerald-100';
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-[8px] font-black uppercase tracking-widest ${tone}`}>
+      {Math.round(confidence * 100)}% conf.
+    </span>
+  );
+};
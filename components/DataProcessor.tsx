@@ -1,10 +1,25 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import * as XLSX from 'xlsx';
 import * as pdfjs from 'pdfjs-dist';
 import { VoterApi } from '../api';
-import { VoterRecord } from '../types';
-import { extractVoters } from '../geminiService';
+import { ExtractionMethod, VoterRecord } from '../types';
+import { EXTRACTION_MODEL, extractVoters } from '../geminiService';
+import { OCR_MODEL, ocrRollPage } from '../offlineService';
+import { PageMeta, cellsToVoters, fromPdfTextContent, mergeMeta, parseRollPage } from '../rollParser';
+import { isImageFile, preprocessImage } from '../imagePreprocess';
+import { canvasToBase64, hasTextLayer, releaseCanvas, renderPageToCanvas, textFromContent } from '../pdfPages';
+import { ColumnMapping, applyMapping, findProfileForHeaders, saveMappingProfile, suggestMapping } from '../mappingService';
+import { ColumnMapper } from './ColumnMapper';
+import { StagedDecision, StagedRecord, StagingEntry, canAccept, restageRecord, stageRecords } from '../stagingService';
+import { detectDuplicatesForBatch } from '../duplicateService';
+import { BulkWriteResult } from '../bulkWriteService';
+import { setActivity } from '../liveService';
+import { SourceRef, describeSource, downloadErrorReport, hasErrors, toReportRows } from '../validationService';
+import { StagingQueue } from './StagingQueue';
+import { RecordOrigin } from '../provenanceService';
+import { PdfJob, deletePdfJob, getPageCheckpoints, listUnfinishedJobs, openPdfJob, savePageCheckpoint, savePdfJob } from '../pdfJobService';
+import { sha256Hex } from '../hash';
 
 // Configure PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.mjs`;
@@ -16,170 +31,519 @@ interface DataProcessorProps {
 interface ProcessedFile {
   name: string;
   count: number;
-  status: 'processing' | 'completed' | 'error';
+  status: 'processing' | 'completed' | 'paused' | 'error';
+  pagesDone?: number;
+  pagesTotal?: number;
+  pageMethods?: Record<number, ExtractionMethod>;
+  stage?: string;
+  progress?: number;
 }
 
+interface PendingImage {
+  file: File;
+  rotation: number;
+  preview: string;
+}
+
+interface ExtractedPage {
+  voters: VoterRecord[];
+  method: ExtractionMethod;
+  model?: string;
+  signals?: (number | undefined)[];
+  meta: PageMeta;
+}
+
+type ScanEngine = 'TESSERACT' | 'GEMINI_VISION';
+type TextEngine = 'LAYOUT' | 'GEMINI';
+
+const METHOD_LABELS: Record<ExtractionMethod, string> = {
+  GEMINI_TEXT: 'AI Text',
+  GEMINI_VISION: 'AI Vision',
+  TESSERACT_OCR: 'OCR',
+  LAYOUT_PARSER: 'Layout'
+};
+
+const METHOD_STYLES: Record<ExtractionMethod, string> = {
+  GEMINI_TEXT: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  GEMINI_VISION: 'bg-violet-50 text-violet-600 border-violet-100',
+  TESSERACT_OCR: 'bg-amber-50 text-amber-600 border-amber-100',
+  LAYOUT_PARSER: 'bg-emerald-50 text-emerald-600 border-emerald-100'
+};
+
+interface PendingMapping {
+  fileName: string;
+  sheetName: string;
+  headers: string[];
+  sampleRows: Record<string, unknown>[];
+  suggested: ColumnMapping;
+}
+
+const metaFromVoter = (v: VoterRecord): PageMeta => ({
+  partNo: v.partNo,
+  partName: v.partName,
+  assemblyConstituency: v.assemblyConstituency,
+  parliamentaryConstituency: v.parliamentaryConstituency
+});
+
 export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedFiles, setProcessedFiles] = useState<ProcessedFile[]>([]);
-  const [lastExtracted, setLastExtracted] = useState<VoterRecord[]>([]);
+  const [staged, setStaged] = useState<StagedRecord[]>([]);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [commitProgress, setCommitProgress] = useState<{ done: number; total: number } | null>(null);
+  const [lastCommit, setLastCommit] = useState<BulkWriteResult | null>(null);
   const [processingLog, setProcessingLog] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [stats, setStats] = useState({ totalExtracted: 0, totalSaved: 0 });
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [unfinishedJobs, setUnfinishedJobs] = useState<PdfJob[]>([]);
+  const [scanEngine, setScanEngine] = useState<ScanEngine>('TESSERACT');
+  const [textEngine, setTextEngine] = useState<TextEngine>('GEMINI');
+  const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+  const [pendingOthers, setPendingOthers] = useState<File[]>([]);
+  const mappingResolver = useRef<((mapping: ColumnMapping | null) => void) | null>(null);
+
+  useEffect(() => {
+    refreshJobs();
+  }, []);
+
+  const refreshJobs = async () => {
+    try {
+      setUnfinishedJobs(await listUnfinishedJobs());
+    } catch (err) {
+      console.error('Failed to read ingestion jobs', err);
+    }
+  };
 
   const addLog = (msg: string) => {
     setProcessingLog(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 8));
   };
 
-  const saveBatchToVault = async (voters: VoterRecord[]) => {
-    const validVoters = voters.filter(v => !v.epicNo.startsWith('PENDING') && v.name !== 'Unknown');
-    if (validVoters.length === 0) return 0;
-    
+  /**
+   * Queues a batch for operator review instead of writing it straight to the vault.
+   * `signals` are per-record engine confidences parallel to `voters`.
+   * `firstRow` is the row number of the first record in its source (2 for
+   * sheets, whose row 1 holds the headers; 1 for page cells).
+   */
+  const stageBatch = async (voters: VoterRecord[], source: SourceRef, origin: RecordOrigin, signals: (number | undefined)[] = [], firstRow = 1) => {
+    if (voters.length === 0) return 0;
+    const entries: StagingEntry[] = voters.map((record, index) => ({
+      record,
+      source: { ...source, row: firstRow + index },
+      origin: { ...origin, signal: signals[index] }
+    }));
+
+    try {
+      const items = await stageRecords(entries);
+      setStaged(prev => [...prev, ...items]);
+      const modified = items.filter(i => i.status === 'MODIFIED').length;
+      const invalid = items.filter(i => hasErrors(i.issues)).length;
+      addLog(`STAGING: ${items.length} records queued from ${describeSource(source)} (${modified} differ from vault, ${invalid} invalid).`);
+      return items.length;
+    } catch (err: any) {
+      addLog(`STAGING ERROR: ${err.message}`);
+      return 0;
+    }
+  };
+
+  const handleDecide = (ids: string[], decision: StagedDecision) => {
+    const idSet = new Set(ids);
+    setStaged(prev => prev.map(item =>
+      idSet.has(item.id) && (decision !== 'ACCEPTED' || canAccept(item)) ? { ...item, decision } : item
+    ));
+  };
+
+  const handleDownloadReport = () => {
+    const rows = staged.flatMap(item => toReportRows(item.record, item.issues, item.source));
+    downloadErrorReport(rows, 'INGESTION_ERRORS');
+  };
+
+  const handleEditStaged = async (id: string, record: VoterRecord) => {
+    const item = staged.find(i => i.id === id);
+    if (!item) return;
+    try {
+      const updated = await restageRecord(item, record);
+      setStaged(prev => prev.map(i => i.id === id ? updated : i));
+    } catch (err: any) {
+      addLog(`STAGING ERROR: ${err.message}`);
+    }
+  };
+
+  const handleCommit = async () => {
+    const accepted = staged.filter(i => i.decision === 'ACCEPTED');
+    if (accepted.length === 0) return;
+
+    setIsCommitting(true);
+    setCommitProgress({ done: 0, total: accepted.length });
+    setActivity('INGESTING', `committing ${accepted.length} records`);
     try {
-      addLog(`VAULT: Initiating cloud upsert for ${validVoters.length} records...`);
-      await VoterApi.bulkCreate(validVoters);
-      setStats(prev => ({ ...prev, totalSaved: prev.totalSaved + validVoters.length }));
-      addLog(`VAULT: Successfully committed to Supabase.`);
+      addLog(`VAULT: Committing ${accepted.length} accepted records...`);
+      // One write per source file so the audit trail names the file each record came from
+      const byFile = new Map<string, VoterRecord[]>();
+      accepted.forEach(i => byFile.set(i.source.fileName, [...(byFile.get(i.source.fileName) || []), i.record]));
+      const result: BulkWriteResult = { inserted: [], updated: [], failed: [] };
+      let committedBefore = 0;
+      for (const [fileName, records] of byFile) {
+        const fileResult = await VoterApi.bulkCreate(records, `INGEST: ${fileName}`, {
+          onProgress: done => setCommitProgress({ done: committedBefore + done, total: accepted.length })
+        });
+        committedBefore += records.length;
+        result.inserted.push(...fileResult.inserted);
+        result.updated.push(...fileResult.updated);
+        result.failed.push(...fileResult.failed);
+        if (fileResult.trailError) {
+          result.trailError = result.trailError ? `${result.trailError}; ${fileResult.trailError}` : fileResult.trailError;
+          addLog(`AUDIT WARNING: ${fileName} was written but its history was not: ${fileResult.trailError}`);
+        }
+      }
+      setLastCommit(result);
+
+      // Failed records stay staged, marked with the reason, so they can be fixed and committed again
+      const reasons = new Map(result.failed.map(f => [f.epicNo, f.reason]));
+      const written = accepted.filter(i => !reasons.has(i.record.epicNo));
+      const writtenIds = new Set(written.map(i => i.id));
+      setStaged(prev => prev
+        .filter(i => !writtenIds.has(i.id))
+        .map(i => (i.decision === 'ACCEPTED' && reasons.has(i.record.epicNo) ? { ...i, writeError: reasons.get(i.record.epicNo) } : i)));
+      setStats(prev => ({ ...prev, totalSaved: prev.totalSaved + written.length }));
+      addLog(`VAULT: ${result.inserted.length} inserted, ${result.updated.length} updated, ${result.failed.length} failed.`);
       if (onUpdateCount) onUpdateCount();
-      return validVoters.length;
+      if (written.length === 0) return;
+
+      try {
+        const pairs = await detectDuplicatesForBatch(written.map(i => i.record));
+        if (pairs.length > 0) addLog(`DUPLICATES: ${pairs.length} probable duplicate pairs queued for review.`);
+      } catch (err: any) {
+        addLog(`DUPLICATES: Detection skipped (${err.message}).`);
+      }
     } catch (err: any) {
       addLog(`VAULT ERROR: ${err.message}`);
-      return 0;
+    } finally {
+      setIsCommitting(false);
+      setCommitProgress(null);
+      setActivity('BROWSING');
     }
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
+    const selected: File[] = Array.from(files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    const images = selected.filter(isImageFile);
+    if (images.length > 0) {
+      // Photos get a review tray first so the operator can fix quarter-turns
+      setPendingImages(images.map(file => ({ file, rotation: 0, preview: URL.createObjectURL(file) })));
+      setPendingOthers(selected.filter(f => !isImageFile(f)));
+      return;
+    }
+    await runIngestion(selected);
+  };
+
+  const clearImageTray = () => {
+    pendingImages.forEach(img => URL.revokeObjectURL(img.preview));
+    setPendingImages([]);
+    setPendingOthers([]);
+  };
+
+  const rotatePendingImage = (index: number) => {
+    setPendingImages(prev => prev.map((img, i) => i === index ? { ...img, rotation: (img.rotation + 90) % 360 } : img));
+  };
+
+  const handleStartImageBatch = () => {
+    const rotations = new Map<File, number>(pendingImages.map(img => [img.file, img.rotation]));
+    const files = [...pendingOthers, ...pendingImages.map(img => img.file)];
+    clearImageTray();
+    runIngestion(files, rotations);
+  };
+
+  const handleResumeJob = (job: PdfJob) => {
+    runIngestion([new File([job.file], job.fileName, { type: 'application/pdf' })]);
+  };
+
+  const handleDiscardJob = async (job: PdfJob) => {
+    if (confirm(`Discard saved progress for ${job.fileName}?`)) {
+      await deletePdfJob(job.id);
+      refreshJobs();
+    }
+  };
+
+  const updateFile = (name: string, patch: Partial<ProcessedFile>) => {
+    setProcessedFiles(prev => prev.map(f => f.name === name ? { ...f, ...patch } : f));
+  };
 
+  const runIngestion = async (files: File[], rotations: Map<File, number> = new Map()) => {
     setError(null);
     setIsProcessing(true);
     setProcessedFiles([]);
     setProcessingLog([]);
     setStats({ totalExtracted: 0, totalSaved: 0 });
+    setStaged([]);
     
+    let imageMeta: PageMeta = {};
     try {
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         setProcessedFiles(prev => [...prev, { name: file.name, count: 0, status: 'processing' }]);
+        setActivity('INGESTING', file.name);
         addLog(`FILE: Starting ingestion for ${file.name}`);
         
         let fileVoters: VoterRecord[] = [];
+        let paused = false;
 
         if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-          fileVoters = await processPdf(file);
+          const result = await processPdf(file);
+          fileVoters = result.voters;
+          paused = result.paused;
+        } else if (isImageFile(file)) {
+          try {
+            const result = await processImage(file, rotations.get(file) || 0, imageMeta);
+            fileVoters = result.voters;
+            imageMeta = result.meta;
+          } catch (err: any) {
+            if (err.message === 'QUOTA_EXCEEDED') {
+              updateFile(file.name, { status: 'paused', stage: 'AI quota exhausted' });
+              addLog(`AI QUOTA: Stopped at ${file.name}. Re-upload the remaining images later.`);
+              break;
+            }
+            updateFile(file.name, { status: 'error', stage: err.message });
+            addLog(`IMAGE WARNING: ${file.name} failed: ${err.message}`);
+            continue;
+          }
         } else {
           const data = await file.arrayBuffer();
+          const fileHash = await sha256Hex(data);
           const workbook = XLSX.read(data);
           for (const sheetName of workbook.SheetNames) {
             const ws = workbook.Sheets[sheetName];
-            const jsonData = XLSX.utils.sheet_to_json(ws);
+            const jsonData = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: '' });
             if (jsonData.length > 0) {
-              const mapped = mapDataToVoters(jsonData, stats.totalExtracted);
+              const mapping = await resolveMapping(file.name, sheetName, jsonData);
+              if (!mapping) {
+                addLog(`MAP: Skipped sheet "${sheetName}".`);
+                continue;
+              }
+              const mapped = applyMapping(jsonData, mapping);
               fileVoters.push(...mapped);
-              // Direct save for Excel sheets
-              await saveBatchToVault(mapped);
+              await stageBatch(mapped, { fileName: file.name, sheet: sheetName }, { method: 'EXCEL_MAPPING', fileHash }, [], 2);
             }
           }
         }
 
         setStats(prev => ({ ...prev, totalExtracted: prev.totalExtracted + fileVoters.length }));
-        setLastExtracted(fileVoters.slice(0, 10)); // Keep a preview of the last file
         
-        setProcessedFiles(prev => prev.map(f => f.name === file.name ? { ...f, count: fileVoters.length, status: 'completed' } : f));
+        updateFile(file.name, { count: fileVoters.length, status: paused ? 'paused' : 'completed' });
+        if (paused) {
+          addLog(`FILE: ${file.name} paused. Resume it from the saved jobs list.`);
+          break;
+        }
         addLog(`FILE: Completed ${file.name}.`);
       }
       
-      addLog(`INGESTION: All files processed. Database is synced.`);
+      addLog(`INGESTION: All files processed. Review the staging queue to commit.`);
     } catch (err: any) {
       setError(`Ingestion failed: ${err.message || 'Check file format.'}`);
       addLog(`CRITICAL ERROR: ${err.message}`);
     } finally {
       setIsProcessing(false);
+      setActivity('BROWSING');
+      refreshJobs();
+    }
+  };
+
+  const recordPageMethod = (name: string, pageNo: number, method: ExtractionMethod) => {
+    setProcessedFiles(prev => prev.map(f => f.name === name ? { ...f, pageMethods: { ...f.pageMethods, [pageNo]: method } } : f));
+  };
+
+  /**
+   * Extracts a single page. Pages with a text layer go to the layout parser
+   * or Gemini as text; image-only pages are rendered and handed to the
+   * selected scan engine. `meta` carries part/constituency headers forward,
+   * since roll pages only print them on some pages.
+   */
+  const extractPage = async (pdf: pdfjs.PDFDocumentProxy, pageNo: number, meta: PageMeta): Promise<ExtractedPage> => {
+    const page = await pdf.getPage(pageNo);
+    const textContent = await page.getTextContent();
+
+    if (hasTextLayer(textContent)) {
+      if (textEngine === 'LAYOUT') {
+        const parsed = parseRollPage(fromPdfTextContent(textContent, page.getViewport({ scale: 1 })));
+        return { voters: cellsToVoters(parsed, meta), method: 'LAYOUT_PARSER', meta: mergeMeta(meta, parsed.meta) };
+      }
+      addLog(`AI: Extracting from Page ${pageNo}...`);
+      const response = await extractVoters({ textContent: textFromContent(textContent) });
+      return { voters: response.voters, method: 'GEMINI_TEXT', model: EXTRACTION_MODEL, meta };
+    }
+
+    addLog(`SCAN: Page ${pageNo} has no text layer. Rendering for ${scanEngine === 'TESSERACT' ? 'OCR' : 'AI Vision'}...`);
+    const canvas = await renderPageToCanvas(page);
+    try {
+      if (scanEngine === 'TESSERACT') {
+        const parsed = await ocrRollPage(canvas);
+        return {
+          voters: cellsToVoters(parsed, meta),
+          method: 'TESSERACT_OCR',
+          model: OCR_MODEL,
+          signals: parsed.cells.map(c => c.confidence),
+          meta: mergeMeta(meta, parsed.meta)
+        };
+      }
+      const response = await extractVoters(canvasToBase64(canvas));
+      return { voters: response.voters, method: 'GEMINI_VISION', model: EXTRACTION_MODEL, meta };
+    } finally {
+      releaseCanvas(canvas);
+      page.cleanup();
+    }
+  };
+
+  /**
+   * Runs a photo through preprocessing and the selected scan engine, then
+   * stages it exactly like a scanned PDF page.
+   */
+  const processImage = async (file: File, rotation: number, meta: PageMeta): Promise<{ voters: VoterRecord[]; meta: PageMeta }> => {
+    updateFile(file.name, { stage: 'Preprocessing', progress: 0 });
+    const fileHash = await sha256Hex(await file.arrayBuffer());
+    const { canvas, skewAngle } = await preprocessImage(file, { rotation });
+    addLog(`IMAGE: ${file.name} normalised (rotation ${rotation}°, deskew ${skewAngle.toFixed(1)}°).`);
+
+    try {
+      let voters: VoterRecord[];
+      let origin: RecordOrigin;
+      let signals: (number | undefined)[] = [];
+      if (scanEngine === 'TESSERACT') {
+        updateFile(file.name, { stage: 'OCR' });
+        const parsed = await ocrRollPage(canvas, progress => updateFile(file.name, { progress }));
+        voters = cellsToVoters(parsed, meta);
+        signals = parsed.cells.map(c => c.confidence);
+        meta = mergeMeta(meta, parsed.meta);
+        origin = { method: 'TESSERACT_OCR', fileHash, model: OCR_MODEL };
+      } else {
+        updateFile(file.name, { stage: 'AI Vision', progress: 0.5 });
+        voters = (await extractVoters(canvasToBase64(canvas))).voters;
+        origin = { method: 'GEMINI_VISION', fileHash, model: EXTRACTION_MODEL };
+      }
+      const method = origin.method as ExtractionMethod;
+      recordPageMethod(file.name, 1, method);
+      updateFile(file.name, { stage: undefined, progress: 1 });
+      addLog(`${METHOD_LABELS[method].toUpperCase()}: ${file.name} found ${voters.length} records.`);
+      if (voters.length > 0) {
+        await stageBatch(voters, { fileName: file.name }, origin, signals);
+      }
+      return { voters, meta };
+    } finally {
+      releaseCanvas(canvas);
     }
   };
 
-  const processPdf = async (file: File): Promise<VoterRecord[]> => {
+  /**
+   * Processes every page of a roll as a checkpointed job. Pages that already
+   * succeeded are re-staged from IndexedDB without calling the AI again; a
+   * quota error pauses the job so it can be resumed later.
+   */
+  const processPdf = async (file: File): Promise<{ voters: VoterRecord[]; paused: boolean }> => {
     addLog(`PDF: Loading engine for ${file.name}...`);
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+    // pdf.js transfers the buffer to its worker, so hand it a copy
+    const pdf = await pdfjs.getDocument({ data: arrayBuffer.slice(0) }).promise;
+    const job = await openPdfJob(file, arrayBuffer, pdf.numPages);
+    const checkpoints = await getPageCheckpoints(job.id);
     const allVoters: VoterRecord[] = [];
 
-    // Process pages in small batches to push to Supabase immediately
-    const pagesToProcess = Math.min(pdf.numPages, 10); // Limit to first 10 pages for safety/demo
-    addLog(`PDF: Analyzing ${pagesToProcess} pages with AI...`);
+    const resumed = [...checkpoints.values()].filter(c => c.status === 'DONE').length;
+    addLog(resumed > 0
+      ? `PDF: Resuming job at ${resumed}/${pdf.numPages} pages.`
+      : `PDF: Analyzing ${pdf.numPages} pages with AI...`);
+
+    let pagesDone = 0;
+    let pageMeta: PageMeta = {};
+    updateFile(file.name, { pagesDone, pagesTotal: pdf.numPages });
+
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const checkpoint = checkpoints.get(i);
+      if (checkpoint?.status === 'DONE') {
+        allVoters.push(...checkpoint.voters);
+        if (checkpoint.method) recordPageMethod(file.name, i, checkpoint.method);
+        if (checkpoint.voters[0]) pageMeta = mergeMeta(pageMeta, metaFromVoter(checkpoint.voters[0]));
+        if (checkpoint.voters.length > 0) {
+          const origin: RecordOrigin = { method: checkpoint.method || 'GEMINI_TEXT', fileHash: job.id, model: checkpoint.model };
+          await stageBatch(checkpoint.voters, { fileName: file.name, page: i }, origin, checkpoint.signals);
+        }
+        updateFile(file.name, { pagesDone: ++pagesDone });
+        continue;
+      }
 
-    for (let i = 1; i <= pagesToProcess; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const text = textContent.items.map((item: any) => item.str).join(' ');
-      
-      addLog(`AI: Extracting from Page ${i}...`);
       try {
-        const response = await extractVoters({ textContent: text });
-        if (response.voters.length > 0) {
-          allVoters.push(...response.voters);
-          addLog(`AI: Page ${i} found ${response.voters.length} records.`);
-          // DIRECT TO VAULT: Save as we go
-          await saveBatchToVault(response.voters);
+        const { voters, method, model, signals, meta } = await extractPage(pdf, i, pageMeta);
+        pageMeta = meta;
+        await savePageCheckpoint({ jobId: job.id, pageNo: i, status: 'DONE', voters, method, model, signals, completedAt: new Date().toISOString() });
+        recordPageMethod(file.name, i, method);
+        if (voters.length > 0) {
+          allVoters.push(...voters);
+          addLog(`${METHOD_LABELS[method].toUpperCase()}: Page ${i} found ${voters.length} records.`);
+          await stageBatch(voters, { fileName: file.name, page: i }, { method, fileHash: job.id, model }, signals);
         }
+        updateFile(file.name, { pagesDone: ++pagesDone });
       } catch (err: any) {
+        if (err.message === 'QUOTA_EXCEEDED') {
+          await savePdfJob({ ...job, status: 'PAUSED', pausedReason: `AI quota exhausted at page ${i}` });
+          addLog(`AI QUOTA: Job paused at page ${i}. ${pagesDone} pages are saved.`);
+          return { voters: allVoters, paused: true };
+        }
+        await savePageCheckpoint({ jobId: job.id, pageNo: i, status: 'FAILED', voters: [], error: err.message, completedAt: new Date().toISOString() });
         addLog(`AI WARNING: Page ${i} failed: ${err.message}`);
       }
     }
-    return allVoters;
+
+    const failed = pdf.numPages - pagesDone;
+    await savePdfJob({
+      ...job,
+      status: failed > 0 ? 'PAUSED' : 'COMPLETED',
+      pausedReason: failed > 0 ? `${failed} pages failed` : undefined
+    });
+    return { voters: allVoters, paused: false };
   };
 
-  const getValue = (row: any, searchKeys: string[]): string => {
-    const rowKeys = Object.keys(row);
-    for (const key of searchKeys) {
-      if (row[key] !== undefined && row[key] !== null) return row[key].toString().trim();
+  /**
+   * Returns the column mapping for a sheet. Layouts matching a saved profile
+   * are mapped automatically; anything else pauses ingestion on the wizard.
+   */
+  const resolveMapping = (fileName: string, sheetName: string, rows: Record<string, unknown>[]): Promise<ColumnMapping | null> => {
+    const headers = Object.keys(rows[0]);
+    const profile = findProfileForHeaders(headers);
+    if (profile) {
+      addLog(`MAP: "${sheetName}" matched profile "${profile.name}".`);
+      return Promise.resolve(profile.mapping);
     }
-    for (const actualKey of rowKeys) {
-      const cleanActualKey = actualKey.trim().toLowerCase();
-      for (const searchKey of searchKeys) {
-        if (cleanActualKey.includes(searchKey.toLowerCase())) return row[actualKey]?.toString().trim() || '';
-      }
+
+    addLog(`MAP: Unknown layout in "${sheetName}". Awaiting operator mapping...`);
+    return new Promise(resolve => {
+      mappingResolver.current = resolve;
+      setPendingMapping({
+        fileName,
+        sheetName,
+        headers,
+        sampleRows: rows.slice(0, 5),
+        suggested: suggestMapping(headers)
+      });
+    });
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping, profileName?: string) => {
+    if (pendingMapping && profileName) {
+      saveMappingProfile(profileName, pendingMapping.headers, mapping);
+      addLog(`MAP: Saved profile "${profileName}".`);
     }
-    return '';
+    setPendingMapping(null);
+    mappingResolver.current?.(mapping);
+    mappingResolver.current = null;
   };
 
-  const mapDataToVoters = (data: any[], offset: number): VoterRecord[] => {
-    return data.map((row, index) => {
-      const epic = getValue(row, ['ओळखपत्र', 'EPIC', 'ID CARD', 'VOTER ID', 'CARD NO']);
-      const name = getValue(row, ['नाव', 'NAME', 'VOTER NAME', 'FULL NAME']);
-      const ageStr = getValue(row, ['वय', 'AGE', 'VOTER AGE']);
-      const age = parseInt(ageStr || '25');
-      const genderRaw = getValue(row, ['लिंग', 'GENDER', 'SEX']).toLowerCase();
-      let gender: 'M' | 'F' | 'O' = 'M';
-      if (genderRaw.includes('स्त्री') || genderRaw.includes('female') || genderRaw === 'f') gender = 'F';
-      const parent = getValue(row, ['नातेवाईक', 'FATHER', 'SPOUSE', 'GUARDIAN', 'PARENT']);
-      const srNo = getValue(row, ['अनुक्रमांक', 'SR NO', 'SERIAL', 'PART SR']) || (offset + index + 1).toString();
-      const partInfo = getValue(row, ['बूथ नं.', 'भाग/अनुभ', 'PART', 'BOOTH']);
-      const stationName = getValue(row, ['केंद्र', 'STATION', 'POLLING STATION']);
-      const stationAddress = getValue(row, ['पत्ता', 'ADDRESS', 'STATION ADDRESS']);
-
-      return {
-        epicNo: epic || `PENDING-${offset + index}-${Date.now()}`,
-        name: name || 'Unknown',
-        age: age || 25,
-        gender: gender,
-        parentSpouseName: parent || 'Unknown',
-        assemblyConstituency: '',
-        parliamentaryConstituency: '',
-        district: '',
-        state: '',
-        partNo: partInfo,
-        partName: partInfo,
-        serialNo: srNo,
-        pollingStation: {
-          name: stationName,
-          address: stationAddress
-        },
-        lastUpdated: new Date().toISOString()
-      };
-    });
+  const handleMappingSkip = () => {
+    setPendingMapping(null);
+    mappingResolver.current?.(null);
+    mappingResolver.current = null;
   };
 
   return (
@@ -188,7 +552,7 @@ export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) =
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6 mb-12">
           <div>
             <h2 className="text-3xl font-black text-slate-900 tracking-tight">Vault Ingestion Engine</h2>
-            <p className="text-slate-500 font-medium">Data is extracted and stored permanently in Supabase Cloud via API.</p>
+            <p className="text-slate-500 font-medium">Data is extracted, reviewed in staging and then committed to Supabase Cloud.</p>
           </div>
           <div className="flex items-center gap-3 bg-emerald-50 px-5 py-2.5 rounded-2xl border border-emerald-100">
              <i className={`fa-solid ${isProcessing ? 'fa-circle-notch animate-spin' : 'fa-cloud-check'} text-emerald-600`}></i>
@@ -198,18 +562,53 @@ export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) =
           </div>
         </div>
         
-        {!isProcessing && processedFiles.length === 0 ? (
+        {!isProcessing && processedFiles.length === 0 && pendingImages.length > 0 ? (
+          <div className="border-2 border-slate-100 rounded-[40px] p-8 bg-slate-50/30 space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <div>
+                <p className="text-slate-900 font-black text-xl">{pendingImages.length} Photo{pendingImages.length === 1 ? '' : 's'} Ready</p>
+                <p className="text-slate-400 font-medium text-sm">
+                  Fix sideways shots with the rotate button. Skew and camera orientation are corrected automatically.
+                  {pendingOthers.length > 0 && ` ${pendingOthers.length} other file(s) will be processed first.`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={clearImageTray} className="px-6 py-3 rounded-xl border border-slate-200 text-slate-500 font-black text-xs hover:bg-white transition-all">
+                  Cancel
+                </button>
+                <button onClick={handleStartImageBatch} className="px-8 py-3 rounded-xl bg-slate-900 text-white font-black text-xs shadow-xl shadow-slate-200">
+                  Process Batch
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+              {pendingImages.map((img, i) => (
+                <div key={img.preview} className="bg-white rounded-2xl border border-slate-100 p-2 space-y-2">
+                  <div className="aspect-[3/4] overflow-hidden rounded-xl bg-slate-50 flex items-center justify-center">
+                    <img src={img.preview} alt={img.file.name} className="max-w-full max-h-full object-contain transition-transform" style={{ transform: `rotate(${img.rotation}deg)` }} />
+                  </div>
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="text-[9px] font-black text-slate-500 truncate">{img.file.name}</span>
+                    <button onClick={() => rotatePendingImage(i)} title="Rotate 90°" className="w-7 h-7 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 flex items-center justify-center">
+                      <i className="fa-solid fa-rotate-right text-xs"></i>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : !isProcessing && processedFiles.length === 0 ? (
           <div className="flex flex-col items-center justify-center border-4 border-dashed border-slate-50 rounded-[40px] p-24 bg-slate-50/30 transition-all hover:bg-slate-50 hover:border-slate-100 group cursor-pointer" onClick={() => fileInputRef.current?.click()}>
             <div className="w-24 h-24 bg-white rounded-3xl flex items-center justify-center shadow-2xl mb-8 group-hover:scale-110 transition-transform">
                <i className="fa-solid fa-cloud-arrow-up text-3xl text-indigo-600"></i>
             </div>
             <p className="text-slate-900 font-black text-xl mb-2">Upload Source Files</p>
-            <p className="text-slate-400 font-medium text-center max-w-xs mb-8">PDF, Excel, or CSV voter lists. Data will be saved directly to the Vault.</p>
+            <p className="text-slate-400 font-medium text-center max-w-xs mb-8">PDF, Excel, CSV or photos of roll pages. Records are staged for review before reaching the Vault.</p>
             <input 
               type="file" 
               ref={fileInputRef} 
               onChange={handleFileUpload} 
-              accept=".pdf, .xlsx, .xls, .csv" 
+              accept=".pdf, .xlsx, .xls, .csv, .jpg, .jpeg, .png, .webp, image/*" 
               multiple 
               className="hidden" 
             />
@@ -217,8 +616,85 @@ export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) =
               Browse Local Files
             </button>
           </div>
-        ) : (
+        ) : null}
+
+        {!isProcessing && processedFiles.length === 0 && (
+          <div className="mt-8 flex flex-wrap items-center justify-between gap-4 bg-slate-50 border border-slate-100 rounded-2xl px-6 py-4">
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Text Page Engine</p>
+              <p className="text-xs text-slate-500 font-medium">Layout parser runs offline with no AI cost.</p>
+            </div>
+            <div className="flex gap-1 bg-white p-1 rounded-xl border border-slate-100">
+              {(['LAYOUT', 'GEMINI'] as TextEngine[]).map(engine => (
+                <button
+                  key={engine}
+                  onClick={() => setTextEngine(engine)}
+                  className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                    textEngine === engine ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-600'
+                  }`}
+                >
+                  {engine === 'LAYOUT' ? 'Layout Parser' : 'Gemini Text'}
+                </button>
+              ))}
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Scanned Page Engine</p>
+              <p className="text-xs text-slate-500 font-medium">Used for PDF pages without a text layer.</p>
+            </div>
+            <div className="flex gap-1 bg-white p-1 rounded-xl border border-slate-100">
+              {(['TESSERACT', 'GEMINI_VISION'] as ScanEngine[]).map(engine => (
+                <button
+                  key={engine}
+                  onClick={() => setScanEngine(engine)}
+                  className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                    scanEngine === engine ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-600'
+                  }`}
+                >
+                  {engine === 'TESSERACT' ? 'Offline OCR (eng+mar)' : 'Gemini Vision'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!isProcessing && processedFiles.length === 0 && unfinishedJobs.length > 0 && (
+          <div className="mt-8 bg-amber-50/50 border border-amber-100 rounded-[32px] p-6 space-y-3">
+            <div className="flex items-center gap-2 mb-2">
+              <i className="fa-solid fa-clock-rotate-left text-[10px] text-amber-500"></i>
+              <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Unfinished PDF Jobs</span>
+            </div>
+            {unfinishedJobs.map(job => (
+              <div key={job.id} className="flex items-center justify-between gap-4 bg-white rounded-2xl px-5 py-3 border border-amber-100">
+                <div>
+                  <p className="text-sm font-black text-slate-800">{job.fileName}</p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                    {job.numPages} pages • {job.pausedReason || 'Interrupted'} • {new Date(job.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => handleResumeJob(job)} className="px-4 py-2 rounded-xl bg-slate-900 text-white text-[10px] font-black">Resume</button>
+                  <button onClick={() => handleDiscardJob(job)} className="px-4 py-2 rounded-xl border border-slate-200 text-slate-400 hover:text-red-500 text-[10px] font-black">Discard</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(isProcessing || processedFiles.length > 0) && (
           <div className="space-y-8">
+            {pendingMapping && (
+              <ColumnMapper
+                key={`${pendingMapping.fileName}:${pendingMapping.sheetName}`}
+                fileName={pendingMapping.fileName}
+                sheetName={pendingMapping.sheetName}
+                headers={pendingMapping.headers}
+                sampleRows={pendingMapping.sampleRows}
+                initialMapping={pendingMapping.suggested}
+                onConfirm={handleMappingConfirm}
+                onSkip={handleMappingSkip}
+              />
+            )}
+
             <div className="bg-slate-900 rounded-[32px] p-10 text-white relative overflow-hidden shadow-2xl">
               <div className="absolute top-0 right-0 p-10 opacity-10">
                 <i className="fa-solid fa-server text-8xl"></i>
@@ -231,7 +707,7 @@ export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) =
                   <div>
                     <h4 className="text-xl font-black mb-1 tracking-tight">Vault Synchronization</h4>
                     <p className="text-xs text-slate-400 font-black uppercase tracking-widest">
-                      {stats.totalSaved} Records Permanently Stored in Cloud
+                      {stats.totalSaved} Records Committed • {staged.length} In Staging
                     </p>
                   </div>
                 </div>
@@ -247,7 +723,7 @@ export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) =
 
                 {!isProcessing && (
                   <button 
-                    onClick={() => { setProcessedFiles([]); setProcessingLog([]); setStats({totalExtracted:0, totalSaved:0}); }}
+                    onClick={() => { setProcessedFiles([]); setProcessingLog([]); setStaged([]); setStats({totalExtracted:0, totalSaved:0}); }}
                     className="px-8 py-4 bg-white text-slate-900 rounded-2xl font-black hover:bg-slate-100 transition-all text-xs"
                   >
                     Start New Ingestion
@@ -258,10 +734,46 @@ export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) =
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                <div className="lg:col-span-1 space-y-6">
+                  <div className="bg-white rounded-[32px] p-6 border border-slate-100 space-y-4">
+                    {processedFiles.map(f => (
+                      <div key={f.name}>
+                        <div className="flex justify-between items-center gap-2 mb-1">
+                          <span className="text-xs font-black text-slate-700 truncate">{f.name}</span>
+                          <span className={`text-[9px] font-black uppercase tracking-widest ${
+                            f.status === 'completed' ? 'text-emerald-600' : f.status === 'paused' ? 'text-amber-500' : f.status === 'error' ? 'text-red-500' : 'text-indigo-500'
+                          }`}>{f.status}</span>
+                        </div>
+                        {f.pagesTotal ? (
+                          <>
+                            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                              <div className="h-full progress-shimmer transition-all" style={{ width: `${Math.round(((f.pagesDone || 0) / f.pagesTotal) * 100)}%` }}></div>
+                            </div>
+                            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider mt-1">{f.pagesDone || 0}/{f.pagesTotal} pages • {f.count} records</p>
+                          </>
+                        ) : (
+                          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{f.count} records</p>
+                        )}
+                        {f.stage && (
+                          <p className="text-[9px] font-bold text-indigo-400 uppercase tracking-wider">
+                            {f.stage}{f.progress !== undefined && f.status === 'processing' ? ` ${Math.round(f.progress * 100)}%` : ''}
+                          </p>
+                        )}
+                        {f.pageMethods && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {(Object.entries(f.pageMethods) as [string, ExtractionMethod][]).map(([pageNo, method]) => (
+                              <span key={pageNo} title={METHOD_LABELS[method]} className={`px-1.5 py-0.5 rounded border text-[8px] font-black ${METHOD_STYLES[method]}`}>
+                                P{pageNo} · {METHOD_LABELS[method]}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                   <div className="bg-slate-50 rounded-[32px] p-6 border border-slate-200">
                     <div className="flex items-center gap-2 mb-4">
                       <i className="fa-solid fa-terminal text-[10px] text-slate-400"></i>
-                      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Direct-to-Vault Logs</span>
+                      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ingestion Logs</span>
                     </div>
                     <div className="space-y-2 max-h-[300px] overflow-y-auto">
                         {processingLog.map((log, i) => (
@@ -279,45 +791,22 @@ export const DataProcessor: React.FC<DataProcessorProps> = ({ onUpdateCount }) =
                </div>
 
                <div className="lg:col-span-2">
-                  <div className="bg-white border border-slate-100 rounded-[32px] overflow-hidden shadow-sm">
-                    <div className="px-8 py-5 bg-slate-50/50 border-b border-slate-100 flex justify-between items-center">
-                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Vault Integration Preview</span>
-                        <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest flex items-center gap-1">
-                          <i className="fa-solid fa-cloud"></i> Live Cloud Write
-                        </span>
+                  {staged.length > 0 || !isProcessing ? (
+                    <StagingQueue
+                      items={staged}
+                      isCommitting={isCommitting}
+                      commitProgress={commitProgress}
+                      lastCommit={lastCommit}
+                      onDecide={handleDecide}
+                      onEdit={handleEditStaged}
+                      onCommit={handleCommit}
+                      onDownloadReport={handleDownloadReport}
+                    />
+                  ) : (
+                    <div className="bg-white border border-slate-100 rounded-[32px] px-8 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest shadow-sm">
+                      Streaming data from files...
                     </div>
-                    <div className="overflow-x-auto">
-                      <table className="w-full text-left">
-                          <thead>
-                            <tr className="bg-white text-slate-300 uppercase font-black text-[9px] tracking-widest border-b border-slate-50">
-                              <th className="px-8 py-5">EPIC (PK)</th>
-                              <th className="px-8 py-5">Full Name</th>
-                              <th className="px-8 py-5">Status</th>
-                            </tr>
-                          </thead>
-                          <tbody className="divide-y divide-slate-50">
-                            {lastExtracted.length > 0 ? lastExtracted.map((v, i) => (
-                              <tr key={i} className="hover:bg-slate-50/20 transition-colors">
-                                <td className="px-8 py-5 font-black text-slate-900 font-mono text-xs">{v.epicNo}</td>
-                                <td className="px-8 py-5 font-black text-slate-800 text-sm">{v.name}</td>
-                                <td className="px-8 py-5">
-                                  <div className="flex items-center gap-2">
-                                    <div className="w-1.5 h-1.5 rounded-full bg-emerald-500"></div>
-                                    <span className="text-[9px] font-black text-emerald-600 uppercase tracking-tighter">Vault Saved</span>
-                                  </div>
-                                </td>
-                              </tr>
-                            )) : (
-                              <tr>
-                                <td colSpan={3} className="px-8 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">
-                                  {isProcessing ? 'Streaming data from files...' : 'No records processed in this session.'}
-                                </td>
-                              </tr>
-                            )}
-                          </tbody>
-                      </table>
-                    </div>
-                  </div>
+                  )}
                </div>
             </div>
           </div>
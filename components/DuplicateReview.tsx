@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { VoterApi } from '../api';
+import { VoterRecord } from '../types';
+import { DuplicatePair, DuplicateStatus, mergeDuplicatePair, scanVaultForDuplicates } from '../duplicateService';
+
+interface DuplicateReviewProps {
+  onUpdate?: () => void;
+}
+
+const STATUS_FILTERS: DuplicateStatus[] = ['OPEN', 'FLAGGED', 'KEPT', 'MERGED'];
+
+const COMPARE_FIELDS: { label: string; read: (v: VoterRecord) => string }[] = [
+  { label: 'Name', read: v => v.name },
+  { label: 'Parent/Spouse', read: v => v.parentSpouseName },
+  { label: 'Age', read: v => String(v.age || '') },
+  { label: 'Gender', read: v => v.gender },
+  { label: 'Part', read: v => [v.partNo, v.partName].filter(Boolean).join(' • ') },
+  { label: 'Serial', read: v => v.serialNo },
+  { label: 'House', read: v => v.houseNo || '' }
+];
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ onUpdate }) => {
+  const [status, setStatus] = useState<DuplicateStatus>('OPEN');
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [records, setRecords] = useState<Map<string, VoterRecord>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, [status]);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const data = await VoterApi.getDuplicatePairs(status);
+      const voters = await VoterApi.getByEpicNos(data.flatMap(p => [p.epicA, p.epicB]));
+      setRecords(new Map(voters.map(v => [v.epicNo, v])));
+      setPairs(data);
+    } catch (e: any) {
+      alert(`Could not load duplicates: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      const found = await scanVaultForDuplicates();
+      alert(`Scan complete: ${found.length} probable duplicate pairs above threshold.`);
+      await load();
+    } catch (e: any) {
+      alert(`Scan failed: ${e.message}`);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleResolve = async (pair: DuplicatePair, next: DuplicateStatus) => {
+    setBusyId(pair.id);
+    try {
+      await VoterApi.resolveDuplicatePair(pair.id, next);
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+    } catch (e: any) {
+      alert(`Update failed: ${e.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleMerge = async (pair: DuplicatePair, keepEpic: string) => {
+    const keep = records.get(keepEpic);
+    const drop = records.get(keepEpic === pair.epicA ? pair.epicB : pair.epicA);
+    if (!keep || !drop) return;
+    if (!confirm(`Merge ${drop.epicNo} into ${keep.epicNo}? ${drop.epicNo} will move to the Recycle Bin.`)) return;
+
+    setBusyId(pair.id);
+    try {
+      await mergeDuplicatePair(pair, keep, drop);
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+      if (onUpdate) onUpdate();
+    } catch (e: any) {
+      alert(`Merge failed: ${e.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
+      <div className="bg-white rounded-[40px] p-10 shadow-sm border border-slate-100 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-6">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">Duplicate Review</h2>
+          <p className="text-slate-500 font-medium">Records that look like the same person under different EPIC numbers.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex gap-1 bg-slate-50 p-1 rounded-2xl border border-slate-100">
+            {STATUS_FILTERS.map(s => (
+              <button
+                key={s}
+                onClick={() => setStatus(s)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                  status === s ? 'bg-white text-indigo-600 shadow-sm border border-slate-100' : 'text-slate-400 hover:text-slate-600'
+                }`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleScan}
+            disabled={isScanning}
+            className="bg-slate-900 text-white px-6 py-3 rounded-2xl font-black text-xs hover:bg-slate-800 transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            <i className={`fa-solid ${isScanning ? 'fa-circle-notch animate-spin' : 'fa-magnifying-glass-chart'}`}></i>
+            Scan Vault
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-24">
+          <i className="fa-solid fa-circle-notch animate-spin text-2xl text-indigo-600"></i>
+        </div>
+      ) : pairs.length === 0 ? (
+        <div className="text-center py-24 bg-white rounded-[40px] border border-slate-100">
+          <i className="fa-solid fa-clone text-4xl text-slate-100 mb-4"></i>
+          <p className="text-slate-400 font-bold">No {status.toLowerCase()} duplicate pairs.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {pairs.map(pair => {
+            const a = records.get(pair.epicA);
+            const b = records.get(pair.epicB);
+            const busy = busyId === pair.id;
+            return (
+              <div key={pair.id} className="bg-white rounded-[32px] border border-slate-100 shadow-sm overflow-hidden">
+                <div className="px-8 py-4 bg-slate-50/50 border-b border-slate-100 flex flex-wrap justify-between items-center gap-3">
+                  <div className="flex items-center gap-3">
+                    <span className="px-3 py-1 rounded-full bg-indigo-600 text-white text-[10px] font-black">{Math.round(pair.score * 100)}%</span>
+                    <div className="flex flex-wrap gap-1">
+                      {pair.reasons.map(r => (
+                        <span key={r} className="px-2 py-0.5 rounded-full border border-slate-200 bg-white text-[8px] font-black text-slate-500 uppercase tracking-widest">{r}</span>
+                      ))}
+                    </div>
+                  </div>
+                  {status === 'OPEN' || status === 'FLAGGED' ? (
+                    <div className="flex items-center gap-2">
+                      <button disabled={busy} onClick={() => handleResolve(pair, 'KEPT')} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-slate-100 text-slate-600 disabled:opacity-40">
+                        Keep Both
+                      </button>
+                      {status === 'OPEN' && (
+                        <button disabled={busy} onClick={() => handleResolve(pair, 'FLAGGED')} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-amber-50 text-amber-600 disabled:opacity-40">
+                          Flag
+                        </button>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                      {pair.resolvedAt ? new Date(pair.resolvedAt).toLocaleString() : ''}
+                    </span>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-50">
+                  {[a, b].map((voter, idx) => (
+                    <div key={idx} className="p-8">
+                      {voter ? (
+                        <>
+                          <div className="flex justify-between items-center mb-4">
+                            <span className="font-black text-slate-900 font-mono text-sm">{voter.epicNo}</span>
+                            {(status === 'OPEN' || status === 'FLAGGED') && (
+                              <button
+                                disabled={busy || !a || !b}
+                                onClick={() => handleMerge(pair, voter.epicNo)}
+                                className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 disabled:opacity-40"
+                              >
+                                Keep This & Merge
+                              </button>
+                            )}
+                          </div>
+                          <dl className="space-y-1">
+                            {COMPARE_FIELDS.map(f => {
+                              const other = idx === 0 ? b : a;
+                              const differs = other ? f.read(other) !== f.read(voter) : false;
+                              return (
+                                <div key={f.label} className="flex gap-3 text-xs">
+                                  <dt className="w-28 text-[9px] font-black text-slate-400 uppercase tracking-widest pt-0.5">{f.label}</dt>
+                                  <dd className={`font-bold ${differs ? 'text-amber-600' : 'text-slate-700'}`}>{f.read(voter) || '—'}</dd>
+                                </div>
+                              );
+                            })}
+                          </dl>
+                        </>
+                      ) : (
+                        <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">
+                          {idx === 0 ? pair.epicA : pair.epicB} is no longer in the vault.
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { VoterSearchCriteria } from '../types';
+import { VoterApi } from '../api';
+import { DEFAULT_EXPORT_COLUMNS, DEFAULT_SQL_TABLE, EXPORT_COLUMNS, ExportFormat, SqlStyle } from '../exportService';
+
+interface ExportDialogProps {
+  onClose: () => void;
+  /** Called once the file has been handed to the browser */
+  onExported?: (count: number, format: ExportFormat) => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; icon: string; hint: string }[] = [
+  { value: 'CSV', label: 'CSV', icon: 'fa-file-csv', hint: 'UTF-8 with BOM; opens in Excel with Devanagari intact' },
+  { value: 'XLSX', label: 'Excel', icon: 'fa-file-excel', hint: 'One sheet, header row first' },
+  { value: 'SQL', label: 'SQL', icon: 'fa-database', hint: 'CREATE TABLE plus INSERT batches or a COPY block' }
+];
+
+type FilterField = 'partNo' | 'pollingStation' | 'assemblyConstituency';
+
+const FILTER_FIELDS: { key: FilterField; label: string; placeholder: string }[] = [
+  { key: 'partNo', label: 'Part No', placeholder: 'e.g. 142' },
+  { key: 'pollingStation', label: 'Polling Station', placeholder: 'Contains…' },
+  { key: 'assemblyConstituency', label: 'Assembly Constituency', placeholder: 'Contains…' }
+];
+
+const labelOf = (key: string) => EXPORT_COLUMNS.find(c => c.key === key)?.label || key;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ onClose, onExported }) => {
+  const [format, setFormat] = useState<ExportFormat>('CSV');
+  const [sqlStyle, setSqlStyle] = useState<SqlStyle>('INSERT');
+  const [sqlTable, setSqlTable] = useState(DEFAULT_SQL_TABLE);
+  const [criteria, setCriteria] = useState<VoterSearchCriteria>({});
+  // Selected columns in output order
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExporting = progress !== null;
+  const unselected = EXPORT_COLUMNS.filter(c => !columns.includes(c.key));
+
+  const setFilter = (key: FilterField, value: string) => setCriteria(prev => ({ ...prev, [key]: value || undefined }));
+
+  const move = (index: number, by: number) =>
+    setColumns(prev => {
+      const next = [...prev];
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const count = await VoterApi.exportVoters(criteria, { format, columns, sqlStyle, sqlTable }, (done, total) => setProgress({ done, total }));
+      if (onExported) onExported(count, format);
+      onClose();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const input = 'block w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300';
+  const label = 'block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1 ml-1';
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-start justify-center p-6 overflow-y-auto no-print" onClick={isExporting ? undefined : onClose}>
+      <div className="bg-white rounded-[40px] p-10 shadow-2xl border border-slate-100 w-full max-w-3xl my-10 animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">Export Voters</h2>
+            <p className="text-slate-500 font-medium">Leave the filters blank to export the whole vault.</p>
+          </div>
+          <button onClick={onClose} disabled={isExporting} className="text-slate-400 hover:text-slate-600 transition-colors disabled:opacity-30">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+
+        <div className="space-y-8">
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Format</p>
+            <div className="grid grid-cols-3 gap-3">
+              {FORMATS.map(f => (
+                <button
+                  key={f.value}
+                  onClick={() => setFormat(f.value)}
+                  className={`p-4 rounded-2xl border text-left transition-all ${format === f.value ? 'border-indigo-600 bg-indigo-50/50' : 'border-slate-100 hover:border-slate-200'}`}
+                >
+                  <i className={`fa-solid ${f.icon} ${format === f.value ? 'text-indigo-600' : 'text-slate-300'}`}></i>
+                  <span className="block mt-2 text-sm font-black text-slate-900">{f.label}</span>
+                  <span className="block text-[10px] font-bold text-slate-400">{f.hint}</span>
+                </button>
+              ))}
+            </div>
+            {format === 'SQL' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                <label className="block">
+                  <span className={label}>Statements</span>
+                  <select className={input} value={sqlStyle} onChange={e => setSqlStyle(e.target.value as SqlStyle)}>
+                    <option value="INSERT">INSERT (any database)</option>
+                    <option value="COPY">COPY FROM stdin (Postgres, psql)</option>
+                  </select>
+                </label>
+                <label className="block">
+                  <span className={label}>Table Name</span>
+                  <input className={`${input} font-mono`} value={sqlTable} onChange={e => setSqlTable(e.target.value)} />
+                </label>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Filters</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {FILTER_FIELDS.map(f => (
+                <label key={f.key} className="block">
+                  <span className={label}>{f.label}</span>
+                  <input className={input} placeholder={f.placeholder} value={criteria[f.key] || ''} onChange={e => setFilter(f.key, e.target.value)} />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Columns</p>
+            <div className="space-y-1">
+              {columns.map((key, index) => (
+                <div key={key} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-50 border border-slate-100">
+                  <span className="w-6 text-[10px] font-black text-slate-300">{index + 1}</span>
+                  <span className="flex-1 text-xs font-black text-slate-700">{labelOf(key)}</span>
+                  <button onClick={() => move(index, -1)} disabled={index === 0} title="Move up" className="w-7 h-7 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-white disabled:opacity-20">
+                    <i className="fa-solid fa-arrow-up text-[10px]"></i>
+                  </button>
+                  <button onClick={() => move(index, 1)} disabled={index === columns.length - 1} title="Move down" className="w-7 h-7 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-white disabled:opacity-20">
+                    <i className="fa-solid fa-arrow-down text-[10px]"></i>
+                  </button>
+                  <button onClick={() => setColumns(prev => prev.filter(k => k !== key))} title="Remove" className="w-7 h-7 rounded-lg text-slate-400 hover:text-red-500 hover:bg-white">
+                    <i className="fa-solid fa-xmark text-[10px]"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+            {unselected.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {unselected.map(c => (
+                  <button
+                    key={c.key}
+                    onClick={() => setColumns(prev => [...prev, c.key])}
+                    className="px-3 py-1.5 rounded-xl border border-dashed border-slate-200 text-[10px] font-black text-slate-400 hover:border-indigo-600 hover:text-indigo-600 transition-all"
+                  >
+                    <i className="fa-solid fa-plus mr-1"></i>{c.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-8 p-4 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">
+            <i className="fa-solid fa-triangle-exclamation mr-2"></i>{error}
+          </div>
+        )}
+
+        <div className="mt-8 flex justify-end items-center gap-3">
+          {progress && progress.total > 0 && (
+            <span className="mr-auto text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {progress.done} / {progress.total} rows
+            </span>
+          )}
+          <button onClick={onClose} disabled={isExporting} className="px-6 py-3 rounded-2xl font-black text-xs text-slate-500 hover:bg-slate-50 transition-all disabled:opacity-30">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || columns.length === 0}
+            className="bg-indigo-600 text-white px-8 py-3 rounded-2xl font-black text-xs hover:bg-indigo-700 transition-all flex items-center gap-2 disabled:opacity-30"
+          >
+            <i className={`fa-solid ${isExporting ? 'fa-spinner animate-spin' : 'fa-download'}`}></i>
+            {isExporting ? 'Exporting...' : `Export ${FORMATS.find(f => f.value === format)!.label}`}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
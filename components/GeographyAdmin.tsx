@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { VoterApi } from '../api';
+import { auditId } from '../auditService';
+import { GEO_LEVEL_LABELS, GeoIndex, GeoLevel, GeoUnit, childLevel, indexGeography } from '../geographyService';
+
+interface GeographyAdminProps {
+  onUpdate?: () => void;
+}
+
+const LEVEL_ICONS: Record<GeoLevel, string> = {
+  STATE: 'fa-flag',
+  DISTRICT: 'fa-map',
+  PC: 'fa-landmark',
+  AC: 'fa-building-columns',
+  PART: 'fa-layer-group',
+  STATION: 'fa-school'
+};
+
+const describe = (unit: GeoUnit) =>
+  unit.level === 'PART' ? `Part ${unit.code || '?'}${unit.name ? ` — ${unit.name}` : ''}` : unit.name || 'Unspecified';
+
+export const GeographyAdmin: React.FC<GeographyAdminProps> = ({ onUpdate }) => {
+  const [index, setIndex] = useState<GeoIndex>(() => indexGeography([]));
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  // The unit being edited, or a new one not saved yet
+  const [draft, setDraft] = useState<GeoUnit | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setIndex(indexGeography(await VoterApi.getGeography()));
+    } catch (e: any) {
+      alert(`Could not load the geography: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const toggle = (id: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const startAdd = (parent: GeoUnit | null) => {
+    const level = childLevel(parent?.level ?? null);
+    if (!level) return;
+    if (parent) setExpanded(prev => new Set(prev).add(parent.id));
+    setDraft({ id: auditId(), level, parentId: parent?.id ?? null, name: '', code: null, address: null });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await VoterApi.saveGeoUnit(draft);
+      setDraft(null);
+      await load();
+      if (onUpdate) onUpdate();
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleDelete = async (unit: GeoUnit) => {
+    if (!confirm(`Delete ${GEO_LEVEL_LABELS[unit.level]} "${describe(unit)}"?`)) return;
+    try {
+      await VoterApi.deleteGeoUnit(unit.id);
+      await load();
+    } catch (e: any) {
+      alert(`Cannot delete: ${e.message}`);
+    }
+  };
+
+  const input = 'px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300';
+
+  const editor = (unit: GeoUnit) => (
+    <div className="flex flex-wrap items-center gap-2 py-2">
+      <span className="text-[9px] font-black text-indigo-600 uppercase tracking-widest w-40">{GEO_LEVEL_LABELS[unit.level]}</span>
+      {unit.level === 'PART' && (
+        <input className={`${input} w-24`} value={unit.code || ''} placeholder="Part No" onChange={e => setDraft({ ...unit, code: e.target.value })} />
+      )}
+      <input className={`${input} flex-1 min-w-[160px]`} value={unit.name} placeholder="Name" onChange={e => setDraft({ ...unit, name: e.target.value })} />
+      {unit.level === 'STATION' && (
+        <input className={`${input} flex-[2] min-w-[200px]`} value={unit.address || ''} placeholder="Address" onChange={e => setDraft({ ...unit, address: e.target.value })} />
+      )}
+      <button onClick={handleSave} className="px-4 py-2 rounded-xl text-[10px] font-black bg-indigo-600 text-white">Save</button>
+      <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-[10px] font-black text-slate-500 hover:bg-slate-50">Cancel</button>
+    </div>
+  );
+
+  // Nested lists are indented relative to their parent row
+  const renderChildren = (parentId: string | null, nested: boolean): React.ReactNode => {
+    const indent = { marginLeft: nested ? 24 : 0 };
+    const children = index.children.get(parentId) || [];
+    const adding = draft && draft.parentId === parentId && !index.byId.has(draft.id);
+    return (
+      <>
+        {children.map(unit => {
+          const canNest = childLevel(unit.level) !== null;
+          const isOpen = expanded.has(unit.id);
+          return (
+            <div key={unit.id} style={indent}>
+              {draft?.id === unit.id ? editor(draft) : (
+                <div className="group flex items-center gap-3 py-2 border-b border-slate-50">
+                  <button
+                    onClick={() => toggle(unit.id)}
+                    disabled={!canNest}
+                    className="w-6 h-6 rounded-lg flex items-center justify-center text-slate-400 hover:bg-slate-50 disabled:opacity-0"
+                  >
+                    <i className={`fa-solid ${isOpen ? 'fa-chevron-down' : 'fa-chevron-right'} text-[10px]`}></i>
+                  </button>
+                  <i className={`fa-solid ${LEVEL_ICONS[unit.level]} text-xs text-slate-300 w-4`}></i>
+                  <span className="text-sm font-black text-slate-800">{describe(unit)}</span>
+                  {unit.level === 'STATION' && <span className="text-xs font-medium text-slate-400 truncate">{unit.address || 'Address not specified'}</span>}
+                  <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{GEO_LEVEL_LABELS[unit.level]}</span>
+                  <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {canNest && (
+                      <button onClick={() => startAdd(unit)} title={`Add ${GEO_LEVEL_LABELS[childLevel(unit.level)!]}`} className="w-8 h-8 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50">
+                        <i className="fa-solid fa-plus text-xs"></i>
+                      </button>
+                    )}
+                    <button onClick={() => setDraft(unit)} title="Edit" className="w-8 h-8 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50">
+                      <i className="fa-solid fa-pen text-xs"></i>
+                    </button>
+                    <button onClick={() => handleDelete(unit)} title="Delete" className="w-8 h-8 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50">
+                      <i className="fa-solid fa-trash-can text-xs"></i>
+                    </button>
+                  </div>
+                </div>
+              )}
+              {isOpen && renderChildren(unit.id, true)}
+            </div>
+          );
+        })}
+        {adding && <div style={indent}>{editor(draft)}</div>}
+      </>
+    );
+  };
+
+  const roots = index.children.get(null) || [];
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
+      <div className="bg-white rounded-[40px] p-10 shadow-sm border border-slate-100 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-6">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">Electoral Geography</h2>
+          <p className="text-slate-500 font-medium">States down to polling stations. Voters read these names from their part, so a correction here applies to all of them.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {isLoading && <i className="fa-solid fa-circle-notch animate-spin text-indigo-600"></i>}
+          <button onClick={() => startAdd(null)} className="bg-slate-900 text-white px-6 py-3 rounded-2xl font-black text-xs hover:bg-slate-800 transition-all flex items-center gap-2">
+            <i className="fa-solid fa-plus"></i> Add State
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[40px] shadow-sm border border-slate-100 p-10">
+        {roots.length === 0 && !draft && !isLoading ? (
+          <div className="text-center py-16">
+            <i className="fa-solid fa-sitemap text-4xl text-slate-100 mb-4"></i>
+            <p className="text-slate-400 font-bold">No geography yet. It is filled in as rolls are ingested.</p>
+          </div>
+        ) : (
+          renderChildren(null, false)
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,32 +1,45 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { AppUser } from '../authService';
+import { AuthApi } from '../api';
 
 interface LoginProps {
-  onLogin: () => void;
+  onLogin: (user: AppUser) => void;
 }
 
 export const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  // First-run setup: the first account becomes the administrator
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [name, setName] = useState('');
+  const [confirm, setConfirm] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const byEmail = AuthApi.getLoginKind() === 'EMAIL';
+  const loginLabel = byEmail ? 'Email' : 'Username';
+
+  useEffect(() => {
+    AuthApi.needsSetup().then(setNeedsSetup).catch(e => console.error("Failed to check for accounts", e));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    if (needsSetup && password !== confirm) {
+      setError('The passwords do not match.');
+      return;
+    }
     setIsLoading(true);
-
-    // Simulated API call delay
-    setTimeout(() => {
-      // TEST CREDENTIALS: admin / admin123
-      if (username === 'admin' && password === 'admin123') {
-        sessionStorage.setItem('vis_auth', 'true');
-        onLogin();
-      } else {
-        setError('Invalid username or password. Use admin / admin123');
-        setIsLoading(false);
-      }
-    }, 800);
+    try {
+      onLogin(needsSetup
+        ? await AuthApi.setUp({ login: username, name, password })
+        : await AuthApi.signIn(username, password));
+    } catch (err: any) {
+      setError(err.message);
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -37,24 +50,44 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
             <i className="fa-solid fa-address-card text-white text-3xl"></i>
           </div>
           <h1 className="text-3xl font-black text-slate-900">VIS Platform</h1>
-          <p className="text-slate-500 font-medium">Voter Information System Access</p>
+          <p className="text-slate-500 font-medium">{needsSetup ? 'Create the first administrator' : 'Voter Information System Access'}</p>
         </div>
 
         <div className="bg-white rounded-3xl p-8 shadow-2xl shadow-indigo-100/50 border border-slate-100">
           <form onSubmit={handleSubmit} className="space-y-6">
+            {needsSetup && (
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Full Name</label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                    <i className="fa-solid fa-id-badge text-slate-300"></i>
+                  </div>
+                  <input
+                    type="text"
+                    required
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="block w-full pl-11 pr-4 py-3 bg-slate-50 border border-slate-100 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all placeholder:text-slate-300"
+                    placeholder="Your name, as shown in the audit log"
+                  />
+                </div>
+              </div>
+            )}
+
             <div>
-              <label className="block text-sm font-bold text-slate-700 mb-2">Username</label>
+              <label className="block text-sm font-bold text-slate-700 mb-2">{loginLabel}</label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
                   <i className="fa-solid fa-user text-slate-300"></i>
                 </div>
                 <input
-                  type="text"
+                  type={byEmail ? 'email' : 'text'}
                   required
+                  autoComplete="username"
                   value={username}
                   onChange={(e) => setUsername(e.target.value)}
                   className="block w-full pl-11 pr-4 py-3 bg-slate-50 border border-slate-100 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all placeholder:text-slate-300"
-                  placeholder="Enter your username"
+                  placeholder={`Enter your ${loginLabel.toLowerCase()}`}
                 />
               </div>
             </div>
@@ -68,6 +101,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 <input
                   type="password"
                   required
+                  autoComplete={needsSetup ? 'new-password' : 'current-password'}
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="block w-full pl-11 pr-4 py-3 bg-slate-50 border border-slate-100 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all placeholder:text-slate-300"
@@ -76,6 +110,26 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
               </div>
             </div>
 
+            {needsSetup && (
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Confirm Password</label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                    <i className="fa-solid fa-lock text-slate-300"></i>
+                  </div>
+                  <input
+                    type="password"
+                    required
+                    autoComplete="new-password"
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                    className="block w-full pl-11 pr-4 py-3 bg-slate-50 border border-slate-100 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all placeholder:text-slate-300"
+                    placeholder="••••••••"
+                  />
+                </div>
+              </div>
+            )}
+
             {error && (
               <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-2 text-red-600 text-sm animate-pulse">
                 <i className="fa-solid fa-circle-exclamation"></i>
@@ -94,25 +148,17 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
             >
               {isLoading ? (
                 <span className="flex items-center justify-center gap-2">
-                  <i className="fa-solid fa-spinner animate-spin"></i> Authenticating...
+                  <i className="fa-solid fa-spinner animate-spin"></i> {needsSetup ? 'Creating account...' : 'Authenticating...'}
                 </span>
-              ) : 'Sign In'}
+              ) : needsSetup ? 'Create Admin & Sign In' : 'Sign In'}
             </button>
           </form>
 
-          <div className="mt-8 pt-6 border-t border-slate-100 text-center">
-            <p className="text-xs text-slate-400 font-medium uppercase tracking-widest mb-4">Test Credentials</p>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="bg-slate-50 p-2 rounded-lg">
-                <p className="text-[10px] text-slate-400 font-bold uppercase">User</p>
-                <p className="text-xs font-mono font-bold text-slate-700">admin</p>
-              </div>
-              <div className="bg-slate-50 p-2 rounded-lg">
-                <p className="text-[10px] text-slate-400 font-bold uppercase">Pass</p>
-                <p className="text-xs font-mono font-bold text-slate-700">admin123</p>
-              </div>
-            </div>
-          </div>
+          {needsSetup && (
+            <p className="mt-6 text-xs text-slate-400 font-medium text-center">
+              No accounts exist yet. This one gets full access; add the other operators from the Users page.
+            </p>
+          )}
         </div>
         
         <p className="text-center mt-8 text-slate-400 text-xs font-medium">
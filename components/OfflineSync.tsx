@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { VoterRecord } from '../types';
+import { diffVoters } from '../stagingService';
+import {
+  OutboxEntry,
+  ReplicaInfo,
+  discardOutbox,
+  downloadReplica,
+  getReplicaInfo,
+  listOutbox,
+  resolveConflict,
+  syncOutbox
+} from '../replicaService';
+
+interface OfflineSyncProps {
+  /** True while the API is serving the replica */
+  offline: boolean;
+  /** Called whenever the queue or the vault may have changed */
+  onUpdate?: () => void;
+}
+
+const describeChange = (entry: OutboxEntry) =>
+  entry.kind === 'DELETE' ? `Delete (${entry.reason})` : `Save ${entry.record.name}`;
+
+export const OfflineSync: React.FC<OfflineSyncProps> = ({ offline, onUpdate }) => {
+  const [info, setInfo] = useState<ReplicaInfo | null>(null);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [partNos, setPartNos] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const load = async () => {
+    const [replica, outbox] = await Promise.all([getReplicaInfo(), listOutbox()]);
+    setInfo(replica);
+    setEntries(outbox);
+    if (replica && !partNos) setPartNos(replica.partNos.join(', '));
+  };
+
+  const run = async (work: () => Promise<string | null>) => {
+    setIsBusy(true);
+    try {
+      const message = await work();
+      if (message) alert(message);
+    } catch (e: any) {
+      alert(`Field sync failed: ${e.message}`);
+    } finally {
+      await load();
+      setIsBusy(false);
+      if (onUpdate) onUpdate();
+    }
+  };
+
+  const handleDownload = () =>
+    run(async () => {
+      const next = await downloadReplica(partNos.split(','));
+      return `${next.count} records from part${next.partNos.length === 1 ? '' : 's'} ${next.partNos.join(', ')} are available offline.`;
+    });
+
+  const handleSync = () =>
+    run(async () => {
+      const result = await syncOutbox();
+      const held = result.conflicts ? ` ${result.conflicts} conflicting change${result.conflicts === 1 ? ' needs' : 's need'} review.` : '';
+      return result.error ? `Synced ${result.synced}, then stopped at ${result.error}.${held}` : `Synced ${result.synced} change${result.synced === 1 ? '' : 's'}.${held}`;
+    });
+
+  const handleDiscard = () => {
+    if (!confirm(`Discard ${entries.length} queued change${entries.length === 1 ? '' : 's'}? They will never reach the vault.`)) return;
+    run(async () => `${await discardOutbox()} queued changes discarded.`);
+  };
+
+  const handleResolve = (entry: OutboxEntry, keep: 'KEEP_MINE' | 'KEEP_VAULT') =>
+    run(async () => {
+      await resolveConflict(entry.id, keep);
+      return null;
+    });
+
+  const conflicts = entries.filter(e => e.conflict);
+  const queued = entries.filter(e => !e.conflict);
+
+  const input = 'block w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300';
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
+      <div className="bg-white rounded-[40px] p-10 shadow-sm border border-slate-100">
+        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-end gap-6">
+          <div>
+            <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">Field Replica</h2>
+            <p className="text-slate-500 font-medium">
+              {info
+                ? <><span className="text-indigo-600 font-black">{info.count}</span> records from parts {info.partNos.join(', ')}, downloaded {new Date(info.downloadedAt).toLocaleString()}.</>
+                : 'Download the parts this desk covers to keep search, slips and edits working without a connection.'}
+            </p>
+          </div>
+          <div className="flex items-end gap-3 w-full lg:w-auto">
+            <label className="block flex-1 lg:w-64">
+              <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1 ml-1">Part Numbers</span>
+              <input className={input} placeholder="e.g. 141, 142" value={partNos} onChange={e => setPartNos(e.target.value)} disabled={offline} />
+            </label>
+            <button
+              onClick={handleDownload}
+              disabled={offline || isBusy || entries.length > 0}
+              title={entries.length > 0 ? 'Sync or discard the queued changes first' : undefined}
+              className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs hover:bg-indigo-700 transition-all flex items-center gap-2 disabled:opacity-30"
+            >
+              <i className={`fa-solid ${isBusy ? 'fa-spinner animate-spin' : 'fa-download'}`}></i> {info ? 'Refresh' : 'Download'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="bg-white rounded-[40px] p-10 shadow-sm border border-amber-100 space-y-4">
+          <div>
+            <h3 className="text-xl font-black text-slate-900 tracking-tight">Conflicts ({conflicts.length})</h3>
+            <p className="text-sm text-slate-500 font-medium">These records changed in the vault after they were edited here. Later changes to the same EPIC wait until each is settled.</p>
+          </div>
+          {conflicts.map(entry => (
+            <ConflictCard key={entry.id} entry={entry} disabled={offline || isBusy} onResolve={keep => handleResolve(entry, keep)} />
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-[40px] shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-8 flex flex-wrap justify-between items-center gap-4 border-b border-slate-50">
+          <div>
+            <h3 className="text-xl font-black text-slate-900 tracking-tight">Outbox ({queued.length})</h3>
+            <p className="text-sm text-slate-500 font-medium">Changes made offline, replayed against the vault in the order they were made.</p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={handleSync}
+              disabled={offline || isBusy || queued.length === 0}
+              className="bg-slate-900 text-white px-6 py-3 rounded-2xl font-black text-xs hover:bg-slate-800 transition-all flex items-center gap-2 disabled:opacity-30"
+            >
+              <i className="fa-solid fa-rotate"></i> Sync Now
+            </button>
+            <button
+              onClick={handleDiscard}
+              disabled={isBusy || entries.length === 0}
+              className="text-red-500 hover:text-white font-black text-xs px-6 py-3 rounded-2xl border border-red-50 hover:bg-red-500 hover:border-red-500 transition-all disabled:opacity-30"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+        {queued.length === 0 ? (
+          <div className="text-center py-16">
+            <i className="fa-solid fa-inbox text-4xl text-slate-100 mb-4"></i>
+            <p className="text-slate-400 font-bold">Nothing waiting to sync.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-slate-50">
+            {queued.map(entry => (
+              <div key={entry.id} className="px-8 py-4 flex items-center gap-6">
+                <span className="font-black text-slate-900 font-mono text-sm w-32">{entry.epicNo}</span>
+                <span className="flex-1 text-xs font-bold text-slate-600 truncate">{describeChange(entry)}</span>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{entry.actor}</span>
+                <span className="text-xs font-bold text-slate-500">{new Date(entry.queuedAt).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ConflictCard: React.FC<{ entry: OutboxEntry; disabled: boolean; onResolve: (keep: 'KEEP_MINE' | 'KEEP_VAULT') => void }> = ({ entry, disabled, onResolve }) => {
+  const vault: VoterRecord | null = entry.conflict!.vault;
+  const diffs = entry.kind === 'SAVE' && vault ? diffVoters(vault, entry.record) : [];
+
+  return (
+    <div className="p-6 rounded-3xl bg-amber-50/50 border border-amber-100">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+        <div>
+          <div className="font-black text-slate-900 font-mono text-sm">{entry.epicNo}</div>
+          <div className="text-xs font-bold text-slate-500">
+            Here: {describeChange(entry)} by {entry.actor}, {new Date(entry.queuedAt).toLocaleString()}
+          </div>
+          <div className="text-xs font-bold text-amber-700">
+            Vault: {vault ? `updated ${new Date(vault.lastUpdated).toLocaleString()}` : 'record no longer exists'}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onResolve('KEEP_MINE')}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-indigo-600 text-white disabled:opacity-40"
+          >
+            Keep Mine
+          </button>
+          <button
+            onClick={() => onResolve('KEEP_VAULT')}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-white text-slate-600 border border-slate-200 disabled:opacity-40"
+          >
+            Keep Vault
+          </button>
+        </div>
+      </div>
+      {diffs.length > 0 && (
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="py-1 pr-4">Field</th>
+              <th className="py-1 pr-4">Vault</th>
+              <th className="py-1">Here</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diffs.map(d => (
+              <tr key={d.field}>
+                <td className="py-1 pr-4 font-black text-slate-500">{d.label}</td>
+                <td className="py-1 pr-4 font-bold text-slate-600">{d.before || '—'}</td>
+                <td className="py-1 font-bold text-indigo-700">{d.after || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
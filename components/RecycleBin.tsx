@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { DeletedVoter, PageCursor, VoterApi } from '../api';
+import { RETENTION_DAYS, daysUntilPurge } from '../recycleService';
+
+interface RecycleBinProps {
+  onUpdate?: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+export const RecycleBin: React.FC<RecycleBinProps> = ({ onUpdate }) => {
+  const [rows, setRows] = useState<DeletedVoter[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    load(null);
+  }, []);
+
+  const load = async (after: PageCursor | null) => {
+    setIsLoading(true);
+    try {
+      const [page, count] = await Promise.all([VoterApi.getDeleted(PAGE_SIZE, after), VoterApi.countDeleted()]);
+      setRows(prev => (after ? [...prev, ...page.rows] : page.rows));
+      setNextCursor(page.nextCursor);
+      setTotal(count);
+      if (!after) setSelected(new Set());
+    } catch (e: any) {
+      alert(`Could not load the recycle bin: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const run = async (work: () => Promise<number>, describe: (n: number) => string) => {
+    setIsBusy(true);
+    try {
+      const count = await work();
+      alert(describe(count));
+      await load(null);
+      if (onUpdate) onUpdate();
+    } catch (e: any) {
+      alert(`Recycle bin action failed: ${e.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = (epicNos: string[]) =>
+    run(() => VoterApi.restoreVoters({ epicNos }, 'RECYCLE_BIN'), n => `${n} record${n === 1 ? '' : 's'} restored.`);
+
+  const handleRestoreDeletion = (row: DeletedVoter) => {
+    const siblings = rows.filter(r => r.deletionId === row.deletionId).length;
+    if (!confirm(`Restore every record removed together with ${row.epicNo} ("${row.deletedReason}")?${siblings > 1 ? ` ${siblings} are on this page.` : ''}`)) return;
+    run(() => VoterApi.restoreVoters({ deletionId: row.deletionId }, 'RECYCLE_BIN'), n => `${n} record${n === 1 ? '' : 's'} restored.`);
+  };
+
+  const handlePurge = () => {
+    if (!confirm(`Permanently remove records deleted more than ${RETENTION_DAYS} days ago? This cannot be undone.`)) return;
+    run(() => VoterApi.purgeExpired('RECYCLE_BIN'), n => `${n} expired record${n === 1 ? '' : 's'} purged.`);
+  };
+
+  const toggle = (epicNo: string) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(epicNo)) next.delete(epicNo);
+      else next.add(epicNo);
+      return next;
+    });
+
+  const allSelected = rows.length > 0 && rows.every(r => selected.has(r.epicNo));
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
+      <div className="bg-white rounded-[40px] p-10 shadow-sm border border-slate-100 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-6">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">Recycle Bin</h2>
+          <p className="text-slate-500 font-medium">
+            <span className="text-indigo-600 font-black">{total}</span> removed records. Each stays restorable for {RETENTION_DAYS} days after deletion.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => handleRestore([...selected])}
+            disabled={selected.size === 0 || isBusy}
+            className="bg-slate-900 text-white px-6 py-3 rounded-2xl font-black text-xs hover:bg-slate-800 transition-all flex items-center gap-2 disabled:opacity-30"
+          >
+            <i className="fa-solid fa-rotate-left"></i> Restore Selected ({selected.size})
+          </button>
+          <button
+            onClick={handlePurge}
+            disabled={isBusy}
+            className="text-red-500 hover:text-white font-black text-xs px-6 py-3 rounded-2xl border border-red-50 hover:bg-red-500 hover:border-red-500 transition-all disabled:opacity-30"
+          >
+            Purge Expired
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[40px] shadow-sm border border-slate-100 overflow-hidden">
+        {rows.length === 0 && !isLoading ? (
+          <div className="text-center py-24">
+            <i className="fa-solid fa-trash-can-arrow-up text-4xl text-slate-100 mb-4"></i>
+            <p className="text-slate-400 font-bold">The recycle bin is empty.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] border-b border-slate-50">
+                  <th className="pl-10 py-6 w-10">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map(r => r.epicNo)))}
+                    />
+                  </th>
+                  <th className="px-6 py-6">Voter</th>
+                  <th className="px-6 py-6">Reason</th>
+                  <th className="px-6 py-6">Removed</th>
+                  <th className="px-6 py-6">Purge In</th>
+                  <th className="px-10 py-6 text-right">Ops</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(row => (
+                  <tr key={row.epicNo} className="hover:bg-slate-50/30 transition-colors">
+                    <td className="pl-10 py-5">
+                      <input type="checkbox" checked={selected.has(row.epicNo)} onChange={() => toggle(row.epicNo)} />
+                    </td>
+                    <td className="px-6 py-5">
+                      <div className="font-black text-slate-900 font-mono text-sm">{row.epicNo}</div>
+                      <div className="text-xs font-bold text-slate-500">{row.name}</div>
+                    </td>
+                    <td className="px-6 py-5 text-xs font-bold text-slate-600 max-w-[240px] truncate" title={row.deletedReason}>{row.deletedReason}</td>
+                    <td className="px-6 py-5">
+                      <div className="text-xs font-bold text-slate-600">{new Date(row.deletedAt).toLocaleString()}</div>
+                      <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{row.deletedBy}</div>
+                    </td>
+                    <td className="px-6 py-5 text-xs font-black text-slate-500">{daysUntilPurge(row.deletedAt)} days</td>
+                    <td className="px-10 py-5 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => handleRestore([row.epicNo])}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 disabled:opacity-40"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handleRestoreDeletion(row)}
+                        disabled={isBusy}
+                        title="Restore every record removed in the same action, e.g. a table wipe"
+                        className="ml-2 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-slate-100 text-slate-600 disabled:opacity-40"
+                      >
+                        Restore Batch
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {nextCursor && (
+          <div className="p-6 text-center border-t border-slate-50">
+            <button
+              onClick={() => load(nextCursor)}
+              disabled={isLoading}
+              className="px-6 py-3 rounded-xl border border-slate-200 font-black text-xs text-slate-600 hover:bg-slate-50 transition-all disabled:opacity-30"
+            >
+              Load More ({rows.length} of {total})
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import { VoterRecord } from '../types';
+import { StagedDecision, StagedRecord, StagedStatus, canAccept } from '../stagingService';
+import { describeSource } from '../validationService';
+import { ConfidenceBadge } from './ConfidenceBadge';
+import { BulkWriteResult } from '../bulkWriteService';
+
+interface StagingQueueProps {
+  items: StagedRecord[];
+  isCommitting: boolean;
+  commitProgress?: { done: number; total: number } | null;
+  /** Outcome of the most recent commit */
+  lastCommit?: BulkWriteResult | null;
+  onDecide: (ids: string[], decision: StagedDecision) => void;
+  onEdit: (id: string, record: VoterRecord) => Promise<void>;
+  onCommit: () => void;
+  onDownloadReport: () => void;
+}
+
+type StagingFilter = 'ALL' | StagedStatus | 'PENDING' | 'ERRORS' | 'FAILED';
+
+const STATUS_STYLES: Record<StagedStatus, string> = {
+  NEW: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  MODIFIED: 'bg-amber-50 text-amber-600 border-amber-100',
+  UNCHANGED: 'bg-slate-50 text-slate-400 border-slate-100'
+};
+
+const DECISION_STYLES: Record<StagedDecision, string> = {
+  PENDING: 'text-slate-400',
+  ACCEPTED: 'text-emerald-600',
+  REJECTED: 'text-red-500'
+};
+
+export const StagingQueue: React.FC<StagingQueueProps> = ({ items, isCommitting, commitProgress, lastCommit, onDecide, onEdit, onCommit, onDownloadReport }) => {
+  const [filter, setFilter] = useState<StagingFilter>('ALL');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const visible = items.filter(item =>
+    filter === 'ALL' ? true
+      : filter === 'PENDING' ? item.decision === 'PENDING'
+      : filter === 'ERRORS' ? !canAccept(item)
+      : filter === 'FAILED' ? !!item.writeError
+      : item.status === filter
+  );
+  const acceptedCount = items.filter(i => i.decision === 'ACCEPTED').length;
+  const counts = {
+    NEW: items.filter(i => i.status === 'NEW').length,
+    MODIFIED: items.filter(i => i.status === 'MODIFIED').length,
+    UNCHANGED: items.filter(i => i.status === 'UNCHANGED').length,
+    PENDING: items.filter(i => i.decision === 'PENDING').length,
+    ERRORS: items.filter(i => !canAccept(i)).length,
+    FAILED: items.filter(i => i.writeError).length
+  };
+  const issueCount = items.reduce((n, i) => n + i.issues.length, 0);
+  const allVisibleSelected = visible.length > 0 && visible.every(i => selected.has(i.id));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map(i => i.id)));
+  };
+
+  const decideSelected = (decision: StagedDecision) => {
+    onDecide([...selected], decision);
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="bg-white border border-slate-100 rounded-[32px] overflow-hidden shadow-sm">
+      <div className="px-8 py-5 bg-slate-50/50 border-b border-slate-100 flex flex-wrap justify-between items-center gap-4">
+        <div className="flex flex-wrap gap-1">
+          {(['ALL', 'NEW', 'MODIFIED', 'UNCHANGED', 'PENDING', 'ERRORS', 'FAILED'] as StagingFilter[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${
+                filter === f ? 'bg-slate-900 text-white' : 'text-slate-400 hover:bg-white'
+              }`}
+            >
+              {f === 'ALL' ? `All ${items.length}` : `${f} ${counts[f]}`}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            disabled={issueCount === 0}
+            onClick={onDownloadReport}
+            title="Download every validation issue as CSV"
+            className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-amber-50 text-amber-600 disabled:opacity-40 flex items-center gap-1"
+          >
+            <i className="fa-solid fa-file-csv"></i>
+            Error Report
+          </button>
+          <button
+            disabled={selected.size === 0}
+            onClick={() => decideSelected('ACCEPTED')}
+            className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-emerald-50 text-emerald-600 disabled:opacity-40"
+          >
+            Accept {selected.size || ''}
+          </button>
+          <button
+            disabled={selected.size === 0}
+            onClick={() => decideSelected('REJECTED')}
+            className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-red-50 text-red-500 disabled:opacity-40"
+          >
+            Reject {selected.size || ''}
+          </button>
+          <button
+            disabled={acceptedCount === 0 || isCommitting}
+            onClick={onCommit}
+            className="px-4 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-indigo-600 text-white disabled:opacity-40 flex items-center gap-1"
+          >
+            <i className={`fa-solid ${isCommitting ? 'fa-circle-notch animate-spin' : 'fa-cloud-arrow-up'}`}></i>
+            {commitProgress ? `Committing ${commitProgress.done}/${commitProgress.total}` : `Commit ${acceptedCount}`}
+          </button>
+        </div>
+      </div>
+
+      {lastCommit && (
+        <div className={`px-8 py-3 border-b text-[10px] font-black uppercase tracking-widest flex flex-wrap gap-4 ${
+          lastCommit.failed.length > 0 ? 'bg-red-50/50 border-red-100' : 'bg-emerald-50/50 border-emerald-100'
+        }`}>
+          <span className="text-slate-400">Last commit</span>
+          <span className="text-emerald-600">{lastCommit.inserted.length} inserted</span>
+          <span className="text-amber-600">{lastCommit.updated.length} updated</span>
+          <span className={lastCommit.failed.length > 0 ? 'text-red-500' : 'text-slate-400'}>
+            {lastCommit.failed.length} failed{lastCommit.failed.length > 0 ? ' — still staged, see Failed' : ''}
+          </span>
+          {lastCommit.trailError && (
+            <span className="text-red-500" title={lastCommit.trailError}>Written, but audit/version history incomplete</span>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-[520px] overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-white text-slate-300 uppercase font-black text-[9px] tracking-widest border-b border-slate-50">
+              <th className="px-6 py-4">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAll} className="accent-indigo-600" />
+              </th>
+              <th className="px-4 py-4">State</th>
+              <th className="px-4 py-4">EPIC</th>
+              <th className="px-4 py-4">Full Name</th>
+              <th className="px-4 py-4">Decision</th>
+              <th className="px-4 py-4 text-right">Ops</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {visible.length > 0 ? visible.map(item => (
+              <React.Fragment key={item.id}>
+                <tr className="hover:bg-slate-50/20 transition-colors">
+                  <td className="px-6 py-4">
+                    <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} className="accent-indigo-600" />
+                  </td>
+                  <td className="px-4 py-4">
+                    <span className={`px-2 py-0.5 rounded-full border text-[8px] font-black uppercase tracking-widest ${STATUS_STYLES[item.status]}`}>
+                      {item.status}{item.status === 'MODIFIED' ? ` · ${item.diffs.length}` : ''}
+                    </span>
+                    {item.issues.length > 0 && (
+                      <button
+                        onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                        className={`ml-1 px-2 py-0.5 rounded-full border text-[8px] font-black uppercase tracking-widest ${
+                          canAccept(item) ? 'bg-amber-50 text-amber-600 border-amber-100' : 'bg-red-50 text-red-500 border-red-100'
+                        }`}
+                      >
+                        <i className="fa-solid fa-triangle-exclamation mr-1"></i>{item.issues.length}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 font-black text-slate-900 font-mono text-xs">{item.record.epicNo || '—'}</td>
+                  <td className="px-4 py-4">
+                    <div className="font-black text-slate-800 text-sm">{item.record.name}</div>
+                    <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{item.source.fileName} • {describeSource(item.source)}</div>
+                    <div className="mt-1"><ConfidenceBadge provenance={item.record.provenance} /></div>
+                    {item.writeError && (
+                      <div className="mt-1 text-[10px] font-bold text-red-500">
+                        <i className="fa-solid fa-cloud-arrow-up mr-1"></i>Not written: {item.writeError}
+                      </div>
+                    )}
+                  </td>
+                  <td className={`px-4 py-4 text-[9px] font-black uppercase tracking-widest ${DECISION_STYLES[item.decision]}`}>{item.decision}</td>
+                  <td className="px-4 py-4">
+                    <div className="flex justify-end gap-1">
+                      <IconButton icon="fa-code-compare" title="Show diff" onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} />
+                      <IconButton icon="fa-pen" title="Edit" onClick={() => setEditingId(editingId === item.id ? null : item.id)} />
+                      <IconButton
+                        icon="fa-check"
+                        title={canAccept(item) ? 'Accept' : 'Fix validation errors first'}
+                        onClick={() => onDecide([item.id], 'ACCEPTED')}
+                        disabled={!canAccept(item)}
+                        tone="emerald"
+                      />
+                      <IconButton icon="fa-xmark" title="Reject" onClick={() => onDecide([item.id], 'REJECTED')} tone="red" />
+                    </div>
+                  </td>
+                </tr>
+                {expandedId === item.id && (
+                  <tr>
+                    <td colSpan={6} className="px-8 py-4 bg-slate-50/50">
+                      <IssueList item={item} />
+                      <DiffTable item={item} />
+                    </td>
+                  </tr>
+                )}
+                {editingId === item.id && (
+                  <tr>
+                    <td colSpan={6} className="px-8 py-4 bg-indigo-50/30">
+                      <StagedRecordEditor
+                        record={item.record}
+                        onCancel={() => setEditingId(null)}
+                        onSave={async (record) => {
+                          await onEdit(item.id, record);
+                          setEditingId(null);
+                        }}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            )) : (
+              <tr>
+                <td colSpan={6} className="px-8 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">
+                  No staged records in this view.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const IconButton: React.FC<{ icon: string; title: string; onClick: () => void; tone?: 'emerald' | 'red'; disabled?: boolean }> = ({ icon, title, onClick, tone, disabled }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    disabled={disabled}
+    className={`w-8 h-8 rounded-lg flex items-center justify-center text-slate-300 transition-all disabled:opacity-30 disabled:pointer-events-none ${
+      tone === 'emerald' ? 'hover:text-emerald-600 hover:bg-emerald-50' : tone === 'red' ? 'hover:text-red-500 hover:bg-red-50' : 'hover:text-indigo-600 hover:bg-indigo-50'
+    }`}
+  >
+    <i className={`fa-solid ${icon} text-xs`}></i>
+  </button>
+);
+
+const IssueList: React.FC<{ item: StagedRecord }> = ({ item }) => {
+  if (item.issues.length === 0) return null;
+  return (
+    <ul className="mb-4 space-y-1">
+      {item.issues.map((issue, idx) => (
+        <li key={`${issue.code}-${idx}`} className="flex items-center gap-2 text-xs">
+          <span className={`text-[8px] font-black uppercase tracking-widest ${issue.severity === 'ERROR' ? 'text-red-500' : 'text-amber-600'}`}>
+            {issue.severity}
+          </span>
+          <span className="font-bold text-slate-600">{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const DiffTable: React.FC<{ item: StagedRecord }> = ({ item }) => {
+  if (item.status === 'NEW') {
+    return <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Not in vault yet — will be inserted.</p>;
+  }
+  if (item.diffs.length === 0) {
+    return <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Identical to the vault copy.</p>;
+  }
+  return (
+    <table className="w-full text-left text-xs">
+      <thead>
+        <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+          <th className="py-2">Field</th>
+          <th className="py-2">Vault</th>
+          <th className="py-2">Extracted</th>
+        </tr>
+      </thead>
+      <tbody>
+        {item.diffs.map(d => (
+          <tr key={d.field}>
+            <td className="py-1 font-black text-slate-500">{d.label}</td>
+            <td className="py-1 font-medium text-red-500 line-through">{d.before || '—'}</td>
+            <td className="py-1 font-bold text-emerald-600">{d.after || '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const StagedRecordEditor: React.FC<{ record: VoterRecord; onSave: (record: VoterRecord) => Promise<void>; onCancel: () => void }> = ({ record, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<VoterRecord>(record);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const set = <K extends keyof VoterRecord>(key: K, value: VoterRecord[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, lastUpdated: new Date().toISOString() });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const input = 'bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 w-full';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <input className={input} value={draft.epicNo} onChange={e => set('epicNo', e.target.value.toUpperCase())} placeholder="EPIC" />
+        <input className={input} value={draft.name} onChange={e => set('name', e.target.value)} placeholder="Name" />
+        <input className={input} value={draft.parentSpouseName} onChange={e => set('parentSpouseName', e.target.value)} placeholder="Parent/Spouse" />
+        <input className={input} type="number" value={draft.age} onChange={e => set('age', parseInt(e.target.value) || 0)} placeholder="Age" />
+        <select className={input} value={draft.gender} onChange={e => set('gender', e.target.value as VoterRecord['gender'])}>
+          <option value="M">M</option>
+          <option value="F">F</option>
+          <option value="O">O</option>
+        </select>
+        <input className={input} value={draft.serialNo} onChange={e => set('serialNo', e.target.value)} placeholder="Serial No" />
+        <input className={input} value={draft.partNo} onChange={e => set('partNo', e.target.value)} placeholder="Part No" />
+        <input className={input} value={draft.partName} onChange={e => set('partName', e.target.value)} placeholder="Part Name" />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-[10px] font-black text-slate-500 hover:bg-white">Cancel</button>
+        <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 rounded-lg text-[10px] font-black bg-indigo-600 text-white disabled:opacity-50">
+          {isSaving ? 'Re-staging...' : 'Save & Re-stage'}
+        </button>
+      </div>
+    </div>
+  );
+};
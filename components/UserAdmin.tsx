@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { AuthApi } from '../api';
+import { AppUser, MIN_PASSWORD_LENGTH, NewUser, ROLE_HINTS, ROLE_LABELS, USER_ROLES, UserPatch, UserRole } from '../authService';
+
+interface UserAdminProps {
+  currentUser: AppUser;
+  /** Called when the signed-in admin edits their own account */
+  onCurrentUserChange?: (user: AppUser) => void;
+}
+
+const EMPTY_USER: NewUser = { login: '', name: '', role: 'HELPDESK', password: '' };
+
+export const UserAdmin: React.FC<UserAdminProps> = ({ currentUser, onCurrentUserChange }) => {
+  const [users, setUsers] = useState<AppUser[]>([]);
+  // The account being added, or null while the form is closed
+  const [draft, setDraft] = useState<NewUser | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const byEmail = AuthApi.getLoginKind() === 'EMAIL';
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setUsers(await AuthApi.listUsers());
+    } catch (e: any) {
+      alert(`Could not load the accounts: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!draft) return;
+    try {
+      await AuthApi.createUser(draft);
+      setDraft(null);
+      await load();
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleUpdate = async (user: AppUser, patch: UserPatch) => {
+    try {
+      await AuthApi.updateUser(user.id, patch);
+      if (user.id === currentUser.id && onCurrentUserChange) onCurrentUserChange({ ...currentUser, ...patch });
+      await load();
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleResetPassword = async (user: AppUser) => {
+    const password = prompt(`New password for ${user.name} (at least ${MIN_PASSWORD_LENGTH} characters). Their open sessions will be signed out.`);
+    if (!password) return;
+    try {
+      await AuthApi.setPassword(user.id, password);
+      alert(`Password changed for ${user.name}.`);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const input = 'px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300';
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
+      <div className="bg-white rounded-[40px] p-10 shadow-sm border border-slate-100 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-6">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">Users & Roles</h2>
+          <p className="text-slate-500 font-medium">Who can sign in and what each may do. Changes apply from their next action; disabled accounts are signed out.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {isLoading && <i className="fa-solid fa-circle-notch animate-spin text-indigo-600"></i>}
+          <button onClick={() => setDraft(EMPTY_USER)} className="bg-slate-900 text-white px-6 py-3 rounded-2xl font-black text-xs hover:bg-slate-800 transition-all flex items-center gap-2">
+            <i className="fa-solid fa-user-plus"></i> Add User
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-[40px] shadow-sm border border-slate-100 p-10 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <input className={`${input} flex-1 min-w-[160px]`} value={draft.name} placeholder="Full name" onChange={e => setDraft({ ...draft, name: e.target.value })} />
+            <input className={`${input} flex-1 min-w-[160px]`} type={byEmail ? 'email' : 'text'} value={draft.login} placeholder={byEmail ? 'Email' : 'Username'} onChange={e => setDraft({ ...draft, login: e.target.value })} />
+            <input className={`${input} flex-1 min-w-[160px]`} type="password" autoComplete="new-password" value={draft.password} placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`} onChange={e => setDraft({ ...draft, password: e.target.value })} />
+            <select className={input} value={draft.role} onChange={e => setDraft({ ...draft, role: e.target.value as UserRole })}>
+              {USER_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            <button onClick={handleCreate} className="px-4 py-2 rounded-xl text-[10px] font-black bg-indigo-600 text-white">Create</button>
+            <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-[10px] font-black text-slate-500 hover:bg-slate-50">Cancel</button>
+          </div>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{ROLE_LABELS[draft.role]}: {ROLE_HINTS[draft.role]}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-[40px] shadow-sm border border-slate-100 overflow-hidden">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50/50">
+              <th className="px-10 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">User</th>
+              <th className="px-10 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">Role</th>
+              <th className="px-10 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">Status</th>
+              <th className="px-10 py-5"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {users.map(user => (
+              <tr key={user.id} className={user.disabled ? 'opacity-50' : ''}>
+                <td className="px-10 py-5">
+                  <div className="font-black text-slate-800 text-sm">
+                    {user.name}
+                    {user.id === currentUser.id && <span className="ml-2 text-[9px] text-indigo-600 uppercase tracking-widest">You</span>}
+                  </div>
+                  <div className="text-xs font-bold text-slate-400 font-mono">{user.login}</div>
+                </td>
+                <td className="px-10 py-5">
+                  <select
+                    className={input}
+                    value={user.role}
+                    title={ROLE_HINTS[user.role]}
+                    onChange={e => handleUpdate(user, { role: e.target.value as UserRole })}
+                  >
+                    {USER_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                </td>
+                <td className="px-10 py-5">
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
+                    user.disabled ? 'bg-slate-100 text-slate-500' : 'bg-emerald-50 text-emerald-600'
+                  }`}>
+                    {user.disabled ? 'Disabled' : 'Active'}
+                  </span>
+                </td>
+                <td className="px-10 py-5 text-right whitespace-nowrap">
+                  <button onClick={() => handleResetPassword(user)} title="Set password" className="inline-flex w-9 h-9 rounded-xl items-center justify-center text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-all">
+                    <i className="fa-solid fa-key text-xs"></i>
+                  </button>
+                  <button
+                    onClick={() => handleUpdate(user, { disabled: !user.disabled })}
+                    title={user.disabled ? 'Enable' : 'Disable'}
+                    className="inline-flex w-9 h-9 rounded-xl items-center justify-center text-slate-400 hover:text-red-500 hover:bg-red-50 transition-all"
+                  >
+                    <i className={`fa-solid ${user.disabled ? 'fa-user-check' : 'fa-user-slash'} text-xs`}></i>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {users.length === 0 && !isLoading && (
+          <p className="text-center py-16 text-slate-400 font-bold">No accounts to show.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { VoterRecord } from '../types';
+import { VoterApi } from '../api';
+import { VoterVersion, diffVersions } from '../versionService';
+import { can } from '../authService';
+
+interface VersionHistoryProps {
+  epicNo: string;
+  onRollback?: (voter: VoterRecord) => void;
+}
+
+const display = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ epicNo, onRollback }) => {
+  const [versions, setVersions] = useState<VoterVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setVersions(await VoterApi.getVersions(epicNo));
+    } catch (e: any) {
+      alert(`Could not load version history: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [epicNo]);
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(`Roll ${epicNo} back to version ${version}? The current record is kept as a version too.`)) return;
+    setRollingBack(version);
+    try {
+      const restored = await VoterApi.rollbackVoter(epicNo, version);
+      await load();
+      if (onRollback) onRollback(restored);
+    } catch (e: any) {
+      alert(`Rollback failed: ${e.message}`);
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (isLoading && versions.length === 0) {
+    return (
+      <div className="py-16 text-center">
+        <i className="fa-solid fa-circle-notch animate-spin text-indigo-600"></i>
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="py-16 text-center">
+        <i className="fa-solid fa-code-branch text-3xl text-slate-100 mb-3"></i>
+        <p className="text-slate-400 font-bold text-xs">No earlier versions. History starts with this record's next change.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {versions.map((version, index) => {
+        // Newest first, so the version before this one is the next in the list
+        const changes = diffVersions(versions[index + 1], version);
+        const isCurrent = index === 0;
+        return (
+          <div key={version.id} className={`p-3 rounded-xl border text-[10px] ${isCurrent ? 'border-indigo-100 bg-indigo-50/40' : 'border-slate-100 bg-slate-50'}`}>
+            <div className="flex justify-between items-center gap-2 mb-1">
+              <p className="font-black text-slate-900 uppercase tracking-widest">
+                v{version.version}
+                {isCurrent && <span className="ml-2 text-indigo-600">Current</span>}
+              </p>
+              {!isCurrent && can('EDIT') && (
+                <button
+                  onClick={() => handleRollback(version.version)}
+                  disabled={rollingBack !== null}
+                  className="px-2 py-1 rounded-lg font-black uppercase tracking-widest bg-white border border-slate-200 text-slate-600 hover:border-indigo-600 hover:text-indigo-600 transition-all disabled:opacity-40"
+                >
+                  <i className={`fa-solid ${rollingBack === version.version ? 'fa-spinner animate-spin' : 'fa-rotate-left'} mr-1`}></i>
+                  Roll Back
+                </button>
+              )}
+            </div>
+            <p className="text-slate-500 font-bold truncate" title={version.source}>
+              {version.source} • {version.actor} • {new Date(version.createdAt).toLocaleString()}
+            </p>
+            {index < versions.length - 1 && (
+              changes.length > 0 ? (
+                <table className="w-full text-left mt-2">
+                  <tbody className="divide-y divide-slate-100">
+                    {changes.map(change => (
+                      <tr key={change.field}>
+                        <td className="py-1 pr-2 font-black text-slate-500 align-top">{change.field}</td>
+                        <td className="py-1 pr-2 font-mono text-red-500 break-all align-top">{display(change.before)}</td>
+                        <td className="py-1 font-mono text-emerald-600 break-all align-top">{display(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="mt-1 text-slate-400 italic">No field changes.</p>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
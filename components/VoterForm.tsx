@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { RelationType, VoterRecord } from '../types';
+import { VoterApi } from '../api';
+import { ValidationIssue, validateVoter } from '../validationService';
+
+interface VoterFormProps {
+  /** Record to edit; a blank form adds a new voter */
+  voter?: VoterRecord;
+  /** Audit source of the save, e.g. "VAULT" */
+  source: string;
+  onSaved: (voter: VoterRecord) => void;
+  onCancel: () => void;
+  /** Opens the Regions screen, where part names and stations are corrected */
+  onOpenGeography?: () => void;
+}
+
+type TextField = 'epicNo' | 'name' | 'parentSpouseName' | 'houseNo' | 'serialNo' | 'partNo' | 'partName'
+  | 'assemblyConstituency' | 'parliamentaryConstituency' | 'district' | 'state';
+
+const BLANK_VOTER: VoterRecord = {
+  epicNo: '',
+  name: '',
+  age: 0,
+  gender: 'M',
+  parentSpouseName: '',
+  assemblyConstituency: '',
+  parliamentaryConstituency: '',
+  district: '',
+  state: '',
+  partNo: '',
+  partName: '',
+  serialNo: '',
+  pollingStation: { name: '', address: '' },
+  lastUpdated: ''
+};
+
+const RELATIONS: { value: RelationType; label: string }[] = [
+  { value: 'FATHER', label: 'Father' },
+  { value: 'HUSBAND', label: 'Husband' },
+  { value: 'MOTHER', label: 'Mother' },
+  { value: 'OTHER', label: 'Other' }
+];
+
+const ROLL_FIELDS: { field: TextField; label: string }[] = [
+  { field: 'partNo', label: 'Part No' },
+  { field: 'serialNo', label: 'Serial No' },
+  { field: 'partName', label: 'Part Name' },
+  { field: 'assemblyConstituency', label: 'Assembly Constituency' },
+  { field: 'parliamentaryConstituency', label: 'Parliamentary Constituency' },
+  { field: 'district', label: 'District' },
+  { field: 'state', label: 'State' }
+];
+
+/** Trims every text field, as ingestion does, so validation sees what will be stored. */
+const tidy = (v: VoterRecord): VoterRecord => ({
+  ...v,
+  epicNo: v.epicNo.trim().toUpperCase(),
+  name: v.name.trim(),
+  parentSpouseName: v.parentSpouseName.trim(),
+  houseNo: v.houseNo?.trim() || undefined,
+  serialNo: v.serialNo.trim(),
+  partNo: v.partNo.trim(),
+  partName: v.partName.trim(),
+  assemblyConstituency: v.assemblyConstituency.trim(),
+  parliamentaryConstituency: v.parliamentaryConstituency.trim(),
+  district: v.district.trim(),
+  state: v.state.trim(),
+  pollingStation: { name: v.pollingStation.name.trim(), address: v.pollingStation.address.trim() }
+});
+
+export const VoterForm: React.FC<VoterFormProps> = ({ voter, source, onSaved, onCancel, onOpenGeography }) => {
+  const isNew = !voter;
+  const [draft, setDraft] = useState<VoterRecord>(() => ({
+    ...BLANK_VOTER,
+    ...voter,
+    pollingStation: { ...BLANK_VOTER.pollingStation, ...voter?.pollingStation }
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // A blank form would otherwise open as a wall of "missing" errors
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+
+  const issues = validateVoter(tidy(draft));
+  const errorCount = issues.filter(i => i.severity === 'ERROR').length;
+  const issuesFor = (field: string) => (isNew && !touched.has(field) ? [] : issues.filter(i => i.field === field));
+
+  const set = <K extends keyof VoterRecord>(key: K, value: VoterRecord[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setTouched(prev => new Set(prev).add(key));
+  };
+  const setStation = (key: 'name' | 'address', value: string) =>
+    setDraft(prev => ({ ...prev, pollingStation: { ...prev.pollingStation, [key]: value } }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      onSaved(await VoterApi.saveVoter(tidy(draft), isNew ? 'CREATE' : 'EDIT', source));
+    } catch (e: any) {
+      setSaveError(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const input = 'block w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300 disabled:opacity-50';
+
+  // An existing voter's part supplies these; the vault would not store a different value
+  const partLocked = !isNew;
+
+  const textField = ({ field, label }: { field: TextField; label: string }) => (
+    <Field key={field} label={label} issues={issuesFor(field)}>
+      <input className={input} value={draft[field] || ''} disabled={partLocked && field === 'partName'} onChange={e => set(field, e.target.value)} />
+    </Field>
+  );
+
+  // Portalled so sticky parents (the search slip column) cannot clip or stack over it
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-start justify-center p-6 overflow-y-auto no-print" onClick={onCancel}>
+      <div className="bg-white rounded-[40px] p-10 shadow-2xl border border-slate-100 w-full max-w-3xl my-10 animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h2 className="text-3xl font-black text-slate-900 tracking-tight mb-2">{isNew ? 'Add Voter' : 'Edit Voter'}</h2>
+            <p className="text-slate-500 font-medium">
+              {isNew ? 'For voters from supplementary lists. Checked with the same rules as ingestion.' : 'Corrections are checked with the same rules as ingestion and kept in the version history.'}
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+
+        <div className="space-y-8">
+          <Section title="Voter">
+            <Field label="EPIC No" issues={issuesFor('epicNo')}>
+              <input className={`${input} font-mono`} value={draft.epicNo} disabled={!isNew} onChange={e => set('epicNo', e.target.value.toUpperCase())} />
+            </Field>
+            {textField({ field: 'name', label: 'Name' })}
+            {textField({ field: 'parentSpouseName', label: 'Parent/Spouse' })}
+            <Field label="Relation" issues={issuesFor('relationType')}>
+              <select className={input} value={draft.relationType || ''} onChange={e => set('relationType', (e.target.value || undefined) as RelationType | undefined)}>
+                <option value="">Not stated</option>
+                {RELATIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+              </select>
+            </Field>
+            <Field label="Age" issues={issuesFor('age')}>
+              <input className={input} type="number" value={draft.age || ''} onChange={e => set('age', parseInt(e.target.value) || 0)} />
+            </Field>
+            <Field label="Gender" issues={issuesFor('gender')}>
+              <select className={input} value={draft.gender} onChange={e => set('gender', e.target.value as VoterRecord['gender'])}>
+                <option value="M">Male</option>
+                <option value="F">Female</option>
+                <option value="O">Other</option>
+              </select>
+            </Field>
+            {textField({ field: 'houseNo', label: 'House No' })}
+          </Section>
+
+          <Section title="Electoral Roll">
+            {ROLL_FIELDS.map(textField)}
+          </Section>
+
+          <Section title="Polling Station">
+            <Field label="Name" issues={[]}>
+              <input className={input} value={draft.pollingStation.name} disabled={partLocked} onChange={e => setStation('name', e.target.value)} />
+            </Field>
+            <Field label="Address" issues={[]}>
+              <input className={input} value={draft.pollingStation.address} disabled={partLocked} onChange={e => setStation('address', e.target.value)} />
+            </Field>
+          </Section>
+          {partLocked && (
+            <p className="-mt-4 text-[10px] font-bold text-slate-400">
+              Part name and polling station are shared by every voter in the part.{' '}
+              {onOpenGeography ? (
+                <button type="button" onClick={onOpenGeography} className="font-black text-indigo-600 hover:underline">Correct them under Regions</button>
+              ) : 'An admin corrects them under Regions.'}
+            </p>
+          )}
+        </div>
+
+        {saveError && (
+          <div className="mt-8 p-4 bg-red-50 border border-red-100 rounded-2xl text-xs font-bold text-red-600">
+            <i className="fa-solid fa-triangle-exclamation mr-2"></i>{saveError}
+          </div>
+        )}
+
+        <div className="mt-8 flex justify-end items-center gap-3">
+          {errorCount > 0 && (
+            <span className="mr-auto text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {errorCount} field{errorCount === 1 ? '' : 's'} still to fix
+            </span>
+          )}
+          <button onClick={onCancel} className="px-6 py-3 rounded-2xl font-black text-xs text-slate-500 hover:bg-slate-50 transition-all">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || errorCount > 0}
+            className="bg-indigo-600 text-white px-8 py-3 rounded-2xl font-black text-xs hover:bg-indigo-700 transition-all flex items-center gap-2 disabled:opacity-30"
+          >
+            <i className={`fa-solid ${isSaving ? 'fa-spinner animate-spin' : 'fa-floppy-disk'}`}></i>
+            {isSaving ? 'Saving...' : isNew ? 'Add Voter' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">{title}</p>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{children}</div>
+  </div>
+);
+
+const Field: React.FC<{ label: string; issues: ValidationIssue[]; children: React.ReactNode }> = ({ label, issues, children }) => (
+  <label className="block">
+    <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1 ml-1">{label}</span>
+    {children}
+    {issues.map(issue => (
+      <span
+        key={issue.code}
+        className={`block mt-1 ml-1 text-[10px] font-bold ${issue.severity === 'ERROR' ? 'text-red-500' : 'text-amber-600'}`}
+      >
+        {issue.message}
+      </span>
+    ))}
+  </label>
+);
@@ -1,42 +1,150 @@
 
-import React, { useState, useEffect } from 'react';
-import { VoterApi } from '../api';
-import { VoterRecord } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { PageCursor, VoterApi, hasSearchCriteria } from '../api';
+import { VoterRecord, VoterSearchCriteria } from '../types';
 import { VoterSlip } from './VoterSlip';
+import { alternateForm, foldLatin, hasDevanagari, toLatin } from '../transliterationService';
+import { FieldMatch, MatchKind, MatchedField, SearchHit } from '../fuzzyService';
+import { askDeleteReason } from '../recycleService';
+import { onVoterChanges, patchVoters, refetchChanged } from '../liveService';
+import { can } from '../authService';
 
 interface VoterSearchProps {
   onUpdateCount?: () => void;
+  /** Opens the Regions screen from a slip's edit form */
+  onOpenGeography?: () => void;
 }
 
-export const VoterSearch: React.FC<VoterSearchProps> = ({ onUpdateCount }) => {
+type AdvancedField = Exclude<keyof VoterSearchCriteria, 'query'>;
+
+const TEXT_FIELDS: { key: AdvancedField; label: string; placeholder: string }[] = [
+  { key: 'parentSpouseName', label: 'Parent / Spouse', placeholder: 'Any script' },
+  { key: 'partNo', label: 'Part No', placeholder: 'e.g. 142' },
+  { key: 'serialNo', label: 'Serial No', placeholder: 'e.g. 87' },
+  { key: 'assemblyConstituency', label: 'Assembly Constituency', placeholder: 'Contains…' },
+  { key: 'pollingStation', label: 'Polling Station', placeholder: 'Contains…' }
+];
+
+const MATCH_LABELS: Record<MatchKind, string> = {
+  EXACT: 'Exact',
+  PHONETIC: 'Sounds Alike',
+  FUZZY: 'Similar Spelling'
+};
+
+/**
+ * Marks the query inside an exactly matched field; a phonetic or fuzzy match
+ * has no literal substring, so the whole field is tinted instead.
+ */
+const Highlighted: React.FC<{ text: string; match?: FieldMatch; terms: string[] }> = ({ text, match, terms }) => {
+  if (!match || !text) return <>{text}</>;
+  if (match.kind !== 'EXACT') return <span className="bg-amber-100 rounded px-1">{text}</span>;
+
+  const lower = text.toLowerCase();
+  const term = terms.find(t => lower.includes(t.toLowerCase()));
+  if (!term) return <>{text}</>;
+  const start = lower.indexOf(term.toLowerCase());
+  return (
+    <>
+      {text.slice(0, start)}
+      <mark className="bg-indigo-400/30 text-inherit rounded px-0.5">{text.slice(start, start + term.length)}</mark>
+      {text.slice(start + term.length)}
+    </>
+  );
+};
+
+const parseAge = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+export const VoterSearch: React.FC<VoterSearchProps> = ({ onUpdateCount, onOpenGeography }) => {
   const [query, setQuery] = useState('');
+  const [advanced, setAdvanced] = useState<VoterSearchCriteria>({});
+  const [showAdvanced, setShowAdvanced] = useState(false);
   const [results, setResults] = useState<VoterRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  // Set when results came from the ranked name search
+  const [hits, setHits] = useState<Map<string, SearchHit> | null>(null);
   const [selectedVoter, setSelectedVoter] = useState<VoterRecord | null>(null);
   const [isSearching, setIsSearching] = useState(false);
+  // Read by the live update listener, which outlives any one render
+  const shownRef = useRef<string[]>([]);
+  shownRef.current = [...results.map(v => v.epicNo), ...(selectedVoter ? [selectedVoter.epicNo] : [])];
+
+  // A single character matches too much to be useful as a quick search
+  const criteria: VoterSearchCriteria = { ...advanced, query: query.trim().length >= 2 ? query : undefined };
+  const isActive = hasSearchCriteria(criteria);
+  const highlightTerms = criteria.query ? [criteria.query.trim(), toLatin(criteria.query), foldLatin(criteria.query)] : [];
 
   const refreshResults = async () => {
-    if (query.length >= 2) {
+    if (isActive) {
       setIsSearching(true);
-      const searchData = await VoterApi.search(query);
-      setResults(searchData);
-      setIsSearching(false);
+      try {
+        if (criteria.query) {
+          const ranked = await VoterApi.fuzzySearch(criteria);
+          setResults(ranked.map(h => h.voter));
+          setHits(new Map(ranked.map(h => [h.voter.epicNo, h])));
+          setNextCursor(null);
+          setTotal(ranked.length);
+        } else {
+          const [page, count] = await Promise.all([VoterApi.search(criteria), VoterApi.countMatches(criteria)]);
+          setResults(page.rows);
+          setHits(null);
+          setNextCursor(page.nextCursor);
+          setTotal(count);
+        }
+      } finally {
+        setIsSearching(false);
+      }
     } else {
       setResults([]);
+      setHits(null);
+      setNextCursor(null);
+      setTotal(0);
     }
     if (onUpdateCount) onUpdateCount();
   };
 
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsSearching(true);
+    try {
+      const page = await VoterApi.search(criteria, nextCursor);
+      setResults(prev => [...prev, ...page.rows]);
+      setNextCursor(page.nextCursor);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // Other operators' edits and deletions show up in place; the slip is kept
+  // open on a removed voter so it can tell the operator what happened
+  useEffect(() => onVoterChanges(async changes => {
+    const updates = await refetchChanged(shownRef.current, changes);
+    if (updates.size === 0) return;
+    setResults(prev => {
+      const next = patchVoters(prev, updates);
+      setTotal(count => count - (prev.length - next.length));
+      return next;
+    });
+    setSelectedVoter(prev => (prev && updates.get(prev.epicNo)) || prev);
+  }), []);
+
   useEffect(() => {
     const timer = setTimeout(() => {
       refreshResults();
     }, 300);
     return () => clearTimeout(timer);
-  }, [query]);
+  }, [query, advanced]);
+
+  const setField = (key: AdvancedField, value: VoterSearchCriteria[AdvancedField]) =>
+    setAdvanced(prev => ({ ...prev, [key]: value }));
+
+  const activeFilterCount = Object.values(advanced).filter(v => v !== undefined && v !== '').length;
 
   const handleDelete = async (epicNo: string, e?: React.MouseEvent) => {
     if (e) e.stopPropagation();
-    if (confirm(`Remove record ${epicNo} from the server?`)) {
-      await VoterApi.deleteVoter(epicNo);
+    const reason = askDeleteReason(epicNo);
+    if (reason !== null) {
+      await VoterApi.deleteVoter(epicNo, reason, 'SEARCH');
       if (selectedVoter?.epicNo === epicNo) {
         setSelectedVoter(null);
       }
@@ -70,51 +178,159 @@ export const VoterSearch: React.FC<VoterSearchProps> = ({ onUpdateCount }) => {
             onChange={(e) => setQuery(e.target.value)}
           />
         </div>
+
+        <div className="flex items-center justify-between mt-6">
+          <button
+            onClick={() => setShowAdvanced(prev => !prev)}
+            className={`px-5 py-3 rounded-2xl font-black text-xs transition-all flex items-center gap-2 border ${
+              showAdvanced || activeFilterCount > 0 ? 'bg-indigo-50 text-indigo-600 border-indigo-100' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            <i className="fa-solid fa-sliders"></i> Advanced Search
+            {activeFilterCount > 0 && (
+              <span className="px-2 py-0.5 bg-indigo-600 text-white rounded-lg text-[10px]">{activeFilterCount}</span>
+            )}
+          </button>
+          {isActive && (
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {total} {hits ? 'ranked ' : ''}{total === 1 ? 'match' : 'matches'}
+            </span>
+          )}
+        </div>
+
+        {showAdvanced && (
+          <div className="mt-6 p-6 bg-slate-50 rounded-[32px] border border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-4">
+            {TEXT_FIELDS.map(f => (
+              <label key={f.key} className="block">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{f.label}</span>
+                <input
+                  type="text"
+                  value={(advanced[f.key] as string) || ''}
+                  onChange={(e) => setField(f.key, e.target.value || undefined)}
+                  placeholder={f.placeholder}
+                  className="mt-1 block w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300"
+                />
+              </label>
+            ))}
+            <div className="block">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Age Range</span>
+              <div className="mt-1 flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={advanced.minAge ?? ''}
+                  onChange={(e) => setField('minAge', parseAge(e.target.value))}
+                  placeholder="Min"
+                  className="block w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300"
+                />
+                <span className="text-slate-300 font-black">–</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={advanced.maxAge ?? ''}
+                  onChange={(e) => setField('maxAge', parseAge(e.target.value))}
+                  placeholder="Max"
+                  className="block w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600 placeholder:text-slate-300"
+                />
+              </div>
+            </div>
+            <label className="block">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Gender</span>
+              <select
+                value={advanced.gender || ''}
+                onChange={(e) => setField('gender', (e.target.value || undefined) as VoterSearchCriteria['gender'])}
+                className="mt-1 block w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-900 focus:ring-0 focus:border-indigo-600"
+              >
+                <option value="">Any</option>
+                <option value="M">Male</option>
+                <option value="F">Female</option>
+                <option value="O">Other</option>
+              </select>
+            </label>
+            <div className="md:col-span-3 flex justify-end">
+              <button
+                onClick={() => setAdvanced({})}
+                disabled={activeFilterCount === 0}
+                className="text-xs font-black text-slate-400 hover:text-red-500 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                Clear Filters
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-10 items-start">
         <div className="space-y-6 no-print">
           {results.length > 0 ? (
-            results.map((voter) => (
-              <div 
-                key={voter.epicNo}
-                onClick={() => setSelectedVoter(voter)}
-                className={`p-8 rounded-[32px] cursor-pointer transition-all border-2 relative group/item ${
-                  selectedVoter?.epicNo === voter.epicNo 
-                  ? 'border-indigo-600 bg-indigo-50/30 shadow-2xl shadow-indigo-100/50 scale-[1.02]' 
-                  : 'border-white bg-white hover:border-slate-100 hover:scale-[1.01] shadow-sm'
-                }`}
-              >
-                <button 
-                  onClick={(e) => handleDelete(voter.epicNo, e)}
-                  className="absolute top-6 right-6 w-10 h-10 rounded-xl bg-white border border-slate-100 text-slate-200 opacity-0 group-hover/item:opacity-100 hover:text-red-500 hover:border-red-100 transition-all flex items-center justify-center"
-                >
-                  <i className="fa-solid fa-trash-can text-sm"></i>
-                </button>
+            <>
+              {results.map((voter) => {
+                const hit = hits?.get(voter.epicNo);
+                const matchOn = (field: MatchedField) => hit?.matches.find(m => m.field === field);
+                const alternateField: MatchedField = hasDevanagari(voter.name) ? 'nameLatin' : 'nameNative';
+                const bestMatch = hit?.matches.find(m => m.kind === 'EXACT') || hit?.matches[0];
+                return (
+                  <div 
+                    key={voter.epicNo}
+                    onClick={() => setSelectedVoter(voter)}
+                    className={`p-8 rounded-[32px] cursor-pointer transition-all border-2 relative group/item ${
+                      selectedVoter?.epicNo === voter.epicNo 
+                      ? 'border-indigo-600 bg-indigo-50/30 shadow-2xl shadow-indigo-100/50 scale-[1.02]' 
+                      : 'border-white bg-white hover:border-slate-100 hover:scale-[1.01] shadow-sm'
+                    }`}
+                  >
+                    {can('DELETE') && <button 
+                      onClick={(e) => handleDelete(voter.epicNo, e)}
+                      className="absolute top-6 right-6 w-10 h-10 rounded-xl bg-white border border-slate-100 text-slate-200 opacity-0 group-hover/item:opacity-100 hover:text-red-500 hover:border-red-100 transition-all flex items-center justify-center"
+                    >
+                      <i className="fa-solid fa-trash-can text-sm"></i>
+                    </button>}
 
-                <div className="flex justify-between items-start mb-4">
-                  <span className="px-4 py-1.5 bg-slate-900 text-white text-[10px] font-black rounded-xl uppercase tracking-widest font-mono">
-                    {voter.epicNo}
-                  </span>
-                  <div className="flex flex-col items-end">
-                    <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest leading-none mb-1">Row Ref</span>
-                    <span className="text-sm font-black text-slate-900 font-mono">#{voter.serialNo}</span>
-                  </div>
-                </div>
-                <h3 className="text-xl font-black text-slate-900 mb-2">{voter.name}</h3>
-                <div className="flex items-center gap-6">
-                  <div className="flex items-center gap-2">
-                    <i className="fa-solid fa-user-friends text-[10px] text-slate-400"></i>
-                    <p className="text-xs font-bold text-slate-500">{voter.parentSpouseName}</p>
+                    <div className="flex justify-between items-start mb-4">
+                      <span className="px-4 py-1.5 bg-slate-900 text-white text-[10px] font-black rounded-xl uppercase tracking-widest font-mono">
+                        <Highlighted text={voter.epicNo} match={matchOn('epicNo')} terms={highlightTerms} />
+                      </span>
+                      {hit && bestMatch && (
+                        <span className="ml-2 px-3 py-1.5 bg-indigo-50 text-indigo-600 text-[10px] font-black rounded-xl uppercase tracking-widest">
+                          {MATCH_LABELS[bestMatch.kind]} • {Math.round(hit.score * 100)}%
+                        </span>
+                      )}
+                      <div className="flex-1"></div>
+                      <div className="flex flex-col items-end">
+                        <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest leading-none mb-1">Row Ref</span>
+                        <span className="text-sm font-black text-slate-900 font-mono">#{voter.serialNo}</span>
+                      </div>
+                    </div>
+                    <h3 className="text-xl font-black text-slate-900">
+                      <Highlighted text={voter.name} match={matchOn('name')} terms={highlightTerms} />
+                    </h3>
+                    <p className="text-xs font-bold text-slate-400 mb-2">
+                      <Highlighted text={alternateForm(voter.name, voter.nameNative, voter.nameLatin)} match={matchOn(alternateField)} terms={highlightTerms} />
+                    </p>
+                    <div className="flex items-center gap-6">
+                      <div className="flex items-center gap-2">
+                        <i className="fa-solid fa-user-friends text-[10px] text-slate-400"></i>
+                        <p className="text-xs font-bold text-slate-500">{voter.parentSpouseName}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <i className="fa-solid fa-cake-candles text-[10px] text-slate-400"></i>
+                        <p className="text-xs font-bold text-slate-500">{voter.age}yr • {voter.gender}</p>
+                      </div>
+                    </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <i className="fa-solid fa-cake-candles text-[10px] text-slate-400"></i>
-                    <p className="text-xs font-bold text-slate-500">{voter.age}yr • {voter.gender}</p>
-                  </div>
-                </div>
-              </div>
-            ))
-          ) : query.length >= 2 && !isSearching ? (
+                );
+              })}
+              {nextCursor && (
+                <button
+                  onClick={loadMore}
+                  disabled={isSearching}
+                  className="w-full py-5 rounded-[32px] border-2 border-dashed border-slate-200 text-slate-400 font-black text-xs uppercase tracking-widest hover:border-indigo-200 hover:text-indigo-600 transition-all disabled:opacity-50"
+                >
+                  Load More ({results.length} of {total})
+                </button>
+              )}
+            </>
+          ) : isActive && !isSearching ? (
             <div className="bg-white py-24 rounded-[40px] border border-slate-100 text-center shadow-sm">
               <div className="w-16 h-16 bg-slate-50 rounded-full flex items-center justify-center mx-auto mb-4">
                  <i className="fa-solid fa-ghost text-slate-200 text-xl"></i>
@@ -130,6 +346,11 @@ export const VoterSearch: React.FC<VoterSearchProps> = ({ onUpdateCount }) => {
               voter={selectedVoter} 
               onClose={() => setSelectedVoter(null)}
               onDelete={refreshResults}
+              onOpenGeography={onOpenGeography}
+              onUpdate={(voter) => {
+                setSelectedVoter(voter);
+                refreshResults();
+              }}
             />
           ) : (
             <div className="bg-slate-50/50 rounded-[40px] py-40 border-2 border-dashed border-slate-100 text-center no-print">
@@ -1,18 +1,43 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { VoterRecord } from '../types';
 import { VoterApi } from '../api';
 import { verifyVoterRecord } from '../geminiService';
+import { alternateForm } from '../transliterationService';
+import { PROVENANCE_LABELS } from '../provenanceService';
+import { describeSource } from '../validationService';
+import { askDeleteReason } from '../recycleService';
+import { onVoterChanges } from '../liveService';
+import { can } from '../authService';
+import { ConfidenceBadge } from './ConfidenceBadge';
+import { VersionHistory } from './VersionHistory';
+import { VoterForm } from './VoterForm';
 
 interface VoterSlipProps {
   voter: VoterRecord;
   onClose?: () => void;
   onDelete?: (epicNo: string) => void;
+  /** Called with the stored record after an edit or rollback */
+  onUpdate?: (voter: VoterRecord) => void;
+  /** Opens the Regions screen from the edit form */
+  onOpenGeography?: () => void;
 }
 
-export const VoterSlip: React.FC<VoterSlipProps> = ({ voter, onClose, onDelete }) => {
+export const VoterSlip: React.FC<VoterSlipProps> = ({ voter, onClose, onDelete, onUpdate, onOpenGeography }) => {
+  const [tab, setTab] = useState<'SLIP' | 'HISTORY'>('SLIP');
+  const [isEditing, setIsEditing] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationResult, setVerificationResult] = useState<{text: string, sources: any[]} | null>(null);
+  // Set when the voter is deleted while the slip is open, e.g. by another operator
+  const [removed, setRemoved] = useState(false);
+
+  useEffect(() => {
+    setRemoved(false);
+    return onVoterChanges(changes => {
+      const change = changes.find(c => c.epicNo === voter.epicNo);
+      if (change) setRemoved(change.removed);
+    });
+  }, [voter]);
 
   const handlePrint = () => {
     window.print();
@@ -43,8 +68,9 @@ export const VoterSlip: React.FC<VoterSlipProps> = ({ voter, onClose, onDelete }
 
   // Fixed: Replaced deprecated db.deleteVoter with VoterApi.deleteVoter and made the function async
   const handleDelete = async () => {
-    if (confirm(`Are you sure you want to delete the record for ${voter.name} (${voter.epicNo})?`)) {
-      await VoterApi.deleteVoter(voter.epicNo);
+    const reason = askDeleteReason(`${voter.name} (${voter.epicNo})`);
+    if (reason !== null) {
+      await VoterApi.deleteVoter(voter.epicNo, reason, 'VOTER_SLIP');
       if (onDelete) onDelete(voter.epicNo);
       if (onClose) onClose();
     }
@@ -70,22 +96,70 @@ export const VoterSlip: React.FC<VoterSlipProps> = ({ voter, onClose, onDelete }
             <i className={`fa-solid ${isVerifying ? 'fa-spinner animate-spin' : 'fa-shield-check'}`}></i>
             {isVerifying ? 'Verifying...' : 'Verify API'}
           </button>
-          <button 
+          {can('EDIT') && <button
+            onClick={() => setIsEditing(true)}
+            disabled={removed}
+            className="bg-slate-50 text-slate-600 px-3 py-1 rounded-full text-xs font-black hover:bg-slate-100 transition-all flex items-center gap-2 disabled:opacity-30"
+          >
+            <i className="fa-solid fa-pen"></i>
+          </button>}
+          {can('DELETE') && <button 
             onClick={handleDelete}
-            className="bg-red-50 text-red-600 px-3 py-1 rounded-full text-xs font-black hover:bg-red-100 transition-all flex items-center gap-2"
+            disabled={removed}
+            className="bg-red-50 text-red-600 px-3 py-1 rounded-full text-xs font-black hover:bg-red-100 transition-all flex items-center gap-2 disabled:opacity-30"
           >
             <i className="fa-solid fa-trash-can"></i>
-          </button>
-          <button 
+          </button>}
+          {can('PRINT') && <button 
             onClick={handlePrint}
             className="bg-indigo-600 text-white px-4 py-1 rounded-full text-xs font-black hover:bg-indigo-700 transition-all flex items-center gap-2"
           >
             <i className="fa-solid fa-print"></i>
-          </button>
+          </button>}
         </div>
       </div>
 
-      <div className="voter-slip-content border-t-4 border-indigo-600 pt-6 relative">
+      {removed && (
+        <div className="mb-4 p-3 bg-red-50 rounded-xl border border-red-100 text-[10px] font-black text-red-600 uppercase tracking-widest no-print">
+          <i className="fa-solid fa-circle-exclamation mr-1"></i> This record was just removed from the vault
+        </div>
+      )}
+
+      {isEditing && !removed && (
+        <VoterForm
+          voter={voter}
+          source="VOTER_SLIP"
+          onOpenGeography={onOpenGeography}
+          onCancel={() => setIsEditing(false)}
+          onSaved={(saved) => {
+            setIsEditing(false);
+            if (onUpdate) onUpdate(saved);
+          }}
+        />
+      )}
+
+      <div className="flex gap-1 mb-4 p-1 bg-slate-50 rounded-xl no-print">
+        {(['SLIP', 'HISTORY'] as const).map(t => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`flex-1 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+              tab === t ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+            }`}
+          >
+            {t === 'SLIP' ? 'Slip' : 'History'}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'HISTORY' && (
+        <div className="no-print">
+          <VersionHistory epicNo={voter.epicNo} onRollback={onUpdate} />
+        </div>
+      )}
+
+      {/* Stays mounted (and printable) while the history tab is open */}
+      <div className={`voter-slip-content border-t-4 border-indigo-600 pt-6 relative ${tab === 'HISTORY' ? 'hidden print:block' : ''}`}>
         {verificationResult && (
           <div className="mb-4 p-3 bg-amber-50 rounded-xl border border-amber-100 text-[10px] no-print">
              <p className="font-black text-amber-800 uppercase tracking-widest mb-1 flex items-center gap-1">
@@ -102,6 +176,26 @@ export const VoterSlip: React.FC<VoterSlipProps> = ({ voter, onClose, onDelete }
           </div>
         )}
 
+        <div className="mb-4 p-3 bg-slate-50 rounded-xl border border-slate-100 text-[10px] no-print">
+          <div className="flex justify-between items-center mb-1">
+            <p className="font-black text-slate-400 uppercase tracking-widest flex items-center gap-1">
+              <i className="fa-solid fa-route"></i> Provenance
+            </p>
+            <ConfidenceBadge provenance={voter.provenance} />
+          </div>
+          {voter.provenance ? (
+            <div className="text-slate-600 font-bold space-y-0.5">
+              <p className="truncate" title={voter.provenance.fileHash}>{voter.provenance.fileName} • {describeSource(voter.provenance)}</p>
+              <p>
+                {PROVENANCE_LABELS[voter.provenance.method]}
+                {voter.provenance.model ? ` (${voter.provenance.model})` : ''} • {new Date(voter.provenance.extractedAt).toLocaleString()}
+              </p>
+            </div>
+          ) : (
+            <p className="text-slate-400 italic">Stored before provenance tracking.</p>
+          )}
+        </div>
+
         <div className="flex flex-col items-center mb-6">
           <h1 className="text-xs text-gray-400 font-medium uppercase tracking-widest">मतदाता हेल्पलाइन</h1>
         </div>
@@ -115,9 +209,15 @@ export const VoterSlip: React.FC<VoterSlipProps> = ({ voter, onClose, onDelete }
 
         <div className="space-y-4 px-2 mb-8">
           <DetailRow label="Name" value={voter.name} />
+          {alternateForm(voter.name, voter.nameNative, voter.nameLatin) && (
+            <DetailRow label="" value={alternateForm(voter.name, voter.nameNative, voter.nameLatin)} />
+          )}
           <DetailRow label="Age" value={voter.age.toString()} />
           <DetailRow label="Gender" value={voter.gender} />
           <DetailRow label="Parent/Spouse" value={voter.parentSpouseName} />
+          {alternateForm(voter.parentSpouseName, voter.parentSpouseNameNative, voter.parentSpouseNameLatin) && (
+            <DetailRow label="" value={alternateForm(voter.parentSpouseName, voter.parentSpouseNameNative, voter.parentSpouseNameLatin)} />
+          )}
           <DetailRow label="Part Name" value={voter.partName} />
         </div>
 
@@ -0,0 +1,225 @@
+import { VoterRecord } from './types';
+import { VoterApi } from './api';
+import { throwIfFailed } from './bulkWriteService';
+import { foldLatin } from './transliterationService';
+
+/**
+ * Probable-duplicate detection.
+ * The vault only deduplicates on exact EPIC, so the same person registered
+ * twice (or an OCR-misread EPIC) slips through. Pairs are scored on fuzzy
+ * name, parent/spouse name, age, gender and part, and queued for review.
+ */
+
+export type DuplicateStatus = 'OPEN' | 'MERGED' | 'KEPT' | 'FLAGGED';
+
+export interface DuplicatePair {
+  /** `${epicA}|${epicB}` with the EPICs in sorted order. */
+  id: string;
+  epicA: string;
+  epicB: string;
+  score: number;
+  reasons: string[];
+  status: DuplicateStatus;
+  createdAt: string;
+  resolvedAt?: string | null;
+}
+
+export const DUPLICATE_THRESHOLD = 0.82;
+
+const WEIGHTS = { name: 0.4, parent: 0.25, age: 0.15, part: 0.1, gender: 0.1 };
+
+// Compared in Latin so a Devanagari row can match its English twin
+const normalizeName = (value: string) =>
+  foldLatin(value || '').replace(/[.,'"()\-_/]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const tokenSorted = (value: string) => normalizeName(value).split(' ').sort().join(' ');
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, k = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/** Order-insensitive, so "Patil Ramesh" matches "Ramesh Patil". */
+export function nameSimilarity(a: string, b: string): number {
+  return Math.max(jaroWinkler(normalizeName(a), normalizeName(b)), jaroWinkler(tokenSorted(a), tokenSorted(b)));
+}
+
+/** Number of differing characters between equal-length EPICs, else Infinity. */
+export function epicDistance(a: string, b: string): number {
+  if (!a || !b || a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) distance++;
+  return distance;
+}
+
+const ageSimilarity = (a: number, b: number) => {
+  if (!a || !b) return 0.5;
+  const gap = Math.abs(a - b);
+  return gap <= 1 ? 1 : gap <= 3 ? 0.6 : gap <= 5 ? 0.3 : 0;
+};
+
+/**
+ * Weighted similarity in [0, 1] with human-readable reasons. A near-identical
+ * EPIC (one or two characters apart) adds a bonus since it usually means OCR
+ * misread the same card.
+ */
+export function scorePair(a: VoterRecord, b: VoterRecord): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  const name = nameSimilarity(a.name, b.name);
+  const parent = nameSimilarity(a.parentSpouseName, b.parentSpouseName);
+  const age = ageSimilarity(a.age, b.age);
+  const part = a.partNo && a.partNo === b.partNo ? 1 : 0;
+  const gender = a.gender === b.gender ? 1 : 0;
+
+  if (name >= 0.9) reasons.push(`Name ${Math.round(name * 100)}% similar`);
+  if (parent >= 0.9) reasons.push(`Parent/spouse ${Math.round(parent * 100)}% similar`);
+  if (age === 1) reasons.push('Age within 1 year');
+  if (part) reasons.push(`Same part ${a.partNo}`);
+
+  let score = name * WEIGHTS.name + parent * WEIGHTS.parent + age * WEIGHTS.age + part * WEIGHTS.part + gender * WEIGHTS.gender;
+
+  const epicGap = epicDistance(a.epicNo, b.epicNo);
+  if (epicGap <= 2) {
+    score += 0.1;
+    reasons.push(`EPIC differs by ${epicGap} character${epicGap === 1 ? '' : 's'}`);
+  }
+  return { score: Math.min(1, Math.round(score * 1000) / 1000), reasons };
+}
+
+export const pairId = (x: string, y: string) => (x < y ? `${x}|${y}` : `${y}|${x}`);
+
+/**
+ * Blocking keys keep comparisons roughly linear: two records are only scored
+ * when they share a gender and the initial of their first or last name token.
+ */
+const blockingKeys = (v: VoterRecord) => {
+  const tokens = normalizeName(v.name).split(' ').filter(Boolean);
+  if (tokens.length === 0) return [];
+  return [...new Set([tokens[0][0], tokens[tokens.length - 1][0]])].map(initial => `${v.gender}|${initial}`);
+};
+
+/**
+ * Scores every candidate against the pool and returns pairs above `threshold`.
+ * Pairs with the same EPIC are skipped; those are handled by the upsert.
+ */
+export function findDuplicatePairs(candidates: VoterRecord[], pool: VoterRecord[], threshold = DUPLICATE_THRESHOLD): DuplicatePair[] {
+  const blocks = new Map<string, VoterRecord[]>();
+  for (const voter of pool) {
+    for (const key of blockingKeys(voter)) {
+      const block = blocks.get(key);
+      if (block) block.push(voter);
+      else blocks.set(key, [voter]);
+    }
+  }
+
+  const pairs = new Map<string, DuplicatePair>();
+  const createdAt = new Date().toISOString();
+  for (const voter of candidates) {
+    for (const key of blockingKeys(voter)) {
+      for (const other of blocks.get(key) || []) {
+        if (other.epicNo === voter.epicNo) continue;
+        const id = pairId(voter.epicNo, other.epicNo);
+        if (pairs.has(id)) continue;
+
+        const { score, reasons } = scorePair(voter, other);
+        if (score < threshold) continue;
+        const [epicA, epicB] = id.split('|');
+        pairs.set(id, { id, epicA, epicB, score, reasons, status: 'OPEN', createdAt });
+      }
+    }
+  }
+  return [...pairs.values()].sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Runs after a batch is committed: compares it with itself and with vault
+ * records in the same parts, and queues new pairs. Decisions already taken
+ * on a pair are preserved.
+ */
+export async function detectDuplicatesForBatch(batch: VoterRecord[]): Promise<DuplicatePair[]> {
+  if (batch.length === 0) return [];
+  const partNos = [...new Set(batch.map(v => v.partNo).filter(Boolean))];
+  const vault = await VoterApi.getByPartNos(partNos);
+
+  const batchEpics = new Set(batch.map(v => v.epicNo));
+  const pool = [...batch, ...vault.filter(v => !batchEpics.has(v.epicNo))];
+  const pairs = findDuplicatePairs(batch, pool);
+  if (pairs.length > 0) await VoterApi.saveDuplicatePairs(pairs);
+  return pairs;
+}
+
+/** Full-vault pass, for records ingested before detection existed or across parts. */
+export async function scanVaultForDuplicates(): Promise<DuplicatePair[]> {
+  const voters = await VoterApi.getVoters();
+  const pairs = findDuplicatePairs(voters, voters);
+  if (pairs.length > 0) await VoterApi.saveDuplicatePairs(pairs);
+  return pairs;
+}
+
+/**
+ * Survivor keeps its own values; blanks are filled from the duplicate.
+ */
+export function mergeVoters(keep: VoterRecord, drop: VoterRecord): VoterRecord {
+  const pick = <T,>(a: T, b: T) => (a === undefined || a === null || a === '' || a === 0 ? b : a);
+  return {
+    ...keep,
+    name: pick(keep.name, drop.name),
+    age: pick(keep.age, drop.age),
+    parentSpouseName: pick(keep.parentSpouseName, drop.parentSpouseName),
+    relationType: pick(keep.relationType, drop.relationType),
+    houseNo: pick(keep.houseNo, drop.houseNo),
+    assemblyConstituency: pick(keep.assemblyConstituency, drop.assemblyConstituency),
+    parliamentaryConstituency: pick(keep.parliamentaryConstituency, drop.parliamentaryConstituency),
+    district: pick(keep.district, drop.district),
+    state: pick(keep.state, drop.state),
+    partNo: pick(keep.partNo, drop.partNo),
+    partName: pick(keep.partName, drop.partName),
+    serialNo: pick(keep.serialNo, drop.serialNo),
+    pollingStation: {
+      name: pick(keep.pollingStation?.name, drop.pollingStation?.name) || '',
+      address: pick(keep.pollingStation?.address, drop.pollingStation?.address) || ''
+    },
+    lastUpdated: new Date().toISOString()
+  };
+}
+
+/**
+ * Merges the pair into `keep`, removes the other record and closes the pair.
+ */
+export async function mergeDuplicatePair(pair: DuplicatePair, keep: VoterRecord, drop: VoterRecord): Promise<VoterRecord> {
+  const merged = mergeVoters(keep, drop);
+  throwIfFailed(await VoterApi.bulkCreate([merged], `DUPLICATE_MERGE: ${pair.id}`));
+  await VoterApi.deleteVoter(drop.epicNo, `Merged into ${keep.epicNo}`, `DUPLICATE_MERGE: ${pair.id}`);
+  await VoterApi.resolveDuplicatePair(pair.id, 'MERGED');
+  return merged;
+}
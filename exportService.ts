@@ -0,0 +1,159 @@
+import * as XLSX from 'xlsx';
+import { VoterRecord } from './types';
+
+/**
+ * Voter exports for field teams (CSV / XLSX of a part or station) and DBAs
+ * (portable SQL). Rows arrive from the API a part at a time and are
+ * serialized as they come, so only the output and one part's records,
+ * never the whole vault's, are held in memory.
+ */
+
+export type ExportFormat = 'CSV' | 'XLSX' | 'SQL';
+/** `INSERT` batches run anywhere; `COPY ... FROM stdin` is Postgres-only but loads much faster. */
+export type SqlStyle = 'INSERT' | 'COPY';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  type: 'text' | 'integer' | 'numeric';
+  value: (voter: VoterRecord) => string | number | null | undefined;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'epicNo', label: 'EPIC No', type: 'text', value: v => v.epicNo },
+  { key: 'name', label: 'Name', type: 'text', value: v => v.name },
+  { key: 'nameNative', label: 'Name (Devanagari)', type: 'text', value: v => v.nameNative },
+  { key: 'nameLatin', label: 'Name (Latin)', type: 'text', value: v => v.nameLatin },
+  { key: 'parentSpouseName', label: 'Parent/Spouse', type: 'text', value: v => v.parentSpouseName },
+  { key: 'relationType', label: 'Relation', type: 'text', value: v => v.relationType },
+  { key: 'age', label: 'Age', type: 'integer', value: v => v.age },
+  { key: 'gender', label: 'Gender', type: 'text', value: v => v.gender },
+  { key: 'houseNo', label: 'House No', type: 'text', value: v => v.houseNo },
+  { key: 'partNo', label: 'Part No', type: 'text', value: v => v.partNo },
+  { key: 'serialNo', label: 'Serial No', type: 'text', value: v => v.serialNo },
+  { key: 'partName', label: 'Part Name', type: 'text', value: v => v.partName },
+  { key: 'pollingStation', label: 'Polling Station', type: 'text', value: v => v.pollingStation?.name },
+  { key: 'pollingStationAddress', label: 'Polling Station Address', type: 'text', value: v => v.pollingStation?.address },
+  { key: 'assemblyConstituency', label: 'Assembly Constituency', type: 'text', value: v => v.assemblyConstituency },
+  { key: 'parliamentaryConstituency', label: 'Parliamentary Constituency', type: 'text', value: v => v.parliamentaryConstituency },
+  { key: 'district', label: 'District', type: 'text', value: v => v.district },
+  { key: 'state', label: 'State', type: 'text', value: v => v.state },
+  { key: 'confidence', label: 'Confidence', type: 'numeric', value: v => v.provenance?.confidence },
+  { key: 'sourceFile', label: 'Source File', type: 'text', value: v => v.provenance?.fileName },
+  { key: 'lastUpdated', label: 'Last Updated', type: 'text', value: v => v.lastUpdated }
+];
+
+/** The columns of a printed roll, in roll order. */
+export const DEFAULT_EXPORT_COLUMNS = ['partNo', 'serialNo', 'epicNo', 'name', 'parentSpouseName', 'relationType', 'houseNo', 'age', 'gender', 'pollingStation'];
+
+export const DEFAULT_SQL_TABLE = 'voters_export';
+
+/** Roll order within a part: serial numbers compared as numbers (2 before 10), then EPIC. */
+export const bySerialNo = (a: VoterRecord, b: VoterRecord) =>
+  (a.serialNo || '').localeCompare(b.serialNo || '', undefined, { numeric: true }) || a.epicNo.localeCompare(b.epicNo);
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Keys of EXPORT_COLUMNS, in output order */
+  columns: string[];
+  sqlStyle?: SqlStyle;
+  sqlTable?: string;
+}
+
+/** Receives pages in order, then produces the file. */
+export interface ExportWriter {
+  write(voters: VoterRecord[]): void;
+  finish(): Blob;
+  extension: string;
+}
+
+const cellValue = (value: ReturnType<ExportColumn['value']>) => (value === undefined || value === '' ? null : value);
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const sqlIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const sqlLiteral = (value: string | number | null) =>
+  value === null ? 'NULL' : typeof value === 'number' ? String(value) : `'${value.replace(/'/g, "''")}'`;
+
+// COPY text format: backslash escapes, tab-separated, \N for NULL
+const copyValue = (value: string | number | null) =>
+  value === null ? '\\N' : String(value).replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+
+// Rows per INSERT statement
+const INSERT_BATCH = 500;
+
+export function resolveColumns(keys: string[]): ExportColumn[] {
+  const columns = keys.map(key => EXPORT_COLUMNS.find(c => c.key === key)).filter((c): c is ExportColumn => !!c);
+  if (columns.length === 0) throw new Error('Pick at least one column to export.');
+  return columns;
+}
+
+export function createExportWriter(options: ExportOptions): ExportWriter {
+  const columns = resolveColumns(options.columns);
+  const valuesOf = (voter: VoterRecord) => columns.map(c => cellValue(c.value(voter)));
+
+  if (options.format === 'CSV') {
+    // BOM so Excel opens Devanagari names correctly
+    const parts: string[] = ['\uFEFF' + columns.map(c => csvCell(c.label)).join(',') + '\r\n'];
+    return {
+      extension: 'csv',
+      write: voters => parts.push(voters.map(v => valuesOf(v).map(csvCell).join(',') + '\r\n').join('')),
+      finish: () => new Blob(parts, { type: 'text/csv;charset=utf-8' })
+    };
+  }
+
+  if (options.format === 'XLSX') {
+    const sheet = XLSX.utils.aoa_to_sheet([columns.map(c => c.label)]);
+    return {
+      extension: 'xlsx',
+      write: voters => XLSX.utils.sheet_add_aoa(sheet, voters.map(valuesOf), { origin: -1 }),
+      finish: () => {
+        const book = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(book, sheet, 'Voters');
+        const data = XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+        return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      }
+    };
+  }
+
+  const table = sqlIdent(options.sqlTable?.trim() || DEFAULT_SQL_TABLE);
+  const columnList = columns.map(c => sqlIdent(c.key)).join(', ');
+  const parts: string[] = [
+    `-- VIS voter export, ${new Date().toISOString()}\n`,
+    `CREATE TABLE IF NOT EXISTS ${table} (\n${columns.map(c => `  ${sqlIdent(c.key)} ${c.type}`).join(',\n')}\n);\n\n`
+  ];
+  if (options.sqlStyle === 'COPY') {
+    parts.push(`COPY ${table} (${columnList}) FROM stdin;\n`);
+    return {
+      extension: 'sql',
+      write: voters => parts.push(voters.map(v => valuesOf(v).map(copyValue).join('\t') + '\n').join('')),
+      finish: () => new Blob([...parts, '\\.\n'], { type: 'application/sql' })
+    };
+  }
+  return {
+    extension: 'sql',
+    write: voters => {
+      for (let i = 0; i < voters.length; i += INSERT_BATCH) {
+        const rows = voters.slice(i, i + INSERT_BATCH).map(v => `  (${valuesOf(v).map(sqlLiteral).join(', ')})`);
+        parts.push(`INSERT INTO ${table} (${columnList}) VALUES\n${rows.join(',\n')};\n`);
+      }
+    },
+    finish: () => new Blob(parts, { type: 'application/sql' })
+  };
+}
+
+/**
+ * DOWNLOAD a finished export
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
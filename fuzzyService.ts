@@ -0,0 +1,152 @@
+import { VoterRecord } from './types';
+import { foldLatin } from './transliterationService';
+
+/**
+ * Fuzzy and phonetic name matching for search.
+ * The same name reaches the vault as "Laxmi" and "Lakshmi", "Mohd" and
+ * "Mohammed", or OCR's "Scinde" for "Shinde". Names are compared in folded
+ * Latin by trigram similarity (as pg_trgm does) and by a phonetic key that
+ * collapses the spellings Marathi and Hindi names commonly vary in.
+ */
+
+export type MatchKind = 'EXACT' | 'PHONETIC' | 'FUZZY';
+export type MatchedField = 'name' | 'nameNative' | 'nameLatin' | 'epicNo';
+
+export interface FieldMatch {
+  field: MatchedField;
+  kind: MatchKind;
+}
+
+export interface SearchHit {
+  voter: VoterRecord;
+  /** 0–1, exact substring matches score 1 */
+  score: number;
+  matches: FieldMatch[];
+}
+
+/** Below this trigram similarity a spelling is not considered the same name. */
+export const FUZZY_THRESHOLD = 0.45;
+const PHONETIC_SCORE = 0.9;
+
+// Abbreviations and honorifics, by folded token
+const TOKEN_ALIASES: Record<string, string> = {
+  mohd: 'mohammad',
+  md: 'mohammad',
+  mohammed: 'mohammad',
+  muhammad: 'mohammad',
+  mohamad: 'mohammad',
+  smt: '',
+  shri: '',
+  shree: '',
+  kum: ''
+};
+
+// Applied in order; earlier rules feed later ones
+const PHONETIC_RULES: [RegExp, string][] = [
+  [/x/g, 'ks'],
+  [/ksh/g, 'ks'],
+  [/q/g, 'k'],
+  [/z/g, 'j'],
+  [/w/g, 'v'],
+  [/ph/g, 'f'],
+  [/sch|sc(?=[eiy])|sh/g, 's'],
+  [/chh|ch/g, 'c'],
+  [/ck/g, 'k'],
+  [/([kgcjtdpb])h/g, '$1'],
+  [/y/g, 'i'],
+  [/(.)\1+/g, '$1']
+];
+
+function tokenKey(token: string): string {
+  const aliased = TOKEN_ALIASES[token] ?? token;
+  if (!aliased) return '';
+  const spelled = PHONETIC_RULES.reduce((word, [pattern, replacement]) => word.replace(pattern, replacement), aliased);
+  // Vowels vary most between spellings; keep only the first letter's
+  return spelled[0] + spelled.slice(1).replace(/[aeiou]/g, '');
+}
+
+/** One key per name token, in either script: "Lakshmi Shinde" and "लक्ष्मी शिंदे" both give ["lksm", "snd"]. */
+export function phoneticKeys(name: string): string[] {
+  const tokens = foldLatin(name || '').replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+  return [...new Set(tokens.map(tokenKey).filter(Boolean))];
+}
+
+const trigrams = (word: string) => {
+  const padded = `  ${word} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+/** pg_trgm `similarity()` between two single words. */
+export function trigramSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  const x = trigrams(a);
+  const y = trigrams(b);
+  let shared = 0;
+  x.forEach(g => { if (y.has(g)) shared++; });
+  return shared / (x.size + y.size - shared);
+}
+
+/** Each query word against its best-matching word in `value`, averaged. */
+function nameSimilarity(query: string, value: string): number {
+  const queryWords = foldLatin(query).split(' ').filter(Boolean);
+  const valueWords = foldLatin(value).split(' ').filter(Boolean);
+  if (queryWords.length === 0 || valueWords.length === 0) return 0;
+  const total = queryWords.reduce((sum, q) => sum + Math.max(...valueWords.map(w => trigramSimilarity(q, w))), 0);
+  return total / queryWords.length;
+}
+
+const includes = (value: string | undefined, term: string) =>
+  !!value && !!term && value.toLowerCase().includes(term.toLowerCase());
+
+/**
+ * Best match of the query against a voter's name forms and EPIC, or null
+ * when nothing matches. `terms` are the query's script forms, `keys` its
+ * phonetic keys; every key must appear in the name for a phonetic match.
+ */
+export function scoreMatch(terms: string[], keys: string[], voter: VoterRecord): Omit<SearchHit, 'voter'> | null {
+  const matches: FieldMatch[] = [];
+  let score = 0;
+
+  if (terms.some(t => includes(voter.epicNo, t))) {
+    matches.push({ field: 'epicNo', kind: 'EXACT' });
+    score = 1;
+  }
+
+  const fields: MatchedField[] = ['name', 'nameNative', 'nameLatin'];
+  for (const field of fields) {
+    const value = voter[field] as string | undefined;
+    if (!value) continue;
+
+    if (terms.some(t => includes(value, t))) {
+      matches.push({ field, kind: 'EXACT' });
+      score = 1;
+      continue;
+    }
+    const nameKeys = phoneticKeys(value);
+    if (keys.length > 0 && keys.every(k => nameKeys.includes(k))) {
+      matches.push({ field, kind: 'PHONETIC' });
+      score = Math.max(score, PHONETIC_SCORE);
+      continue;
+    }
+    const similarity = Math.max(...terms.map(t => nameSimilarity(t, value)));
+    if (similarity >= FUZZY_THRESHOLD) {
+      matches.push({ field, kind: 'FUZZY' });
+      score = Math.max(score, similarity);
+    }
+  }
+
+  return matches.length > 0 ? { score: Math.round(score * 100) / 100, matches } : null;
+}
+
+/** Scores and orders candidates, best first; those that do not match are dropped. */
+export function rankMatches(terms: string[], keys: string[], voters: VoterRecord[]): SearchHit[] {
+  return voters
+    .map(voter => {
+      const match = scoreMatch(terms, keys, voter);
+      return match && { voter, ...match };
+    })
+    .filter((hit): hit is SearchHit => !!hit)
+    .sort((a, b) => b.score - a.score || a.voter.name.localeCompare(b.voter.name));
+}
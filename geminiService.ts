@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { VoterRecord, ExtractionResponse } from "./types";
+import { coerceGender } from "./validationService";
 
 /**
  * Creates a fresh AI instance using the current environment key.
@@ -8,6 +9,9 @@ import { VoterRecord, ExtractionResponse } from "./types";
  */
 const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+/** Model used for roll extraction, recorded in each record's provenance. */
+export const EXTRACTION_MODEL = 'gemini-3-flash-preview';
+
 export async function extractVoters(input: { base64?: string, mimeType?: string, textContent?: string }): Promise<ExtractionResponse> {
   // Create a new instance right before making an API call to ensure it uses the most up-to-date API key
   const ai = getAI();
@@ -15,7 +19,8 @@ export async function extractVoters(input: { base64?: string, mimeType?: string,
     Extract voter information from the following ${input.textContent ? 'text' : 'image'} from an electoral roll. 
     Look for: Assembly Constituency, Parliamentary Constituency, Part No, Part Name, and Polling Station.
     For each voter: EPIC No, Name, Age, Gender (M/F), Parent/Spouse Name, Serial No.
-    Convert Marathi names and details to English. Return JSON.
+    Keep voter and parent/spouse names exactly as printed, in their original script; do not translate or transliterate them.
+    Convert the remaining Marathi details to English. Return JSON.
   `;
 
   const contents = input.textContent 
@@ -29,7 +34,7 @@ export async function extractVoters(input: { base64?: string, mimeType?: string,
 
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model: EXTRACTION_MODEL,
       contents: contents,
       config: {
         responseMimeType: "application/json",
@@ -76,11 +81,11 @@ export async function extractVoters(input: { base64?: string, mimeType?: string,
 
     const rawJson = JSON.parse(response.text || '{}');
     const finalVoters: VoterRecord[] = (rawJson.voters || []).map((v: any) => ({
-      epicNo: v.epicNo || `EXT-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
-      name: v.name || 'Unknown',
-      age: v.age || 0,
-      gender: (v.gender === 'प' || v.gender === 'M') ? 'M' : (v.gender === 'F' ? 'F' : 'M'),
-      parentSpouseName: v.parentSpouseName || 'Unknown',
+      epicNo: (v.epicNo || '').toUpperCase().replace(/\s+/g, ''),
+      name: v.name || '',
+      age: Number(v.age) || 0,
+      gender: coerceGender(v.gender === 'प' ? 'M' : v.gender),
+      parentSpouseName: v.parentSpouseName || '',
       assemblyConstituency: v.assemblyConstituency || rawJson.meta?.assemblyConstituency || '',
       parliamentaryConstituency: v.parliamentaryConstituency || rawJson.meta?.parliamentaryConstituency || '',
       district: v.district || '',
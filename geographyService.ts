@@ -0,0 +1,170 @@
+import { VoterRecord } from './types';
+import { auditId } from './auditService';
+
+/**
+ * Electoral geography: state → district → parliamentary constituency →
+ * assembly constituency → part → polling station, stored once as a tree of
+ * units. Voters reference their part; the names and station they show are
+ * read from the tree, so correcting a station address is a single edit.
+ */
+
+export type GeoLevel = 'STATE' | 'DISTRICT' | 'PC' | 'AC' | 'PART' | 'STATION';
+
+export interface GeoUnit {
+  id: string;
+  level: GeoLevel;
+  /** null for states */
+  parentId: string | null;
+  name: string;
+  /** Part number; parts are matched on it rather than their name */
+  code?: string | null;
+  /** Polling stations only */
+  address?: string | null;
+}
+
+/** Top-down; each level's parent is the one before it. */
+export const GEO_LEVELS: GeoLevel[] = ['STATE', 'DISTRICT', 'PC', 'AC', 'PART', 'STATION'];
+
+export const GEO_LEVEL_LABELS: Record<GeoLevel, string> = {
+  STATE: 'State',
+  DISTRICT: 'District',
+  PC: 'Parliamentary Constituency',
+  AC: 'Assembly Constituency',
+  PART: 'Part',
+  STATION: 'Polling Station'
+};
+
+/** VoterRecord fields that are read from the part's branch of the tree. */
+export const GEO_FIELDS = ['state', 'district', 'parliamentaryConstituency', 'assemblyConstituency', 'partNo', 'partName', 'pollingStation'] as const;
+export type GeoField = typeof GEO_FIELDS[number];
+
+/** A voter as stored: geography replaced by `partId`, except on rows written before the tree existed. */
+export type Normalized<T extends VoterRecord> = Omit<T, GeoField> & Partial<Pick<T, GeoField>> & { partId?: string | null };
+
+export interface GeoIndex {
+  byId: Map<string, GeoUnit>;
+  children: Map<string | null, GeoUnit[]>;
+}
+
+export const childLevel = (level: GeoLevel | null): GeoLevel | null =>
+  level === null ? 'STATE' : GEO_LEVELS[GEO_LEVELS.indexOf(level) + 1] ?? null;
+
+export function indexGeography(units: GeoUnit[]): GeoIndex {
+  const byId = new Map(units.map(u => [u.id, u]));
+  const children = new Map<string | null, GeoUnit[]>();
+  units.forEach(u => children.set(u.parentId, [...(children.get(u.parentId) || []), u]));
+  children.forEach(list => list.sort((a, b) => (a.code || '').localeCompare(b.code || '', undefined, { numeric: true }) || a.name.localeCompare(b.name)));
+  return { byId, children };
+}
+
+/** Every part, walking the tree in order: states, districts, PCs and ACs by name, parts by number. */
+export function partsInOrder(index: GeoIndex, parentId: string | null = null): GeoUnit[] {
+  return (index.children.get(parentId) || []).flatMap(unit =>
+    unit.level === 'PART' ? [unit] : unit.level === 'STATION' ? [] : partsInOrder(index, unit.id)
+  );
+}
+
+/** A part's station; parts are served by a single polling station. */
+export const stationOf = (partId: string, index: GeoIndex) =>
+  (index.children.get(partId) || []).find(u => u.level === 'STATION');
+
+/** Fills the geography fields from the voter's part. Rows without a part are returned as stored. */
+export function withGeography<T extends VoterRecord>(row: Normalized<T>, index: GeoIndex): T {
+  if (!row.partId) return row as T;
+  const part = index.byId.get(row.partId);
+  const ac = part?.parentId ? index.byId.get(part.parentId) : undefined;
+  const pc = ac?.parentId ? index.byId.get(ac.parentId) : undefined;
+  const district = pc?.parentId ? index.byId.get(pc.parentId) : undefined;
+  const state = district?.parentId ? index.byId.get(district.parentId) : undefined;
+  const station = part && stationOf(part.id, index);
+  return {
+    ...row,
+    state: state?.name || '',
+    district: district?.name || '',
+    parliamentaryConstituency: pc?.name || '',
+    assemblyConstituency: ac?.name || '',
+    partNo: part?.code || '',
+    partName: part?.name || '',
+    pollingStation: { name: station?.name || '', address: station?.address || '' }
+  } as T;
+}
+
+/** Drops the fields `withGeography` restores. Rows without a part keep theirs, having nowhere else to read them from. */
+export function stripGeography<T extends VoterRecord & { partId?: string | null }>(row: T): Normalized<T> {
+  if (!row.partId) return row;
+  const stored = { ...row } as unknown as Record<string, unknown>;
+  GEO_FIELDS.forEach(field => delete stored[field]);
+  return stored as Normalized<T>;
+}
+
+const sameName = (a: string | null | undefined, b: string) => (a || '').trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Why an edited unit cannot be saved, or null. Siblings must stay distinguishable for ingestion to match them. */
+export function validateGeoUnit(unit: GeoUnit, units: GeoUnit[]): string | null {
+  if (childLevel(unit.parentId ? units.find(u => u.id === unit.parentId)?.level ?? null : null) !== unit.level) {
+    return `A ${GEO_LEVEL_LABELS[unit.level]} cannot be placed there.`;
+  }
+  const siblings = units.filter(u => u.parentId === unit.parentId && u.level === unit.level && u.id !== unit.id);
+  if (unit.level === 'PART') {
+    if (!unit.code?.trim()) return 'Part number is required.';
+    if (siblings.some(u => (u.code || '') === unit.code!.trim())) return `Part ${unit.code} already exists here.`;
+    return null;
+  }
+  if (unit.level === 'STATION') {
+    return siblings.length > 0 ? 'A part is served by a single polling station.' : null;
+  }
+  if (!unit.name.trim()) return `${GEO_LEVEL_LABELS[unit.level]} name is required.`;
+  if (siblings.some(u => sameName(u.name, unit.name))) return `${GEO_LEVEL_LABELS[unit.level]} "${unit.name.trim()}" already exists here.`;
+  return null;
+}
+
+/**
+ * Finds each voter's part in the tree, adding whatever branch is missing.
+ * Existing units are only filled in where blank: names and addresses
+ * corrected in the admin screen are not overwritten by the next ingestion.
+ * Returns the part id per voter (same order) and the units to save.
+ */
+export function resolveParts(voters: VoterRecord[], units: GeoUnit[]): { partIds: string[]; changed: GeoUnit[] } {
+  const index = indexGeography(units);
+  const changed = new Map<string, GeoUnit>();
+
+  const save = (unit: GeoUnit) => {
+    changed.set(unit.id, unit);
+    index.byId.set(unit.id, unit);
+    if (!index.children.has(unit.parentId)) index.children.set(unit.parentId, []);
+    const siblings = index.children.get(unit.parentId)!;
+    const at = siblings.findIndex(u => u.id === unit.id);
+    if (at >= 0) siblings[at] = unit;
+    else siblings.push(unit);
+    return unit;
+  };
+
+  const child = (parentId: string | null, level: GeoLevel, matches: (u: GeoUnit) => boolean, create: Omit<GeoUnit, 'id' | 'level' | 'parentId'>) =>
+    (index.children.get(parentId) || []).find(u => u.level === level && matches(u)) ||
+    save({ id: auditId(), level, parentId, ...create });
+
+  const partIds = voters.map(v => {
+    let parentId: string | null = null;
+    for (const [level, name] of [['STATE', v.state], ['DISTRICT', v.district], ['PC', v.parliamentaryConstituency], ['AC', v.assemblyConstituency]] as const) {
+      const value = (name || '').trim();
+      parentId = child(parentId, level, u => sameName(u.name, value), { name: value }).id;
+    }
+
+    const partNo = (v.partNo || '').trim();
+    const partName = (v.partName || '').trim();
+    let part = child(parentId, 'PART', u => (u.code || '') === partNo, { name: partName, code: partNo });
+    if (!part.name && partName) part = save({ ...part, name: partName });
+
+    const stationName = (v.pollingStation?.name || '').trim();
+    const address = (v.pollingStation?.address || '').trim();
+    const station = stationOf(part.id, index);
+    if (!station && (stationName || address)) {
+      save({ id: auditId(), level: 'STATION', parentId: part.id, name: stationName, address });
+    } else if (station && ((!station.name && stationName) || (!station.address && address))) {
+      save({ ...station, name: station.name || stationName, address: station.address || address });
+    }
+    return part.id;
+  });
+
+  return { partIds, changed: [...changed.values()] };
+}
@@ -0,0 +1,10 @@
+/**
+ * SHA-256 digests as lowercase hex, for file identities, backup checksums
+ * and session tokens.
+ */
+
+export const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
@@ -0,0 +1,58 @@
+/**
+ * Minimal promise wrapper around IndexedDB.
+ * Each feature owns its own database and passes an upgrade callback that
+ * creates its object stores.
+ */
+
+export type UpgradeFn = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void;
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export function openDb(name: string, version: number, upgrade: UpgradeFn): Promise<IDBDatabase> {
+  const key = `${name}@${version}`;
+  const cached = connections.get(key);
+  if (cached) return cached;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`IndexedDB "${name}" is blocked by another tab.`));
+  });
+  connections.set(key, opening);
+  opening.catch(() => connections.delete(key));
+  return opening;
+}
+
+export function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs `work` inside a transaction and resolves once the transaction commits,
+ * so callers never observe a write that was later rolled back.
+ */
+export function withStore<T>(
+  db: IDBDatabase,
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    let result: T;
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+    Promise.resolve(work(tx)).then(r => { result = r; }, err => {
+      try { tx.abort(); } catch { /* already finished */ }
+      reject(err);
+    });
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Client-side clean-up for photos of printed roll pages before extraction:
+ * EXIF orientation, operator quarter-turns, downscaling, greyscale and deskew.
+ */
+
+export interface PreprocessOptions {
+  /** Extra clockwise rotation chosen by the operator (0, 90, 180, 270). */
+  rotation?: number;
+  maxEdge?: number;
+  deskew?: boolean;
+}
+
+export interface PreprocessResult {
+  canvas: HTMLCanvasElement;
+  skewAngle: number;
+  scale: number;
+}
+
+const DEFAULT_MAX_EDGE = 2400;
+const SKEW_RANGE = 6;
+const SKEW_STEP = 0.5;
+const ANALYSIS_EDGE = 700;
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/') || /\.(jpe?g|png|webp|bmp)$/i.test(file.name);
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return { canvas, ctx };
+}
+
+/** Draws `source` rotated by `degrees` onto a canvas sized to fit it. */
+function rotate(source: CanvasImageSource & { width: number; height: number }, degrees: number, scale = 1) {
+  const rad = (degrees * Math.PI) / 180;
+  const w = source.width * scale;
+  const h = source.height * scale;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const { canvas, ctx } = createCanvas(w * cos + h * sin, w * sin + h * cos);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rad);
+  ctx.drawImage(source, -w / 2, -h / 2, w, h);
+  return canvas;
+}
+
+function toGreyscale(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const px = image.data;
+  for (let i = 0; i < px.length; i += 4) {
+    const y = 0.299 * px[i] + 0.587 * px[i + 1] + 0.114 * px[i + 2];
+    px[i] = px[i + 1] = px[i + 2] = y;
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Estimates page skew with a projection profile: text lines produce the
+ * sharpest row histogram (highest variance) when they are horizontal.
+ */
+export function estimateSkew(canvas: HTMLCanvasElement): number {
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(canvas.width, canvas.height));
+  const { canvas: small, ctx } = createCanvas(canvas.width * scale, canvas.height * scale);
+  ctx.drawImage(canvas, 0, 0, small.width, small.height);
+  const { data, width, height } = ctx.getImageData(0, 0, small.width, small.height);
+
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += data[i];
+  const threshold = (sum / (data.length / 4)) * 0.75;
+
+  const dark: [number, number][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] < threshold) dark.push([x - width / 2, y - height / 2]);
+    }
+  }
+  if (dark.length < 50) return 0;
+
+  const bins = Math.ceil(Math.hypot(width, height));
+  let best = 0;
+  let bestScore = -1;
+  for (let angle = -SKEW_RANGE; angle <= SKEW_RANGE; angle += SKEW_STEP) {
+    const rad = (angle * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    const hist = new Float64Array(bins);
+    for (const [x, y] of dark) {
+      const bin = Math.round(y * cos - x * sin + bins / 2);
+      if (bin >= 0 && bin < bins) hist[bin]++;
+    }
+    let score = 0;
+    for (let i = 1; i < bins; i++) score += (hist[i] - hist[i - 1]) ** 2;
+    if (score > bestScore) {
+      bestScore = score;
+      best = angle;
+    }
+  }
+  return best;
+}
+
+/**
+ * Loads and normalises a photo. `createImageBitmap` with
+ * `imageOrientation: 'from-image'` applies the camera EXIF orientation.
+ */
+export async function preprocessImage(file: File, options: PreprocessOptions = {}): Promise<PreprocessResult> {
+  const { rotation = 0, maxEdge = DEFAULT_MAX_EDGE, deskew = true } = options;
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    let canvas = rotate(bitmap, rotation % 360, scale);
+    toGreyscale(canvas);
+
+    let skewAngle = 0;
+    if (deskew) {
+      skewAngle = estimateSkew(canvas);
+      if (skewAngle !== 0) {
+        const straightened = rotate(canvas, -skewAngle);
+        canvas.width = canvas.height = 0;
+        canvas = straightened;
+      }
+    }
+    return { canvas, skewAngle, scale };
+  } finally {
+    bitmap.close();
+  }
+}
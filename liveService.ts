@@ -0,0 +1,102 @@
+import { VoterRecord } from './types';
+import { PresenceState, VoterApi, VoterChange } from './api';
+import { auditId, currentActor } from './auditService';
+
+/**
+ * Live updates between operators.
+ * One subscription to the active store feeds every open view. Changes are
+ * collected for a moment and delivered together, so a bulk ingest by someone
+ * else refreshes counts and tables a few times rather than once per row.
+ * Presence tells operators who else is working and what they are ingesting.
+ */
+
+type ChangeListener = (changes: VoterChange[]) => void;
+
+// Changes within this window are delivered as one batch
+const FLUSH_MS = 1000;
+
+const listeners = new Set<ChangeListener>();
+// Latest change per EPIC since the last flush
+const pending = new Map<string, VoterChange>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+let unwatch: (() => void) | null = null;
+
+const flush = () => {
+  timer = null;
+  const changes = [...pending.values()];
+  pending.clear();
+  if (changes.length > 0) listeners.forEach(listener => listener(changes));
+};
+
+const queue = (changes: VoterChange[]) => {
+  changes.forEach(change => pending.set(change.epicNo, change));
+  timer ??= setTimeout(flush, FLUSH_MS);
+};
+
+/** Subscribes to the API's current store; call again whenever it switches between vault and replica. */
+export function startLive() {
+  stopLive();
+  unwatch = VoterApi.watchVoters(queue);
+}
+
+export function stopLive() {
+  if (unwatch) unwatch();
+  unwatch = null;
+  if (timer) clearTimeout(timer);
+  timer = null;
+  pending.clear();
+}
+
+/** Calls `listener` with each batch of voter changes; returns an unsubscribe function. */
+export function onVoterChanges(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Fresh copies of the shown voters that `changes` touched: null for those
+ * removed (or gone by the time they are read back). Untouched ones are left out.
+ */
+export async function refetchChanged(shown: string[], changes: VoterChange[]): Promise<Map<string, VoterRecord | null>> {
+  const visible = new Set(shown);
+  const touched = changes.filter(c => visible.has(c.epicNo));
+  const updates = new Map<string, VoterRecord | null>(touched.map(c => [c.epicNo, null]));
+  const reread = touched.filter(c => !c.removed).map(c => c.epicNo);
+  if (reread.length > 0) (await VoterApi.getByEpicNos(reread)).forEach(v => updates.set(v.epicNo, v));
+  return updates;
+}
+
+/** Applies `refetchChanged` results to a list, dropping removed voters. */
+export const patchVoters = (rows: VoterRecord[], updates: Map<string, VoterRecord | null>): VoterRecord[] =>
+  rows.flatMap(row => {
+    if (!updates.has(row.epicNo)) return [row];
+    const fresh = updates.get(row.epicNo);
+    return fresh ? [fresh] : [];
+  });
+
+let presence: { state: PresenceState; leave: () => void; update: (state: PresenceState) => void } | null = null;
+let activity: Pick<PresenceState, 'activity' | 'detail'> = { activity: 'BROWSING' };
+
+/** Announces this session; `onSync` receives the other sessions. Returns a leave function. */
+export function joinPresence(onSync: (others: PresenceState[]) => void): () => void {
+  leavePresence();
+  const state: PresenceState = { sessionId: auditId(), actor: currentActor(), ...activity, since: new Date().toISOString() };
+  const handle = VoterApi.joinPresence(state, present => onSync(present.filter(p => p.sessionId !== state.sessionId)));
+  presence = { state, ...handle };
+  return leavePresence;
+}
+
+export function leavePresence() {
+  if (presence) presence.leave();
+  presence = null;
+}
+
+/** Tells the other operators what this session is doing; kept across re-joins. */
+export function setActivity(next: PresenceState['activity'], detail?: string) {
+  activity = { activity: next, detail };
+  if (!presence) return;
+  presence.state = { ...presence.state, ...activity, since: new Date().toISOString() };
+  presence.update(presence.state);
+}
@@ -0,0 +1,212 @@
+import { VoterRecord } from './types';
+import { coerceGender } from './validationService';
+import { normalizeDigits } from './rollParser';
+
+/**
+ * Spreadsheet column mapping.
+ * Turns arbitrary sheet headers into VoterRecord fields and remembers
+ * operator-confirmed layouts as named profiles keyed by header signature.
+ */
+
+export type MappableField =
+  | 'epicNo'
+  | 'name'
+  | 'age'
+  | 'gender'
+  | 'parentSpouseName'
+  | 'serialNo'
+  | 'partNo'
+  | 'partName'
+  | 'assemblyConstituency'
+  | 'parliamentaryConstituency'
+  | 'district'
+  | 'state'
+  | 'pollingStationName'
+  | 'pollingStationAddress';
+
+/** Field -> sheet header. Unmapped fields are simply absent. */
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  signature: string;
+  mapping: ColumnMapping;
+  createdAt: string;
+}
+
+export interface MappableFieldDef {
+  key: MappableField;
+  label: string;
+  required?: boolean;
+  hints: string[];
+}
+
+export const MAPPABLE_FIELDS: MappableFieldDef[] = [
+  { key: 'epicNo', label: 'EPIC No', required: true, hints: ['ओळखपत्र', 'EPIC', 'EPIC NO', 'ID CARD', 'VOTER ID', 'CARD NO'] },
+  { key: 'name', label: 'Voter Name', required: true, hints: ['नाव', 'मतदाराचे नाव', 'NAME', 'VOTER NAME', 'FULL NAME'] },
+  { key: 'age', label: 'Age', hints: ['वय', 'AGE', 'VOTER AGE'] },
+  { key: 'gender', label: 'Gender', hints: ['लिंग', 'GENDER', 'SEX'] },
+  { key: 'parentSpouseName', label: 'Parent / Spouse', hints: ['नातेवाईक', 'नातेवाईकाचे नाव', 'FATHER', 'SPOUSE', 'GUARDIAN', 'PARENT', 'RELATIVE NAME'] },
+  { key: 'serialNo', label: 'Serial No', hints: ['अनुक्रमांक', 'SR NO', 'SERIAL', 'SERIAL NO', 'PART SR'] },
+  { key: 'partNo', label: 'Part No', hints: ['बूथ नं.', 'भाग क्रमांक', 'PART NO', 'PART NUMBER', 'BOOTH NO', 'BOOTH'] },
+  { key: 'partName', label: 'Part Name', hints: ['भाग/अनुभ', 'भाग नाव', 'PART NAME', 'SECTION NAME'] },
+  { key: 'assemblyConstituency', label: 'Assembly Constituency', hints: ['विधानसभा', 'AC', 'AC NAME', 'ASSEMBLY', 'ASSEMBLY CONSTITUENCY'] },
+  { key: 'parliamentaryConstituency', label: 'Parliamentary Constituency', hints: ['लोकसभा', 'PC', 'PC NAME', 'PARLIAMENTARY', 'PARLIAMENTARY CONSTITUENCY'] },
+  { key: 'district', label: 'District', hints: ['जिल्हा', 'DISTRICT'] },
+  { key: 'state', label: 'State', hints: ['राज्य', 'STATE'] },
+  { key: 'pollingStationName', label: 'Polling Station', hints: ['केंद्र', 'मतदान केंद्र', 'STATION', 'POLLING STATION'] },
+  { key: 'pollingStationAddress', label: 'Station Address', hints: ['पत्ता', 'ADDRESS', 'STATION ADDRESS'] }
+];
+
+const PROFILE_STORAGE_KEY = 'vis_mapping_profiles';
+
+const normalizeHeader = (header: string): string =>
+  header.toString().trim().toLowerCase().replace(/[\s_\-.:/()]+/g, ' ').trim();
+
+const headerWords = (header: string): string[] => normalizeHeader(header).split(' ').filter(Boolean);
+
+/**
+ * Order-independent fingerprint of a sheet layout. Two files with the same
+ * set of headers share a signature and therefore a saved profile.
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return [...new Set(headers.map(normalizeHeader).filter(Boolean))].sort().join('|');
+}
+
+/**
+ * Scores how well a header matches a hint: an exact match always wins over
+ * a whole-word match, so "Part Name" is claimed by partName before name.
+ */
+function scoreHeader(header: string, hint: string): number {
+  const h = normalizeHeader(header);
+  const n = normalizeHeader(hint);
+  if (!h || !n) return 0;
+  if (h === n) return 100;
+
+  const hw = headerWords(header);
+  const nw = headerWords(hint);
+  for (let i = 0; i + nw.length <= hw.length; i++) {
+    if (nw.every((w, j) => hw[i + j] === w)) {
+      // Reward hints that cover more of the header
+      return 50 + Math.round((nw.length / hw.length) * 40);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Best-effort initial mapping. Candidates are assigned greedily by score so
+ * each header is used for at most one field.
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const candidates: { field: MappableField; header: string; score: number }[] = [];
+  for (const def of MAPPABLE_FIELDS) {
+    for (const header of headers) {
+      const score = Math.max(...def.hints.map(hint => scoreHeader(header, hint)));
+      if (score > 0) candidates.push({ field: def.key, header, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = {};
+  const usedHeaders = new Set<string>();
+  for (const c of candidates) {
+    if (mapping[c.field] || usedHeaders.has(c.header)) continue;
+    mapping[c.field] = c.header;
+    usedHeaders.add(c.header);
+  }
+  return mapping;
+}
+
+export function loadMappingProfiles(): MappingProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILE_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as MappingProfile[]) : [];
+  } catch (e) {
+    console.error('Failed to read mapping profiles', e);
+    return [];
+  }
+}
+
+function writeMappingProfiles(profiles: MappingProfile[]) {
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Saves a mapping under a name. A profile with the same signature is
+ * replaced so a layout always resolves to a single mapping.
+ */
+export function saveMappingProfile(name: string, headers: string[], mapping: ColumnMapping): MappingProfile {
+  const signature = getHeaderSignature(headers);
+  const profile: MappingProfile = {
+    id: `MAP-${Date.now().toString(36).toUpperCase()}`,
+    name: name.trim(),
+    signature,
+    mapping,
+    createdAt: new Date().toISOString()
+  };
+  writeMappingProfiles([...loadMappingProfiles().filter(p => p.signature !== signature), profile]);
+  return profile;
+}
+
+export function deleteMappingProfile(id: string) {
+  writeMappingProfiles(loadMappingProfiles().filter(p => p.id !== id));
+}
+
+export function findProfileForHeaders(headers: string[]): MappingProfile | undefined {
+  const signature = getHeaderSignature(headers);
+  return loadMappingProfiles().find(p => p.signature === signature);
+}
+
+/**
+ * Keeps only the entries of a profile mapping whose headers exist in the
+ * current sheet, so a profile picked manually never points at a missing column.
+ */
+export function adaptMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+  const available = new Set(headers);
+  const adapted: ColumnMapping = {};
+  (Object.keys(mapping) as MappableField[]).forEach(field => {
+    const header = mapping[field];
+    if (header && available.has(header)) adapted[field] = header;
+  });
+  return adapted;
+}
+
+const cell = (row: Record<string, unknown>, mapping: ColumnMapping, field: MappableField): string => {
+  const header = mapping[field];
+  if (!header) return '';
+  const value = row[header];
+  return value === undefined || value === null ? '' : value.toString().trim();
+};
+
+/**
+ * Converts sheet rows into VoterRecords using a confirmed mapping.
+ * Missing values stay empty so validation can report them; nothing is
+ * invented here.
+ */
+export function applyMapping(rows: Record<string, unknown>[], mapping: ColumnMapping): VoterRecord[] {
+  return rows.map(row => {
+    const get = (field: MappableField) => cell(row, mapping, field);
+
+    return {
+      epicNo: get('epicNo').toUpperCase().replace(/\s+/g, ''),
+      name: get('name'),
+      age: parseInt(normalizeDigits(get('age'))) || 0,
+      gender: coerceGender(get('gender')),
+      parentSpouseName: get('parentSpouseName'),
+      assemblyConstituency: get('assemblyConstituency'),
+      parliamentaryConstituency: get('parliamentaryConstituency'),
+      district: get('district'),
+      state: get('state'),
+      partNo: get('partNo'),
+      partName: get('partName'),
+      serialNo: get('serialNo'),
+      pollingStation: {
+        name: get('pollingStationName'),
+        address: get('pollingStationAddress')
+      },
+      lastUpdated: new Date().toISOString()
+    };
+  });
+}
@@ -1,14 +1,17 @@
-
 import { createWorker } from 'tesseract.js';
 import { VoterRecord } from './types';
+import { PageMeta, ParsedRollPage, cellsToVoters, fromTesseractWords, parseRollPage } from './rollParser';
+
+/** Recorded in the provenance of OCR-extracted records. */
+export const OCR_MODEL = 'tesseract.js 5 (eng+mar)';
 
 /**
- * Legacy OCR function. Primarily replaced by Excel/Sheet processing.
+ * OCRs an image-only roll page and runs the layout parser on the word boxes.
  */
-export async function extractVotersOffline(
-  imageSource: string | HTMLCanvasElement, 
+export async function ocrRollPage(
+  imageSource: string | HTMLCanvasElement,
   onProgress?: (progress: number) => void
-): Promise<VoterRecord[]> {
+): Promise<ParsedRollPage> {
   const worker = await createWorker('eng+mar', 1, {
     logger: m => {
       if (m.status === 'recognizing text' && onProgress) {
@@ -17,44 +20,22 @@ export async function extractVotersOffline(
     }
   });
 
-  const { data: { text } } = await worker.recognize(imageSource);
-  await worker.terminate();
-
-  return parseVoterText(text);
+  try {
+    const { data } = await worker.recognize(imageSource);
+    return parseRollPage(fromTesseractWords(data.words));
+  } finally {
+    await worker.terminate();
+  }
 }
 
-function parseVoterText(text: string): VoterRecord[] {
-  const lines = text.split('\n');
-  const voters: VoterRecord[] = [];
-  const epicRegex = /[A-Z]{3}[0-9]{7}/;
-  
-  lines.forEach((line, index) => {
-    const epicMatch = line.match(epicRegex);
-    if (epicMatch) {
-      const epicNo = epicMatch[0];
-      const serialMatch = line.match(/(\d+)/);
-      const nameLine = lines[index + 1] || '';
-      const parentLine = lines[index + 2] || '';
-
-      // Fix: Removed 'id' property as it does not exist on VoterRecord type (line 40)
-      voters.push({
-        epicNo: epicNo,
-        name: nameLine.replace(/[0-9]/g, '').trim() || 'Extracted Name',
-        age: parseInt(line.match(/Age:\s*(\d+)/i)?.[1] || '0') || 25,
-        gender: line.toLowerCase().includes('female') ? 'F' : 'M',
-        parentSpouseName: parentLine.trim() || 'Unknown Parent',
-        assemblyConstituency: '',
-        parliamentaryConstituency: '',
-        district: '',
-        state: '',
-        partNo: '',
-        partName: '',
-        serialNo: serialMatch ? serialMatch[1] : '0',
-        pollingStation: { name: '', address: '' },
-        lastUpdated: new Date().toISOString()
-      });
-    }
-  });
-
-  return voters;
+/**
+ * Offline OCR for image-only roll pages (scanned PDFs rendered to canvas).
+ */
+export async function extractVotersOffline(
+  imageSource: string | HTMLCanvasElement,
+  onProgress?: (progress: number) => void,
+  carriedMeta?: PageMeta
+): Promise<VoterRecord[]> {
+  const page = await ocrRollPage(imageSource, onProgress);
+  return cellsToVoters(page, carriedMeta);
 }
@@ -0,0 +1,107 @@
+import { ExtractionMethod, VoterRecord } from './types';
+import { idbRequest, openDb, withStore } from './idb';
+import { sha256Hex } from './hash';
+
+/**
+ * Resumable PDF ingestion jobs.
+ * A job is keyed by the SHA-256 of the file, so re-selecting the same roll
+ * picks up its checkpoints. Every page that succeeds is persisted and never
+ * sent to the extraction engine again.
+ */
+
+export type PdfJobStatus = 'RUNNING' | 'PAUSED' | 'COMPLETED';
+
+export interface PdfJob {
+  id: string;
+  fileName: string;
+  numPages: number;
+  file: Blob;
+  status: PdfJobStatus;
+  pausedReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PageCheckpoint {
+  jobId: string;
+  pageNo: number;
+  status: 'DONE' | 'FAILED';
+  voters: VoterRecord[];
+  method?: ExtractionMethod;
+  model?: string;
+  /** Per-record OCR confidence, parallel to `voters` */
+  signals?: (number | undefined)[];
+  error?: string;
+  completedAt: string;
+}
+
+const DB_NAME = 'vis_ingestion';
+const DB_VERSION = 1;
+const JOBS = 'pdf_jobs';
+const PAGES = 'pdf_pages';
+
+const getDb = () => openDb(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(JOBS)) {
+    db.createObjectStore(JOBS, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(PAGES)) {
+    const pages = db.createObjectStore(PAGES, { keyPath: ['jobId', 'pageNo'] });
+    pages.createIndex('jobId', 'jobId');
+  }
+});
+
+/**
+ * Returns the existing job for this file or registers a new one.
+ */
+export async function openPdfJob(file: File, data: ArrayBuffer, numPages: number): Promise<PdfJob> {
+  const id = await sha256Hex(data);
+  const db = await getDb();
+  const existing = await withStore(db, JOBS, 'readonly', tx => idbRequest(tx.objectStore(JOBS).get(id))) as PdfJob | undefined;
+  const now = new Date().toISOString();
+
+  const job: PdfJob = existing
+    ? { ...existing, status: 'RUNNING', pausedReason: undefined, updatedAt: now }
+    : { id, fileName: file.name, numPages, file, status: 'RUNNING', createdAt: now, updatedAt: now };
+  await savePdfJob(job);
+  return job;
+}
+
+export async function savePdfJob(job: PdfJob): Promise<void> {
+  const db = await getDb();
+  await withStore(db, JOBS, 'readwrite', tx => idbRequest(tx.objectStore(JOBS).put({ ...job, updatedAt: new Date().toISOString() })));
+}
+
+export async function getPageCheckpoints(jobId: string): Promise<Map<number, PageCheckpoint>> {
+  const db = await getDb();
+  const rows = await withStore(db, PAGES, 'readonly', tx =>
+    idbRequest(tx.objectStore(PAGES).index('jobId').getAll(jobId))
+  ) as PageCheckpoint[];
+  return new Map(rows.map(r => [r.pageNo, r]));
+}
+
+export async function savePageCheckpoint(checkpoint: PageCheckpoint): Promise<void> {
+  const db = await getDb();
+  await withStore(db, PAGES, 'readwrite', tx => idbRequest(tx.objectStore(PAGES).put(checkpoint)));
+}
+
+/**
+ * Jobs that were paused or interrupted (a RUNNING job found at start-up
+ * means the tab was closed or crashed mid-run).
+ */
+export async function listUnfinishedJobs(): Promise<PdfJob[]> {
+  const db = await getDb();
+  const jobs = await withStore(db, JOBS, 'readonly', tx => idbRequest(tx.objectStore(JOBS).getAll())) as PdfJob[];
+  return jobs
+    .filter(j => j.status !== 'COMPLETED')
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function deletePdfJob(jobId: string): Promise<void> {
+  const db = await getDb();
+  await withStore(db, [JOBS, PAGES], 'readwrite', async tx => {
+    tx.objectStore(JOBS).delete(jobId);
+    const pages = tx.objectStore(PAGES);
+    const keys = await idbRequest(pages.index('jobId').getAllKeys(jobId));
+    keys.forEach(key => pages.delete(key));
+  });
+}
@@ -0,0 +1,46 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextContent } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * Page-level helpers shared by the PDF ingestion paths.
+ */
+
+// Fewer characters than this means the page is a scan with no usable text layer
+const MIN_TEXT_LAYER_CHARS = 40;
+
+export function textFromContent(content: TextContent): string {
+  return content.items.map((item: any) => item.str ?? '').join(' ');
+}
+
+export function hasTextLayer(content: TextContent): boolean {
+  return textFromContent(content).replace(/\s+/g, '').length >= MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Rasterises a page for OCR / vision extraction. Scale 2 keeps small
+ * Devanagari glyphs legible for Tesseract without blowing up memory.
+ */
+export async function renderPageToCanvas(page: PDFPageProxy, scale = 2): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  return canvas;
+}
+
+export function canvasToBase64(canvas: HTMLCanvasElement, mimeType = 'image/jpeg'): { base64: string; mimeType: string } {
+  const dataUrl = canvas.toDataURL(mimeType, 0.85);
+  return { base64: dataUrl.split(',')[1], mimeType };
+}
+
+/** Frees the canvas backing store right away instead of waiting for GC. */
+export function releaseCanvas(canvas: HTMLCanvasElement) {
+  canvas.width = 0;
+  canvas.height = 0;
+}
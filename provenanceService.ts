@@ -0,0 +1,70 @@
+import { Provenance, ProvenanceMethod } from './types';
+import { SourceRef, ValidationIssue } from './validationService';
+
+/**
+ * Record provenance and extraction confidence.
+ * Confidence starts from how reliable the extraction method is (or the OCR
+ * engine's own word confidence when it has one) and is reduced for every
+ * validation issue the record still carries.
+ */
+
+export interface RecordOrigin {
+  method: ProvenanceMethod;
+  fileHash?: string;
+  model?: string;
+  /** Engine-reported confidence (0–1) for this record, e.g. mean OCR word confidence. */
+  signal?: number;
+}
+
+export const METHOD_CONFIDENCE: Record<ProvenanceMethod, number> = {
+  EXCEL_MAPPING: 0.98,
+  LAYOUT_PARSER: 0.95,
+  GEMINI_TEXT: 0.85,
+  GEMINI_VISION: 0.75,
+  TESSERACT_OCR: 0.7,
+  MANUAL: 1,
+  BACKUP_RESTORE: 0.9
+};
+
+export const PROVENANCE_LABELS: Record<ProvenanceMethod, string> = {
+  EXCEL_MAPPING: 'Sheet Mapping',
+  LAYOUT_PARSER: 'Layout Parser',
+  GEMINI_TEXT: 'Gemini Text',
+  GEMINI_VISION: 'Gemini Vision',
+  TESSERACT_OCR: 'Tesseract OCR',
+  MANUAL: 'Manual Entry',
+  BACKUP_RESTORE: 'Backup Restore'
+};
+
+/** Records below this are listed by the vault's low-confidence filter. */
+export const LOW_CONFIDENCE = 0.6;
+
+const ERROR_PENALTY = 0.3;
+const WARNING_PENALTY = 0.08;
+
+export function scoreConfidence(origin: RecordOrigin, issues: ValidationIssue[]): number {
+  const base = origin.signal ?? METHOD_CONFIDENCE[origin.method];
+  const penalty = issues.reduce((sum, i) => sum + (i.severity === 'ERROR' ? ERROR_PENALTY : WARNING_PENALTY), 0);
+  return Math.round(Math.max(0, Math.min(1, base - penalty)) * 100) / 100;
+}
+
+export function buildProvenance(source: SourceRef, origin: RecordOrigin, issues: ValidationIssue[]): Provenance {
+  return {
+    ...source,
+    method: origin.method,
+    fileHash: origin.fileHash,
+    model: origin.model,
+    extractedAt: new Date().toISOString(),
+    confidence: scoreConfidence(origin, issues)
+  };
+}
+
+/**
+ * Re-scores after an operator edit. The operator has looked at the row, so
+ * the method's prior no longer applies; only remaining issues count.
+ */
+export function rescoreProvenance(provenance: Provenance, issues: ValidationIssue[]): Provenance {
+  return { ...provenance, confidence: scoreConfidence({ method: 'MANUAL' }, issues) };
+}
+
+export const isLowConfidence = (provenance?: Provenance) => !!provenance && provenance.confidence < LOW_CONFIDENCE;
@@ -0,0 +1,34 @@
+import { DeletionMark } from './storage';
+import { auditId, currentActor } from './auditService';
+
+/**
+ * Soft delete and the recycle bin.
+ * Deleting only marks rows; they stay restorable for RETENTION_DAYS and are
+ * removed for good by a purge after that.
+ */
+
+export const RETENTION_DAYS = 30;
+export const DEFAULT_DELETE_REASON = 'Removed from roll';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function deletionMark(reason: string): DeletionMark {
+  return {
+    deletedAt: new Date().toISOString(),
+    deletedReason: reason.trim() || DEFAULT_DELETE_REASON,
+    deletedBy: currentActor(),
+    deletionId: auditId()
+  };
+}
+
+/** Rows deleted before this are past retention. */
+export const purgeCutoff = (now = Date.now()) => new Date(now - RETENTION_DAYS * DAY_MS).toISOString();
+
+export const daysUntilPurge = (deletedAt: string, now = Date.now()) =>
+  Math.max(0, Math.ceil((Date.parse(deletedAt) + RETENTION_DAYS * DAY_MS - now) / DAY_MS));
+
+/** Asks for a deletion reason; null when the operator cancels. */
+export function askDeleteReason(label: string): string | null {
+  const reason = prompt(`Reason for removing ${label}? It can be restored from the Recycle Bin for ${RETENTION_DAYS} days.`, DEFAULT_DELETE_REASON);
+  return reason === null ? null : reason.trim() || DEFAULT_DELETE_REASON;
+}
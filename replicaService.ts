@@ -0,0 +1,210 @@
+import { VoterRecord } from './types';
+import { PageCursor, VoterApi, isOffline, setOfflineReplica } from './api';
+import { auditId, currentActor } from './auditService';
+import { throwIfFailed } from './bulkWriteService';
+import { deletionMark } from './recycleService';
+import { idbRequest, openDb, withStore } from './idb';
+import { LocalTable, VoterRow, VoterStore, createIndexedDbStore, createIndexedDbTable } from './storage';
+import { AUDIT_STORE, DUPLICATES_STORE, GEO_STORE, VERSIONS_STORE, VOTERS_STORE, openVaultDb } from './storage/localStore';
+
+/**
+ * Offline replica for booth helpdesks.
+ * The parts a desk is assigned are copied into a separate IndexedDB vault.
+ * When the connection drops the API switches to it: search and slips work
+ * as usual, and edits are applied locally and queued in an outbox. Once the
+ * connection returns the outbox is replayed in order. A change whose vault
+ * copy moved on in the meantime (its `lastUpdated` no longer matches the one
+ * the edit was based on) is held back as a conflict for the operator.
+ */
+
+export type OutboxChange =
+  | { kind: 'SAVE'; epicNo: string; record: VoterRecord; source: string; base: string | null }
+  | { kind: 'DELETE'; epicNo: string; reason: string; source: string; base: string | null };
+
+export interface OutboxConflict {
+  /** The vault copy when the sync found it; null when it is gone */
+  vault: VoterRecord | null;
+  detectedAt: string;
+}
+
+export type OutboxEntry = OutboxChange & {
+  /** Time-ordered, so sorting by id replays changes in the order they were made */
+  id: string;
+  queuedAt: string;
+  actor: string;
+  conflict?: OutboxConflict;
+};
+
+export interface ReplicaInfo {
+  partNos: string[];
+  count: number;
+  downloadedAt: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  /** Set when the sync stopped early; the remaining changes stay queued */
+  error?: string;
+}
+
+/** Storage behind the replica; swappable for tests. */
+export interface Replica {
+  store: VoterStore;
+  outbox: LocalTable<OutboxEntry>;
+  info: LocalTable<ReplicaInfo & { id: string }>;
+  /** Empties the replicated vault (not the outbox) */
+  clear(): Promise<void>;
+}
+
+const REPLICA_DB = 'vis_replica';
+const OUTBOX_DB = 'vis_outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const INFO_STORE = 'replica_info';
+const INFO_KEY = 'replica';
+// Rows fetched per request while downloading
+const DOWNLOAD_PAGE = 1000;
+
+const openOutbox = () => openDb(OUTBOX_DB, OUTBOX_DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+  if (!db.objectStoreNames.contains(INFO_STORE)) db.createObjectStore(INFO_STORE, { keyPath: 'id' });
+});
+
+function createIndexedDbReplica(): Replica {
+  return {
+    store: createIndexedDbStore(REPLICA_DB),
+    outbox: createIndexedDbTable<OutboxEntry>(OUTBOX_STORE, openOutbox),
+    info: createIndexedDbTable<ReplicaInfo & { id: string }>(INFO_STORE, openOutbox),
+    clear: async () => {
+      const stores = [VOTERS_STORE, DUPLICATES_STORE, AUDIT_STORE, VERSIONS_STORE, GEO_STORE];
+      const db = await openVaultDb(REPLICA_DB);
+      await withStore(db, stores, 'readwrite', tx => Promise.all(stores.map(name => idbRequest(tx.objectStore(name).clear()))));
+    }
+  };
+}
+
+let replica: Replica = createIndexedDbReplica();
+
+/** Swaps the replica's storage, e.g. for in-memory tables in tests. */
+export function setReplica(next: Replica) {
+  replica = next;
+}
+
+export async function getReplicaInfo(): Promise<ReplicaInfo | null> {
+  const info = await replica.info.get(INFO_KEY);
+  return info ? { partNos: info.partNos, count: info.count, downloadedAt: info.downloadedAt } : null;
+}
+
+// Postgres returns timestamptz as `+00:00` with trailing zeros trimmed, so compare instants rather than text
+const sameInstant = (a: string | null, b: string | null) =>
+  a === b || (a !== null && b !== null && Date.parse(a) === Date.parse(b));
+
+const byQueueOrder = (a: OutboxEntry, b: OutboxEntry) => a.id.localeCompare(b.id);
+
+export const listOutbox = async (): Promise<OutboxEntry[]> => (await replica.outbox.getAll()).sort(byQueueOrder);
+
+/**
+ * Replaces the replica with the current vault copy of `partNos`.
+ * Refused while changes are queued, since they would be lost.
+ */
+export async function downloadReplica(partNos: string[]): Promise<ReplicaInfo> {
+  if (isOffline()) throw new Error('Connect to the vault to download a replica.');
+  const wanted = [...new Set(partNos.map(p => p.trim()).filter(Boolean))];
+  if (wanted.length === 0) throw new Error('Enter at least one part number.');
+  if ((await replica.outbox.getAll()).length > 0) throw new Error('Sync or discard the queued changes first.');
+
+  await replica.clear();
+  await replica.store.saveGeoUnits(await VoterApi.getGeography());
+  let count = 0;
+  for (const partNo of wanted) {
+    let after: PageCursor | null = null;
+    do {
+      const page = await VoterApi.getVoterPage({ sort: { field: 'epicNo', direction: 'asc' }, limit: DOWNLOAD_PAGE, after, filter: { partNo } });
+      // Adapters return stored rows, derived columns included, so they are copied as-is
+      await replica.store.upsertVoters(page.rows as VoterRow[]);
+      count += page.rows.length;
+      after = page.nextCursor;
+    } while (after);
+  }
+
+  const info: ReplicaInfo = { partNos: wanted, count, downloadedAt: new Date().toISOString() };
+  await replica.info.putMany([{ id: INFO_KEY, ...info }]);
+  return info;
+}
+
+/** Switches the API to the replica. False when none has been downloaded. */
+export async function goOffline(): Promise<boolean> {
+  if (!(await getReplicaInfo())) return false;
+  setOfflineReplica(replica.store, async change => {
+    await replica.outbox.putMany([{ ...change, id: auditId(), queuedAt: new Date().toISOString(), actor: currentActor() }]);
+  });
+  return true;
+}
+
+export function goOnline() {
+  setOfflineReplica(null);
+}
+
+/**
+ * Replays queued changes against the vault, oldest first. Conflicting changes,
+ * and any later change to the same EPIC, stay queued. Stops at the first error.
+ */
+export async function syncOutbox(): Promise<SyncResult> {
+  if (isOffline()) throw new Error('Still offline; changes sync once the vault is reachable.');
+  const result: SyncResult = { synced: 0, conflicts: 0 };
+  const held = new Set<string>();
+
+  for (const entry of await listOutbox()) {
+    if (entry.conflict || held.has(entry.epicNo)) {
+      if (entry.conflict) result.conflicts++;
+      held.add(entry.epicNo);
+      continue;
+    }
+    try {
+      const [current] = await VoterApi.getByEpicNos([entry.epicNo]);
+      if (entry.kind === 'DELETE' && !current) {
+        // Already removed from the vault; nothing left to do
+      } else if (!sameInstant(current?.lastUpdated ?? null, entry.base)) {
+        await replica.outbox.putMany([{ ...entry, conflict: { vault: current ?? null, detectedAt: new Date().toISOString() } }]);
+        result.conflicts++;
+        held.add(entry.epicNo);
+        continue;
+      } else if (entry.kind === 'SAVE') {
+        throwIfFailed(await VoterApi.bulkCreate([entry.record], `OFFLINE: ${entry.source}`));
+      } else {
+        await VoterApi.deleteVoter(entry.epicNo, entry.reason, `OFFLINE: ${entry.source}`);
+      }
+      await replica.outbox.delete(entry.id);
+      result.synced++;
+    } catch (e: any) {
+      return { ...result, error: `${entry.epicNo}: ${e.message}` };
+    }
+  }
+  return result;
+}
+
+/**
+ * Settles a conflict. KEEP_MINE rebases the change on the vault's current copy
+ * so the next sync applies it; KEEP_VAULT drops it and puts the vault copy back in the replica.
+ */
+export async function resolveConflict(id: string, keep: 'KEEP_MINE' | 'KEEP_VAULT'): Promise<void> {
+  const entry = await replica.outbox.get(id);
+  if (!entry?.conflict) return;
+  const { vault } = entry.conflict;
+
+  if (keep === 'KEEP_MINE') {
+    await replica.outbox.putMany([{ ...entry, base: vault?.lastUpdated ?? null, conflict: undefined }]);
+    return;
+  }
+  await replica.outbox.delete(id);
+  if (vault) await replica.store.upsertVoters([vault as VoterRow]);
+  else await replica.store.softDeleteVoters([entry.epicNo], deletionMark('Removed from the vault'));
+}
+
+/** Drops every queued change; the replica keeps the edits until it is downloaded again. */
+export async function discardOutbox(): Promise<number> {
+  const entries = await replica.outbox.getAll();
+  await Promise.all(entries.map(e => replica.outbox.delete(e.id)));
+  return entries.length;
+}
@@ -0,0 +1,335 @@
+import type { PageViewport } from 'pdfjs-dist';
+import type { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { Word } from 'tesseract.js';
+import { RelationType, VoterRecord } from './types';
+import { coerceGender } from './validationService';
+
+/**
+ * Deterministic parser for ECI electoral roll pages.
+ *
+ * A roll page is a grid of voter boxes, usually three per row. Every box
+ * starts with a line holding the serial number on the left and the EPIC on
+ * the right, followed by labelled lines (name, relative, house, age/gender)
+ * in English or Marathi. The parser works on positioned words, so the same
+ * code handles pdf.js text layers and Tesseract word boxes.
+ */
+
+/** A word with its box in top-left-origin page coordinates. */
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence?: number;
+}
+
+export interface ParsedVoterCell {
+  serialNo: string;
+  epicNo: string;
+  name: string;
+  relationType?: RelationType;
+  relationName: string;
+  houseNo: string;
+  age?: number;
+  gender?: 'M' | 'F' | 'O';
+  lines: string[];
+  /** Mean OCR word confidence (0–1); absent for PDF text layers. */
+  confidence?: number;
+}
+
+export interface PageMeta {
+  partNo?: string;
+  partName?: string;
+  assemblyConstituency?: string;
+  parliamentaryConstituency?: string;
+}
+
+export interface ParsedRollPage {
+  cells: ParsedVoterCell[];
+  meta: PageMeta;
+}
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+export function normalizeDigits(text: string): string {
+  return text.replace(/[०-९]/g, d => DEVANAGARI_DIGITS.indexOf(d).toString());
+}
+
+const EPIC_PATTERN = /^[A-Z]{3}[0-9]{7}$/;
+const LETTER_FIXES: Record<string, string> = { '0': 'O', '1': 'I', '5': 'S', '8': 'B', '2': 'Z' };
+const DIGIT_FIXES: Record<string, string> = { O: '0', D: '0', Q: '0', I: '1', L: '1', S: '5', B: '8', Z: '2', G: '6' };
+
+/**
+ * Recognises an EPIC token, repairing the usual OCR letter/digit confusions
+ * (O↔0, I↔1, S↔5, B↔8) when the token otherwise has the right shape.
+ */
+export function normalizeEpic(token: string): string | null {
+  const cleaned = normalizeDigits(token).toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (EPIC_PATTERN.test(cleaned)) return cleaned;
+  if (cleaned.length !== 10) return null;
+
+  const prefix = cleaned.slice(0, 3).split('').map(c => LETTER_FIXES[c] || c).join('');
+  const digits = cleaned.slice(3).split('').map(c => DIGIT_FIXES[c] || c).join('');
+  const repaired = prefix + digits;
+  // Require most of the tail to be genuine digits so random words are not promoted
+  const realDigits = cleaned.slice(3).replace(/[^0-9]/g, '').length;
+  return EPIC_PATTERN.test(repaired) && realDigits >= 5 ? repaired : null;
+}
+
+/** Splits a text run into words, spreading the run width by character offset. */
+function splitRun(str: string, x: number, y: number, width: number, height: number, confidence?: number): PositionedText[] {
+  const words: PositionedText[] = [];
+  const len = str.length || 1;
+  for (const match of str.matchAll(/\S+/g)) {
+    const start = match.index ?? 0;
+    words.push({
+      text: match[0],
+      x: x + width * (start / len),
+      y,
+      width: width * (match[0].length / len),
+      height,
+      confidence
+    });
+  }
+  return words;
+}
+
+export function fromPdfTextContent(content: TextContent, viewport: PageViewport): PositionedText[] {
+  const words: PositionedText[] = [];
+  for (const item of content.items) {
+    if (!('str' in item) || !item.str.trim()) continue;
+    const run = item as TextItem;
+    const height = run.height || Math.hypot(run.transform[2], run.transform[3]);
+    const [vx, vy] = viewport.convertToViewportPoint(run.transform[4], run.transform[5]);
+    const scaledHeight = height * viewport.scale;
+    words.push(...splitRun(run.str, vx, vy - scaledHeight, run.width * viewport.scale, scaledHeight));
+  }
+  return words;
+}
+
+export function fromTesseractWords(words: Word[]): PositionedText[] {
+  return words
+    .filter(w => w.text.trim())
+    .map(w => ({
+      text: w.text,
+      x: w.bbox.x0,
+      y: w.bbox.y0,
+      width: w.bbox.x1 - w.bbox.x0,
+      height: w.bbox.y1 - w.bbox.y0,
+      confidence: w.confidence / 100
+    }));
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Groups numbers into clusters separated by gaps wider than `gap`. */
+function cluster(values: number[], gap: number): number[][] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const groups: number[][] = [];
+  for (const v of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && v - last[last.length - 1] <= gap) last.push(v);
+    else groups.push([v]);
+  }
+  return groups;
+}
+
+/** Joins words into visual lines, top to bottom then left to right. */
+function toLines(words: PositionedText[], tolerance: number): string[] {
+  const sorted = [...words].sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: PositionedText[][] = [];
+  for (const w of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - w.y) <= tolerance) line.push(w);
+    else lines.push([w]);
+  }
+  return lines.map(l => l.sort((a, b) => a.x - b.x).map(w => w.text).join(' ').replace(/\s+([:：])/g, '$1').trim());
+}
+
+const SEP = '\\s*[:：\\-–]?\\s*';
+
+const RELATION_LABELS: { type: RelationType; pattern: RegExp }[] = [
+  { type: 'FATHER', pattern: new RegExp(`^(?:Father'?s?\\s*Name|वडिलांचे\\s*नाव)${SEP}(.*)$`, 'i') },
+  { type: 'HUSBAND', pattern: new RegExp(`^(?:Husband'?s?\\s*Name|पतीचे\\s*नाव)${SEP}(.*)$`, 'i') },
+  { type: 'MOTHER', pattern: new RegExp(`^(?:Mother'?s?\\s*Name|आईचे\\s*नाव)${SEP}(.*)$`, 'i') },
+  { type: 'OTHER', pattern: new RegExp(`^(?:Other'?s?\\s*Name|Guardian'?s?\\s*Name|इतर\\s*नाव)${SEP}(.*)$`, 'i') }
+];
+const NAME_LABEL = new RegExp(`^(?:Elector'?s?\\s*)?(?:Name|मतदाराचे\\s*(?:पूर्ण\\s*)?नाव|नाव)${SEP}(.*)$`, 'i');
+const HOUSE_LABEL = new RegExp(`(?:House\\s*(?:Number|No\\.?)|घर\\s*क्रमांक)${SEP}(.*)$`, 'i');
+const AGE_LABEL = new RegExp(`(?:Age|वय)${SEP}(\\d{1,3})`, 'i');
+const GENDER_LABEL = new RegExp(`(?:Gender|Sex|लिंग)${SEP}(Male|Female|Third\\s*Gender|Other|पुरुष|पु\\.?|स्त्री|स्री|महिला|इतर|तृतीयपंथी)`, 'i');
+const TRAILING_NOISE = /\s*(?:Photo\s*(?:is\s*)?(?:Not\s*)?Available|फोटो.*)$/i;
+
+function parseGender(raw: string): 'M' | 'F' | 'O' {
+  const v = raw.toLowerCase();
+  if (v.startsWith('female') || v.startsWith('स्त्री') || v.startsWith('स्री') || v.startsWith('महिला')) return 'F';
+  if (v.startsWith('male') || v.startsWith('पु')) return 'M';
+  return 'O';
+}
+
+/**
+ * Extracts the labelled fields from the text lines of a single voter box.
+ * Unlabelled lines continue whichever name field came before them.
+ */
+export function parseCell(lines: string[], epicNo: string): ParsedVoterCell {
+  const cell: ParsedVoterCell = { serialNo: '', epicNo, name: '', relationName: '', houseNo: '', lines };
+  let last: 'name' | 'relation' | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const line = normalizeDigits(rawLine).trim();
+    if (index === 0) {
+      const serial = line.match(/^(\d{1,4})\b/);
+      if (serial) cell.serialNo = serial[1];
+      return;
+    }
+
+    const relation = RELATION_LABELS.find(r => r.pattern.test(line));
+    if (relation) {
+      cell.relationType = relation.type;
+      cell.relationName = line.match(relation.pattern)![1].trim();
+      last = 'relation';
+      return;
+    }
+
+    const name = line.match(NAME_LABEL);
+    if (name) {
+      cell.name = name[1].trim();
+      last = 'name';
+      return;
+    }
+
+    const house = line.match(HOUSE_LABEL);
+    const age = line.match(AGE_LABEL);
+    const gender = line.match(GENDER_LABEL);
+    if (house) cell.houseNo = house[1].replace(TRAILING_NOISE, '').trim();
+    if (age) cell.age = parseInt(age[1]);
+    if (gender) cell.gender = parseGender(gender[1]);
+    if (house || age || gender) {
+      last = null;
+      return;
+    }
+
+    const continuation = line.replace(TRAILING_NOISE, '').trim();
+    if (!continuation) return;
+    if (last === 'name') cell.name = `${cell.name} ${continuation}`.trim();
+    else if (last === 'relation') cell.relationName = `${cell.relationName} ${continuation}`.trim();
+  });
+
+  return cell;
+}
+
+const NEXT_HEADER_LABEL = /\s+(?=Part\s*No|Section\s*No|Assembly\s*Constituency|Parliamentary\s*Constituency|भाग\s*(?:क्र|नं)|विधानसभा|लोकसभा)/i;
+
+function parseMeta(lines: string[]): PageMeta {
+  const text = normalizeDigits(lines.join('\n'));
+  // Header labels often share a line, so a value stops where the next label begins
+  const pick = (pattern: RegExp) => text.match(pattern)?.[1]?.split(NEXT_HEADER_LABEL)[0].trim();
+  return {
+    partNo: pick(/(?:Part\s*No\.?|भाग\s*(?:क्र(?:मांक)?\.?|नं\.?))\s*[:：\-]?\s*(\d+)/i),
+    partName: pick(/(?:Section\s*No\.?\s*and\s*Name|Part\s*Name|विभागाचा\s*क्रमांक\s*व\s*नाव)\s*[:：\-]?\s*(.+)/i),
+    assemblyConstituency: pick(/(?:Assembly\s*Constituency(?:\s*No\.?\s*and\s*Name)?|विधानसभा\s*मतदारसंघ(?:ाचे)?(?:\s*(?:क्रमांक|नाव)\s*व\s*(?:क्रमांक|नाव))?)\s*[:：\-]?\s*(.+)/i),
+    parliamentaryConstituency: pick(/(?:Parliamentary\s*Constituency(?:\s*No\.?\s*and\s*Name)?|लोकसभा\s*मतदारसंघ(?:ाचे)?(?:\s*(?:क्रमांक|नाव)\s*व\s*(?:क्रमांक|नाव))?)\s*[:：\-]?\s*(.+)/i)
+  };
+}
+
+/**
+ * Splits a page into voter cells anchored on EPIC numbers and parses each.
+ *
+ * Columns are found by clustering the right edges of the EPIC anchors and
+ * rows by clustering their vertical position; a word belongs to the cell
+ * whose column range and row band contain its centre.
+ */
+export function parseRollPage(words: PositionedText[]): ParsedRollPage {
+  const lineHeight = median(words.map(w => w.height)) || 10;
+
+  const anchors = words
+    .map(w => ({ word: w, epic: normalizeEpic(w.text) }))
+    .filter((a): a is { word: PositionedText; epic: string } => a.epic !== null);
+
+  if (anchors.length === 0) {
+    return { cells: [], meta: parseMeta(toLines(words, lineHeight * 0.5)) };
+  }
+
+  const pageWidth = Math.max(...words.map(w => w.x + w.width));
+  const columnEdges = cluster(anchors.map(a => a.word.x + a.word.width), pageWidth * 0.1).map(g => Math.max(...g));
+  const rowTops = cluster(anchors.map(a => a.word.y), lineHeight).map(g => Math.min(...g));
+
+  const columnOf = (x: number) => columnEdges.findIndex(edge => x <= edge + lineHeight);
+  const rowOf = (y: number) => {
+    let row = -1;
+    rowTops.forEach((top, i) => { if (y >= top - lineHeight * 0.6) row = i; });
+    return row;
+  };
+
+  const buckets = new Map<string, PositionedText[]>();
+  const outside: PositionedText[] = [];
+  for (const w of words) {
+    const col = columnOf(w.x + w.width / 2);
+    const row = rowOf(w.y + w.height / 2);
+    if (col < 0 || row < 0) {
+      outside.push(w);
+      continue;
+    }
+    const key = `${row}:${col}`;
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(w);
+  }
+
+  const cells: ParsedVoterCell[] = [];
+  rowTops.forEach((_, row) => {
+    columnEdges.forEach((_, col) => {
+      const cellWords = buckets.get(`${row}:${col}`);
+      if (!cellWords) return;
+      const anchor = anchors.find(a => cellWords.includes(a.word));
+      if (!anchor) {
+        outside.push(...cellWords);
+        return;
+      }
+      const cell = parseCell(toLines(cellWords, lineHeight * 0.5), anchor.epic);
+      const scored = cellWords.filter(w => w.confidence !== undefined);
+      if (scored.length > 0) cell.confidence = scored.reduce((sum, w) => sum + w.confidence!, 0) / scored.length;
+      cells.push(cell);
+    });
+  });
+
+  return { cells, meta: parseMeta(toLines(outside, lineHeight * 0.5)) };
+}
+
+/** Overlays newly found header values on metadata carried from earlier pages. */
+export function mergeMeta(carried: PageMeta, found: PageMeta): PageMeta {
+  return {
+    ...carried,
+    ...Object.fromEntries(Object.entries(found).filter(([, v]) => v))
+  };
+}
+
+/**
+ * Converts parsed cells into VoterRecords, filling page-level fields from
+ * the page header (or from metadata carried over from earlier pages).
+ */
+export function cellsToVoters(page: ParsedRollPage, carriedMeta: PageMeta = {}): VoterRecord[] {
+  const meta = mergeMeta(carriedMeta, page.meta);
+  return page.cells.map(cell => ({
+    epicNo: cell.epicNo,
+    name: cell.name,
+    age: cell.age ?? 0,
+    gender: cell.gender ?? coerceGender(''),
+    parentSpouseName: cell.relationName,
+    relationType: cell.relationType,
+    houseNo: cell.houseNo,
+    assemblyConstituency: meta.assemblyConstituency || '',
+    parliamentaryConstituency: meta.parliamentaryConstituency || '',
+    district: '',
+    state: '',
+    partNo: meta.partNo || '',
+    partName: meta.partName || '',
+    serialNo: cell.serialNo,
+    pollingStation: { name: '', address: '' },
+    lastUpdated: new Date().toISOString()
+  }));
+}
@@ -0,0 +1,117 @@
+import { VoterRecord } from './types';
+import { VoterApi } from './api';
+import { SourceRef, ValidationIssue, hasErrors, validateVoter } from './validationService';
+import { RecordOrigin, buildProvenance, rescoreProvenance } from './provenanceService';
+
+/**
+ * Staging area for extracted records.
+ * Nothing reaches the vault until an operator accepts it; each row is
+ * compared against the current vault copy so overwrites are visible.
+ */
+
+export type StagedStatus = 'NEW' | 'UNCHANGED' | 'MODIFIED';
+export type StagedDecision = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface StagingEntry {
+  record: VoterRecord;
+  source: SourceRef;
+  origin: RecordOrigin;
+}
+
+export interface StagedRecord {
+  id: string;
+  record: VoterRecord;
+  existing?: VoterRecord;
+  status: StagedStatus;
+  decision: StagedDecision;
+  diffs: FieldDiff[];
+  issues: ValidationIssue[];
+  source: SourceRef;
+  /** Why the last commit could not write the record; cleared by an edit */
+  writeError?: string;
+}
+
+// Part name and polling station are left out: the voter's part supplies them and
+// keeps its own, so a differing value in a re-ingested record is not stored
+const DIFF_FIELDS: { field: string; label: string; read: (v: VoterRecord) => string }[] = [
+  { field: 'name', label: 'Name', read: v => v.name },
+  { field: 'age', label: 'Age', read: v => String(v.age ?? '') },
+  { field: 'gender', label: 'Gender', read: v => v.gender },
+  { field: 'parentSpouseName', label: 'Parent/Spouse', read: v => v.parentSpouseName },
+  { field: 'relationType', label: 'Relation', read: v => v.relationType || '' },
+  { field: 'houseNo', label: 'House No', read: v => v.houseNo || '' },
+  { field: 'serialNo', label: 'Serial No', read: v => v.serialNo },
+  { field: 'partNo', label: 'Part No', read: v => v.partNo },
+  { field: 'assemblyConstituency', label: 'Assembly', read: v => v.assemblyConstituency },
+  { field: 'parliamentaryConstituency', label: 'Parliamentary', read: v => v.parliamentaryConstituency },
+  { field: 'district', label: 'District', read: v => v.district },
+  { field: 'state', label: 'State', read: v => v.state }
+];
+
+/**
+ * Field-level differences between two versions of a voter.
+ * `lastUpdated` is ignored since every extraction stamps a fresh value.
+ */
+export function diffVoters(before: VoterRecord, after: VoterRecord): FieldDiff[] {
+  return DIFF_FIELDS
+    .map(({ field, label, read }) => ({ field, label, before: (read(before) || '').trim(), after: (read(after) || '').trim() }))
+    .filter(d => d.before !== d.after);
+}
+
+const classify = (record: VoterRecord, existing?: VoterRecord) => {
+  if (!existing) return { status: 'NEW' as StagedStatus, diffs: [] };
+  const diffs = diffVoters(existing, record);
+  return { status: (diffs.length > 0 ? 'MODIFIED' : 'UNCHANGED') as StagedStatus, diffs };
+};
+
+let stagingSeq = 0;
+
+/** Rows with validation errors cannot be accepted until they are fixed. */
+export const canAccept = (item: StagedRecord) => !hasErrors(item.issues);
+
+/**
+ * Validates each record, stamps its provenance, looks up its vault copy and
+ * wraps it for review.
+ */
+export async function stageRecords(entries: StagingEntry[]): Promise<StagedRecord[]> {
+  const existing = await VoterApi.getByEpicNos(entries.map(e => e.record.epicNo));
+  const byEpic = new Map(existing.map(v => [v.epicNo, v]));
+
+  return entries.map(({ record, source, origin }) => {
+    const current = byEpic.get(record.epicNo);
+    const issues = validateVoter(record);
+    const stamped = { ...record, provenance: buildProvenance(source, origin, issues) };
+    return {
+      id: `STG-${++stagingSeq}`,
+      record: stamped,
+      existing: current,
+      decision: 'PENDING',
+      source,
+      issues,
+      ...classify(stamped, current)
+    };
+  });
+}
+
+/**
+ * Re-stages an operator edit. The vault copy is fetched again when the EPIC
+ * itself was corrected, since the row may now target a different voter.
+ */
+export async function restageRecord(staged: StagedRecord, record: VoterRecord): Promise<StagedRecord> {
+  let existing = staged.existing;
+  if (record.epicNo !== staged.record.epicNo) {
+    [existing] = await VoterApi.getByEpicNos([record.epicNo]);
+  }
+  const issues = validateVoter(record);
+  const decision = hasErrors(issues) && staged.decision === 'ACCEPTED' ? 'PENDING' : staged.decision;
+  const provenance = staged.record.provenance && rescoreProvenance(staged.record.provenance, issues);
+  const restaged = { ...record, provenance };
+  return { ...staged, record: restaged, existing, issues, decision, writeError: undefined, ...classify(restaged, existing) };
+}
@@ -0,0 +1,58 @@
+import { createSupabaseStore } from './supabaseStore';
+import { createIndexedDbStore, createMemoryStore } from './localStore';
+import { createSupabaseAuth } from './supabaseAuth';
+import { createIndexedDbAuth, createMemoryAuth } from './localAuth';
+import { AuthStore } from '../authService';
+import { StorageBackend, VoterStore } from './types';
+
+export type { DeletedPage, DeletedVoter, DeletionMark, FuzzyCandidateRequest, PageCursor, PresenceHandle, PresenceState, RestoreTarget, StorageBackend, StoreError, VoterChange, VoterListFilter, VoterPage, VoterPageRequest, VoterRow, VoterSort, VoterSortField, VoterStore } from './types';
+export { NO_DELETION, isTransient } from './types';
+export { createSupabaseStore } from './supabaseStore';
+export { createIndexedDbStore, createIndexedDbTable, createMemoryStore, createMemoryTable } from './localStore';
+export type { LocalTable } from './localStore';
+export { createSupabaseAuth } from './supabaseAuth';
+export { createIndexedDbAuth, createMemoryAuth } from './localAuth';
+
+interface StorageEnv {
+  VITE_STORAGE_BACKEND?: string;
+  VITE_SUPABASE_URL?: string;
+  VITE_SUPABASE_ANON_KEY?: string;
+}
+
+const BACKENDS: StorageBackend[] = ['supabase', 'indexeddb', 'memory'];
+
+/**
+ * `VITE_STORAGE_BACKEND` wins when set; otherwise Supabase is used when it
+ * is configured and the browser's IndexedDB when it is not.
+ */
+export function resolveBackend(env: StorageEnv): StorageBackend {
+  const requested = env.VITE_STORAGE_BACKEND?.trim().toLowerCase() as StorageBackend | undefined;
+  if (requested) {
+    if (BACKENDS.includes(requested)) return requested;
+    console.warn(`Unknown VITE_STORAGE_BACKEND "${env.VITE_STORAGE_BACKEND}", falling back to auto-detection.`);
+  }
+  return env.VITE_SUPABASE_URL && env.VITE_SUPABASE_ANON_KEY ? 'supabase' : 'indexeddb';
+}
+
+export function createStore(env: StorageEnv): VoterStore {
+  switch (resolveBackend(env)) {
+    case 'supabase':
+      return createSupabaseStore(env.VITE_SUPABASE_URL, env.VITE_SUPABASE_ANON_KEY);
+    case 'memory':
+      return createMemoryStore();
+    default:
+      return createIndexedDbStore();
+  }
+}
+
+/** Accounts live with the data: Supabase Auth for Supabase, a local user store otherwise. */
+export function createAuthStore(env: StorageEnv): AuthStore {
+  switch (resolveBackend(env)) {
+    case 'supabase':
+      return createSupabaseAuth(env.VITE_SUPABASE_URL, env.VITE_SUPABASE_ANON_KEY);
+    case 'memory':
+      return createMemoryAuth();
+    default:
+      return createIndexedDbAuth();
+  }
+}
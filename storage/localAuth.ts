@@ -0,0 +1,139 @@
+import { AppUser, AuthStore, NewUser } from '../authService';
+import { auditId } from '../auditService';
+import { sha256Hex, toHex } from '../hash';
+import { LocalTable, SESSIONS_STORE, USERS_STORE, createIndexedDbTable, createMemoryTable } from './localStore';
+
+/**
+ * Accounts for the standalone (IndexedDB) and test (in-memory) backends.
+ * Passwords are stored as salted PBKDF2 hashes. Signing in issues a random
+ * token kept in sessionStorage; only its hash is stored, so a session cannot
+ * be forged from what is in the database, and a tab's session ends with it.
+ */
+
+interface StoredUser extends AppUser {
+  salt: string;
+  passwordHash: string;
+}
+
+interface StoredSession {
+  /** SHA-256 of the token */
+  id: string;
+  userId: string;
+  expiresAt: string;
+}
+
+const SESSION_KEY = 'vis_session';
+const SESSION_HOURS = 12;
+const PBKDF2_ITERATIONS = 210000;
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const randomHex = (bytes: number) => toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: encode(salt), iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toHex(new Uint8Array(bits));
+}
+
+const hashToken = (token: string) => sha256Hex(encode(token));
+
+const toUser = ({ id, login, name, role, disabled }: StoredUser): AppUser => ({ id, login, name, role, disabled });
+
+// Falls back to memory where sessionStorage does not exist (tests)
+let memoryToken: string | null = null;
+const tokens = {
+  get: () => (typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(SESSION_KEY) : memoryToken),
+  set: (token: string) => (typeof sessionStorage !== 'undefined' ? sessionStorage.setItem(SESSION_KEY, token) : (memoryToken = token)),
+  clear: () => (typeof sessionStorage !== 'undefined' ? sessionStorage.removeItem(SESSION_KEY) : (memoryToken = null))
+};
+
+function createLocalAuth(users: LocalTable<StoredUser>, sessions: LocalTable<StoredSession>): AuthStore {
+  const findByLogin = async (login: string) => {
+    const wanted = login.trim().toLowerCase();
+    return (await users.getAll()).find(u => u.login.toLowerCase() === wanted);
+  };
+
+  const endSessions = async (userId: string) => {
+    const own = (await sessions.getAll()).filter(s => s.userId === userId);
+    await Promise.all(own.map(s => sessions.delete(s.id)));
+  };
+
+  return {
+    loginKind: 'USERNAME',
+
+    currentUser: async () => {
+      const token = tokens.get();
+      if (!token) return null;
+      const session = await sessions.get(await hashToken(token));
+      if (!session || session.expiresAt < new Date().toISOString()) {
+        tokens.clear();
+        return null;
+      }
+      const user = await users.get(session.userId);
+      return user && !user.disabled ? toUser(user) : null;
+    },
+
+    signIn: async (login, password) => {
+      const user = await findByLogin(login);
+      if (!user || await hashPassword(password, user.salt) !== user.passwordHash) throw new Error('Invalid username or password.');
+      if (user.disabled) throw new Error('This account is disabled. Ask an admin to re-enable it.');
+      const token = randomHex(32);
+      const expiresAt = new Date(Date.now() + SESSION_HOURS * 3600 * 1000).toISOString();
+      await sessions.putMany([{ id: await hashToken(token), userId: user.id, expiresAt }]);
+      tokens.set(token);
+      return toUser(user);
+    },
+
+    signOut: async () => {
+      const token = tokens.get();
+      if (token) await sessions.delete(await hashToken(token));
+      tokens.clear();
+    },
+
+    needsSetup: async () => (await users.getAll()).length === 0,
+
+    listUsers: async () => (await users.getAll()).map(toUser).sort((a, b) => a.name.localeCompare(b.name)),
+
+    createUser: async (user: NewUser) => {
+      if (await findByLogin(user.login)) throw new Error(`"${user.login.trim()}" is already taken.`);
+      const salt = randomHex(16);
+      const stored: StoredUser = {
+        id: auditId(),
+        login: user.login.trim(),
+        name: user.name.trim(),
+        role: user.role,
+        disabled: false,
+        salt,
+        passwordHash: await hashPassword(user.password, salt)
+      };
+      await users.putMany([stored]);
+      return toUser(stored);
+    },
+
+    updateUser: async (id, patch) => {
+      const user = await users.get(id);
+      if (!user) throw new Error('That account no longer exists.');
+      await users.putMany([{ ...user, ...patch }]);
+      if (patch.disabled) await endSessions(id);
+    },
+
+    setPassword: async (id, password) => {
+      const user = await users.get(id);
+      if (!user) throw new Error('That account no longer exists.');
+      const salt = randomHex(16);
+      await users.putMany([{ ...user, salt, passwordHash: await hashPassword(password, salt) }]);
+      await endSessions(id);
+    }
+  };
+}
+
+export const createIndexedDbAuth = (): AuthStore => createLocalAuth(
+  createIndexedDbTable<StoredUser>(USERS_STORE),
+  createIndexedDbTable<StoredSession>(SESSIONS_STORE)
+);
+
+export const createMemoryAuth = (): AuthStore => createLocalAuth(
+  createMemoryTable<StoredUser>(u => u.id),
+  createMemoryTable<StoredSession>(s => s.id)
+);
@@ -0,0 +1,397 @@
+import { VoterRecord } from '../types';
+import { DuplicatePair } from '../duplicateService';
+import { idbRequest, openDb, withStore } from '../idb';
+import { rankMatches } from '../fuzzyService';
+import { AuditEntry, cursorForEntry } from '../auditService';
+import { VoterVersion } from '../versionService';
+import { GeoUnit, Normalized, indexGeography, stripGeography, withGeography } from '../geographyService';
+import { DeletedVoter, NO_DELETION, PresenceState, VoterChange, VoterListFilter, VoterRow, VoterSort, VoterStore, cursorFor } from './types';
+
+/**
+ * Browser-local adapters for standalone/offline use (IndexedDB) and tests
+ * (in-memory). Both keep rows in key-value tables and evaluate queries in
+ * JavaScript, which is fine at the size of a single constituency.
+ */
+
+export interface LocalTable<T> {
+  getAll(): Promise<T[]>;
+  get(key: string): Promise<T | undefined>;
+  putMany(items: T[]): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** Values are cloned in and out so callers never alias stored rows, as with a real database. */
+export function createMemoryTable<T>(keyOf: (item: T) => string): LocalTable<T> {
+  const rows = new Map<string, T>();
+  return {
+    getAll: async () => [...rows.values()].map(r => structuredClone(r)),
+    get: async (key) => {
+      const row = rows.get(key);
+      return row === undefined ? undefined : structuredClone(row);
+    },
+    putMany: async (items) => {
+      items.forEach(item => rows.set(keyOf(item), structuredClone(item)));
+    },
+    delete: async (key) => {
+      rows.delete(key);
+    },
+    clear: async () => {
+      rows.clear();
+    }
+  };
+}
+
+const VAULT_DB = 'vis_vault';
+const VAULT_DB_VERSION = 5;
+export const VOTERS_STORE = 'voters';
+export const DUPLICATES_STORE = 'duplicate_pairs';
+export const AUDIT_STORE = 'audit_log';
+export const VERSIONS_STORE = 'voter_versions';
+export const GEO_STORE = 'geo_units';
+export const USERS_STORE = 'users';
+export const SESSIONS_STORE = 'sessions';
+
+/** Opens a database with the vault's object stores; the offline replica keeps its own copy under another name. */
+export const openVaultDb = (name: string) => openDb(name, VAULT_DB_VERSION, (db, oldVersion) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(VOTERS_STORE, { keyPath: 'epicNo' });
+    db.createObjectStore(DUPLICATES_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(GEO_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(USERS_STORE, { keyPath: 'id' });
+    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+  }
+});
+
+const openVault = () => openVaultDb(VAULT_DB);
+
+export function createIndexedDbTable<T>(storeName: string, open: () => Promise<IDBDatabase> = openVault): LocalTable<T> {
+  return {
+    getAll: async () => {
+      const db = await open();
+      return withStore(db, storeName, 'readonly', tx => idbRequest(tx.objectStore(storeName).getAll() as IDBRequest<T[]>));
+    },
+    get: async (key) => {
+      const db = await open();
+      return withStore(db, storeName, 'readonly', tx => idbRequest(tx.objectStore(storeName).get(key) as IDBRequest<T | undefined>));
+    },
+    putMany: async (items) => {
+      const db = await open();
+      await withStore(db, storeName, 'readwrite', tx => {
+        const store = tx.objectStore(storeName);
+        items.forEach(item => store.put(item));
+      });
+    },
+    delete: async (key) => {
+      const db = await open();
+      await withStore(db, storeName, 'readwrite', tx => idbRequest(tx.objectStore(storeName).delete(key)));
+    },
+    clear: async () => {
+      const db = await open();
+      await withStore(db, storeName, 'readwrite', tx => idbRequest(tx.objectStore(storeName).clear()));
+    }
+  };
+}
+
+// Rows stored before the geography tree keep their own fields until next written
+type StoredVoter = Normalized<VoterRow>;
+
+interface LocalTables {
+  voters: LocalTable<StoredVoter>;
+  duplicates: LocalTable<DuplicatePair>;
+  audit: LocalTable<AuditEntry>;
+  versions: LocalTable<VoterVersion>;
+  geography: LocalTable<GeoUnit>;
+}
+
+const contains = (value: string | undefined, term: string) =>
+  !!value && !!term && value.toLowerCase().includes(term.toLowerCase());
+
+const newestFirst = (a: AuditEntry, b: AuditEntry) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id);
+
+const byLastUpdatedDesc = (a: VoterRecord, b: VoterRecord) => (b.lastUpdated || '').localeCompare(a.lastUpdated || '');
+
+const compareValues = (a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+
+/** Same order as the SQL adapters: sort field, then EPIC ascending as tie-breaker. */
+const sortKeyCompare = (direction: VoterSort['direction']) => (a: { value: string | number; epicNo: string }, b: { value: string | number; epicNo: string }) => {
+  const primary = compareValues(a.value, b.value) * (direction === 'asc' ? 1 : -1);
+  return primary !== 0 ? primary : a.epicNo.localeCompare(b.epicNo);
+};
+
+const anyContains = (values: (string | undefined)[], terms: string[]) =>
+  terms.some(t => values.some(value => contains(value, t)));
+
+const matchesFilter = (v: VoterRow, f: VoterListFilter) =>
+  (!f.text?.length || anyContains([v.name, v.nameLatin, v.nameNative, v.epicNo], f.text)) &&
+  (!f.parentSpouseName?.length || anyContains([v.parentSpouseName, v.parentSpouseNameLatin, v.parentSpouseNameNative], f.parentSpouseName)) &&
+  (!f.partNo || v.partNo === f.partNo) &&
+  (f.partId === null ? !v.partId : !f.partId || v.partId === f.partId) &&
+  (!f.serialNo || v.serialNo === f.serialNo) &&
+  (f.minAge === undefined || v.age >= f.minAge) &&
+  (f.maxAge === undefined || v.age <= f.maxAge) &&
+  (!f.gender || v.gender === f.gender) &&
+  (!f.assemblyConstituency || contains(v.assemblyConstituency, f.assemblyConstituency)) &&
+  (!f.pollingStation || contains(v.pollingStation?.name, f.pollingStation)) &&
+  (f.maxConfidence === undefined || (v.confidence !== null && v.confidence !== undefined && v.confidence < f.maxConfidence));
+
+const applyFilter = (rows: VoterRow[], filter?: VoterListFilter) =>
+  filter ? rows.filter(v => matchesFilter(v, filter)) : rows;
+
+type PresenceMessage = { type: 'JOIN' | 'HERE' | 'UPDATE' | 'LEAVE'; state: PresenceState };
+
+const canBroadcast = () => typeof BroadcastChannel !== 'undefined';
+
+/**
+ * `channel` names the BroadcastChannels that relay row changes and presence
+ * between tabs sharing the same database; without it both stay in-process.
+ */
+function createLocalStore(backend: 'indexeddb' | 'memory', tables: LocalTables, channel?: string): VoterStore {
+  const { voters, duplicates, audit, versions, geography } = tables;
+
+  const watchers = new Set<(changes: VoterChange[]) => void>();
+  // Opened on first use, so a store that is never written or watched holds no channel
+  let relay: BroadcastChannel | null = null;
+  const openRelay = () => {
+    if (!relay && channel && canBroadcast()) {
+      relay = new BroadcastChannel(`${channel}:changes`);
+      relay.onmessage = ({ data }: MessageEvent<VoterChange[]>) => watchers.forEach(watcher => watcher(data));
+    }
+    return relay;
+  };
+  const notify = (rows: { epicNo: string }[], removed: boolean) => {
+    if (rows.length === 0) return;
+    const changes = rows.map(row => ({ epicNo: row.epicNo, removed }));
+    watchers.forEach(watcher => watcher(changes));
+    openRelay()?.postMessage(changes);
+  };
+
+  const hydrate = async (rows: StoredVoter[]) => {
+    const index = indexGeography(await geography.getAll());
+    return rows.map(row => withGeography<VoterRow>(row, index));
+  };
+  const put = (rows: VoterRow[]) => voters.putMany(rows.map(stripGeography));
+
+  // Soft-deleted rows only show up in the recycle bin
+  const all = async () => hydrate(await voters.getAll());
+  const active = async () => (await all()).filter(v => !v.deletedAt);
+  const deleted = async () => (await all()).filter((v): v is VoterRow & DeletedVoter => !!v.deletedAt);
+
+  return {
+    backend,
+    label: backend === 'indexeddb' ? 'Local IndexedDB' : 'In-Memory',
+
+    testConnection: async () => {
+      try {
+        const rows = await active();
+        return { success: true, message: `Using ${backend === 'indexeddb' ? 'browser IndexedDB' : 'in-memory'} storage (${rows.length} records).` };
+      } catch (err: any) {
+        console.error('Connection Test Failed:', err);
+        return { success: false, message: err.message || 'Local storage is unavailable.' };
+      }
+    },
+
+    listVoters: async () => (await active()).sort(byLastUpdatedDesc),
+
+    countVoters: async (filter) => applyFilter(await active(), filter).length,
+
+    listVoterPage: async ({ sort, limit, after, filter }) => {
+      const compare = sortKeyCompare(sort.direction);
+      const keyed = applyFilter(await active(), filter)
+        .map(row => ({ row, ...cursorFor(row, sort.field) }))
+        .sort(compare);
+      const start = after ? keyed.filter(k => compare(k, after) <= 0).length : 0;
+      const page = keyed.slice(start, start + limit).map(k => k.row);
+      const hasMore = start + limit < keyed.length;
+      return { rows: page, nextCursor: hasMore ? cursorFor(page[page.length - 1], sort.field) : null };
+    },
+
+    listFuzzyCandidates: async ({ terms, phoneticKeys, filter, limit }) =>
+      rankMatches(terms, phoneticKeys, applyFilter(await active(), filter)).slice(0, limit).map(hit => hit.voter),
+
+    listMissingScripts: async (limit, afterEpicNo) =>
+      (await active())
+        .filter(v => (!v.nameLatin || !v.namePhonetic) && (!afterEpicNo || v.epicNo > afterEpicNo))
+        .sort((a, b) => (a.epicNo < b.epicNo ? -1 : a.epicNo > b.epicNo ? 1 : 0))
+        .slice(0, limit),
+
+    getByEpicNos: async (epicNos) => {
+      const found = await Promise.all([...new Set(epicNos.filter(Boolean))].map(epic => voters.get(epic)));
+      return hydrate(found.filter((v): v is StoredVoter => !!v && !v.deletedAt));
+    },
+
+    getByPartNos: async (partNos) => {
+      const wanted = new Set(partNos.filter(Boolean));
+      if (wanted.size === 0) return [];
+      return (await active()).filter(v => wanted.has(v.partNo));
+    },
+
+    upsertVoters: async (rows) => {
+      await put(rows);
+      notify(rows.filter(row => !row.deletedAt), false);
+      notify(rows.filter(row => row.deletedAt), true);
+    },
+
+    softDeleteVoters: async (epicNos, mark) => {
+      const wanted = new Set(epicNos);
+      const rows = (await active()).filter(v => wanted.has(v.epicNo));
+      await put(rows.map(v => ({ ...v, ...mark })));
+      notify(rows, true);
+      return rows.length;
+    },
+
+    softDeleteAll: async (mark) => {
+      const rows = await active();
+      await put(rows.map(v => ({ ...v, ...mark })));
+      notify(rows, true);
+      return rows.length;
+    },
+
+    restoreVoters: async ({ epicNos, deletionId }) => {
+      if (!epicNos?.length && !deletionId) return [];
+      const wanted = epicNos?.length ? new Set(epicNos) : null;
+      const rows = (await deleted()).filter(v => (!wanted || wanted.has(v.epicNo)) && (!deletionId || v.deletionId === deletionId));
+      await put(rows.map(v => ({ ...v, ...NO_DELETION })));
+      notify(rows, false);
+      return rows.map(v => v.epicNo);
+    },
+
+    listDeleted: async ({ limit, after }) => {
+      const compare = sortKeyCompare('desc');
+      const keyed = (await deleted())
+        .map(row => ({ row, value: row.deletedAt, epicNo: row.epicNo }))
+        .sort(compare);
+      const start = after ? keyed.filter(k => compare(k, after) <= 0).length : 0;
+      const page = keyed.slice(start, start + limit);
+      const last = page[page.length - 1];
+      return {
+        rows: page.map(k => k.row),
+        nextCursor: start + limit < keyed.length ? { value: last.value, epicNo: last.epicNo } : null
+      };
+    },
+
+    countDeleted: async () => (await deleted()).length,
+
+    purgeDeleted: async (cutoff) => {
+      const expired = (await deleted()).filter(v => v.deletedAt < cutoff);
+      await Promise.all(expired.map(v => voters.delete(v.epicNo)));
+      notify(expired, true);
+      return expired.length;
+    },
+
+    listDuplicatePairs: async (status) =>
+      (await duplicates.getAll()).filter(p => p.status === status).sort((a, b) => b.score - a.score),
+
+    insertDuplicatePairs: async (pairs) => {
+      const existing = new Set((await duplicates.getAll()).map(p => p.id));
+      await duplicates.putMany(pairs.filter(p => !existing.has(p.id)));
+    },
+
+    updateDuplicatePair: async (id, patch) => {
+      const pair = await duplicates.get(id);
+      if (pair) await duplicates.putMany([{ ...pair, ...patch }]);
+    },
+
+    appendAudit: async (entries) => audit.putMany(entries),
+
+    listAudit: async ({ epicNo, actor, action, source, limit, before }) => {
+      const matching = (await audit.getAll())
+        .filter(e =>
+          (!epicNo || contains(e.epicNo || undefined, epicNo)) &&
+          (!actor || e.actor === actor) &&
+          (!action || e.action === action) &&
+          (!source || contains(e.source, source)) &&
+          (!before || newestFirst(e, { ...e, ...before }) > 0))
+        .sort(newestFirst);
+      const entries = matching.slice(0, limit);
+      return { entries, nextCursor: matching.length > limit ? cursorForEntry(entries[entries.length - 1]) : null };
+    },
+
+    listGeoUnits: async () => geography.getAll(),
+
+    saveGeoUnits: async (units) => geography.putMany(units),
+
+    deleteGeoUnit: async (id) => geography.delete(id),
+
+    appendVersions: async (items) => versions.putMany(items),
+
+    listVersions: async (epicNo) =>
+      (await versions.getAll()).filter(v => v.epicNo === epicNo).sort((a, b) => b.version - a.version),
+
+    latestVersions: async (epicNos) => {
+      const wanted = new Set(epicNos);
+      const latest: Record<string, number> = {};
+      (await versions.getAll()).forEach(v => {
+        if (wanted.has(v.epicNo) && v.version > (latest[v.epicNo] || 0)) latest[v.epicNo] = v.version;
+      });
+      return latest;
+    },
+
+    watchVoters: (onChange) => {
+      watchers.add(onChange);
+      openRelay();
+      return () => {
+        watchers.delete(onChange);
+      };
+    },
+
+    joinPresence: (state, onSync) => {
+      let current = state;
+      const others = new Map<string, PresenceState>();
+      const sync = () => onSync([current, ...others.values()]);
+      const peers = channel && canBroadcast() ? new BroadcastChannel(`${channel}:presence`) : null;
+      if (peers) {
+        peers.onmessage = ({ data }: MessageEvent<PresenceMessage>) => {
+          if (data.type === 'LEAVE') others.delete(data.state.sessionId);
+          else others.set(data.state.sessionId, data.state);
+          // A newcomer learns who is already here from the replies
+          if (data.type === 'JOIN') peers.postMessage({ type: 'HERE', state: current });
+          sync();
+        };
+        peers.postMessage({ type: 'JOIN', state });
+      }
+      sync();
+      return {
+        update: next => {
+          current = next;
+          peers?.postMessage({ type: 'UPDATE', state: next });
+          sync();
+        },
+        leave: () => {
+          peers?.postMessage({ type: 'LEAVE', state: current });
+          peers?.close();
+        }
+      };
+    }
+  };
+}
+
+export const createIndexedDbStore = (dbName = VAULT_DB): VoterStore => {
+  const open = () => openVaultDb(dbName);
+  return createLocalStore('indexeddb', {
+    voters: createIndexedDbTable<StoredVoter>(VOTERS_STORE, open),
+    duplicates: createIndexedDbTable<DuplicatePair>(DUPLICATES_STORE, open),
+    audit: createIndexedDbTable<AuditEntry>(AUDIT_STORE, open),
+    versions: createIndexedDbTable<VoterVersion>(VERSIONS_STORE, open),
+    geography: createIndexedDbTable<GeoUnit>(GEO_STORE, open)
+  }, dbName);
+};
+
+export const createMemoryStore = (): VoterStore => createLocalStore('memory', {
+  voters: createMemoryTable<StoredVoter>(v => v.epicNo),
+  duplicates: createMemoryTable<DuplicatePair>(p => p.id),
+  audit: createMemoryTable<AuditEntry>(e => e.id),
+  versions: createMemoryTable<VoterVersion>(v => v.id),
+  geography: createMemoryTable<GeoUnit>(u => u.id)
+});
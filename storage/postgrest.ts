@@ -0,0 +1,20 @@
+/**
+ * Helpers for building PostgREST filter strings (`.or()`, `.filter()`).
+ * Values are always double-quoted so commas, dots and parentheses in user
+ * input cannot change the structure of the filter.
+ */
+
+export function quoteValue(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** `%term%` for `ilike`, with LIKE wildcards in the term matched literally. */
+export function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/** `.or()` body matching when any term is contained in any of the columns. */
+export function anyContains(columns: string[], terms: string[]): string {
+  return terms.flatMap(t => columns.map(c => `${c}.ilike.${quoteValue(containsPattern(t))}`)).join(',');
+}
@@ -0,0 +1,133 @@
+import { createClient } from '@supabase/supabase-js';
+import { AppUser, AuthStore } from '../authService';
+import { isTransient, storeError } from './types';
+import { supabaseClient } from './supabaseClient';
+
+/**
+ * Supabase Auth accounts. Sign-in is by email; each account's role lives in
+ * `user_profiles`, which a trigger fills when the account is created (see
+ * the auth migration) and which the database policies read.
+ */
+
+const PROFILES_TABLE = 'user_profiles';
+const SETUP_FN = 'app_needs_setup';
+// Last profile read, so a helpdesk that loses its connection keeps its role
+// for the offline replica. Only the UI trusts it; queued edits still pass the
+// database policies when they sync.
+const PROFILE_CACHE_KEY = 'vis_profile';
+
+const readCache = (): AppUser | null => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILE_CACHE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export function createSupabaseAuth(url?: string, anonKey?: string): AuthStore {
+  const db = () => supabaseClient(url, anonKey);
+
+  const profile = async (id: string): Promise<AppUser> => {
+    const { data, error, status } = await db()
+      .from(PROFILES_TABLE)
+      .select('id, login, name, role, disabled')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw storeError(error.message, status === 0);
+    if (!data) throw new Error('This account has no VIS profile. Ask an admin to check it.');
+    return data as AppUser;
+  };
+
+  const needsSetup = async (): Promise<boolean> => {
+    const { data, error } = await db().rpc(SETUP_FN);
+    if (error) throw new Error(error.message);
+    return data === true;
+  };
+
+  return {
+    loginKind: 'EMAIL',
+
+    currentUser: async () => {
+      const { data } = await db().auth.getSession();
+      if (!data.session) return null;
+      let user: AppUser;
+      try {
+        user = await profile(data.session.user.id);
+        localStorage.setItem(PROFILE_CACHE_KEY, JSON.stringify(user));
+      } catch (e) {
+        const cached = readCache();
+        if (!isTransient(e) || cached?.id !== data.session.user.id) throw e;
+        user = cached;
+      }
+      return user.disabled ? null : user;
+    },
+
+    signIn: async (login, password) => {
+      const { data, error } = await db().auth.signInWithPassword({ email: login.trim(), password });
+      if (error || !data.user) throw new Error(error?.message || 'Invalid email or password.');
+      const user = await profile(data.user.id);
+      if (user.disabled) {
+        await db().auth.signOut();
+        throw new Error('This account is disabled. Ask an admin to re-enable it.');
+      }
+      localStorage.setItem(PROFILE_CACHE_KEY, JSON.stringify(user));
+      return user;
+    },
+
+    signOut: async () => {
+      localStorage.removeItem(PROFILE_CACHE_KEY);
+      const { error } = await db().auth.signOut();
+      if (error) throw new Error(error.message);
+    },
+
+    needsSetup,
+
+    listUsers: async () => {
+      const { data, error } = await db()
+        .from(PROFILES_TABLE)
+        .select('id, login, name, role, disabled')
+        .order('name', { ascending: true });
+
+      if (error) throw new Error(error.message);
+      return (data || []) as AppUser[];
+    },
+
+    createUser: async ({ login, name, role, password }) => {
+      const first = await needsSetup();
+      // A throwaway client, so signing the account up does not replace the admin's own session
+      const signUpClient = createClient(url!, anonKey!, { auth: { persistSession: false, autoRefreshToken: false } });
+      const { data, error } = await signUpClient.auth.signUp({ email: login.trim(), password, options: { data: { name: name.trim() } } });
+      if (error || !data.user) throw new Error(error?.message || 'Supabase did not create the account.');
+      const user: AppUser = { id: data.user.id, login: login.trim(), name: name.trim(), role, disabled: false };
+      // The trigger makes the very first account an active admin
+      if (first) return user;
+      // Every later one starts disabled, since anyone holding the anon key can sign up;
+      // only an admin's update assigns its role and enables it.
+      const { data: updated, error: roleError } = await db()
+        .from(PROFILES_TABLE)
+        .update({ role, disabled: false })
+        .eq('id', data.user.id)
+        .select('id');
+      if (roleError) throw new Error(roleError.message);
+      if (!updated || updated.length === 0) {
+        throw new Error(`The account ${user.login} was created but stays disabled: only a signed-in admin can enable it.`);
+      }
+      return user;
+    },
+
+    updateUser: async (id, patch) => {
+      const { error } = await db().from(PROFILES_TABLE).update(patch).eq('id', id);
+      if (error) throw new Error(error.message);
+    },
+
+    setPassword: async (id, password) => {
+      const { data } = await db().auth.getSession();
+      if (data.session?.user.id !== id) {
+        throw new Error('Supabase accounts change their own password; reset others from the Supabase dashboard.');
+      }
+      const { error } = await db().auth.updateUser({ password });
+      if (error) throw new Error(error.message);
+    }
+  };
+}
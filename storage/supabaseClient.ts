@@ -0,0 +1,20 @@
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
+
+const clients = new Map<string, SupabaseClient>();
+
+/**
+ * One client per project, shared by the data and auth adapters so database
+ * requests carry the signed-in user's token and row-level security sees their role.
+ */
+export function supabaseClient(url?: string, anonKey?: string): SupabaseClient {
+  if (!url || !anonKey) {
+    throw new Error('Missing Supabase environment variables. Please check your .env file.');
+  }
+  const key = `${url}|${anonKey}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = createClient(url, anonKey);
+    clients.set(key, client);
+  }
+  return client;
+}
@@ -0,0 +1,502 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { VoterRecord } from '../types';
+import { DuplicatePair, DuplicateStatus } from '../duplicateService';
+import { AuditEntry, cursorForEntry } from '../auditService';
+import { VoterVersion } from '../versionService';
+import { GeoUnit, stripGeography } from '../geographyService';
+import { DeletedVoter, NO_DELETION, PresenceState, VoterChange, VoterListFilter, VoterRow, VoterStore, cursorFor, storeError } from './types';
+import { anyContains, containsPattern, quoteValue } from './postgrest';
+import { supabaseClient } from './supabaseClient';
+
+const TABLE_NAME = 'voters_table';
+// Voters joined with their part's geography; every read goes through it (see the geography migration)
+const VOTERS_VIEW = 'voters_expanded';
+const GEO_TABLE = 'geo_units';
+const DUPLICATES_TABLE = 'duplicate_pairs';
+const AUDIT_TABLE = 'audit_log';
+const VERSIONS_TABLE = 'voter_versions';
+// One row per EPIC with its highest version (see the version history migration)
+const LATEST_VERSIONS_VIEW = 'voter_latest_versions';
+// Keeps `.in()` filters well under PostgREST's URL length limit
+const IN_CHUNK = 200;
+// Supabase caps a single response at 1000 rows by default
+const FETCH_CHUNK = 1000;
+// Audit entries and versions carry row snapshots; keeps request bodies small
+const AUDIT_CHUNK = 500;
+// Fuzzy search runs in this Postgres function, filters included (see the fuzzy search migrations)
+const FUZZY_FN = 'search_voters_fuzzy';
+// HTTP statuses (0: the request never got a response) and Postgres SQLSTATEs worth retrying
+const TRANSIENT_STATUS = [0, 408, 429, 500, 502, 503, 504];
+const TRANSIENT_CODE = /^(08|40001|40P01|53|57014|57P0)/;
+// Realtime channels; row changes need voters_table in the realtime publication (see the realtime migration)
+const CHANGES_CHANNEL = 'voters_table_changes';
+const PRESENCE_CHANNEL = 'operators';
+
+/** The filter methods `withFilter` uses on table selects. */
+interface FilterableQuery<Q> {
+  or(filters: string): Q;
+  eq(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  lt(column: string, value: unknown): Q;
+  ilike(column: string, pattern: string): Q;
+  is(column: string, value: null): Q;
+}
+
+// Soft-deleted rows only show up in the recycle bin
+const NOT_DELETED = 'deletedAt';
+
+/** Applies `filter` to active rows; user input only ever reaches PostgREST quoted. */
+function withFilter<Q extends FilterableQuery<Q>>(query: Q, filter: VoterListFilter = {}): Q {
+  query = query.is(NOT_DELETED, null);
+  if (filter.text?.length) query = query.or(anyContains(['name', 'nameLatin', 'nameNative', 'epicNo'], filter.text));
+  if (filter.parentSpouseName?.length) {
+    query = query.or(anyContains(['parentSpouseName', 'parentSpouseNameLatin', 'parentSpouseNameNative'], filter.parentSpouseName));
+  }
+  if (filter.partNo) query = query.eq('partNo', filter.partNo);
+  if (filter.partId) query = query.eq('partId', filter.partId);
+  else if (filter.partId === null) query = query.is('partId', null);
+  if (filter.serialNo) query = query.eq('serialNo', filter.serialNo);
+  if (filter.minAge !== undefined) query = query.gte('age', filter.minAge);
+  if (filter.maxAge !== undefined) query = query.lte('age', filter.maxAge);
+  if (filter.gender) query = query.eq('gender', filter.gender);
+  if (filter.assemblyConstituency) query = query.ilike('assemblyConstituency', containsPattern(filter.assemblyConstituency));
+  if (filter.pollingStation) query = query.ilike('pollingStation->>name', containsPattern(filter.pollingStation));
+  if (filter.maxConfidence !== undefined) query = query.lt('confidence', filter.maxConfidence);
+  return query;
+}
+
+/**
+ * Supabase adapter. The client is created lazily so a missing configuration
+ * surfaces as a failed connection test instead of breaking app start-up.
+ */
+export function createSupabaseStore(url?: string, anonKey?: string): VoterStore {
+  const db = () => supabaseClient(url, anonKey);
+
+  const fail = (context: string, error: { message: string; code?: string }, status?: number): never => {
+    console.error(`Supabase ${context} error:`, error);
+    const transient = (status !== undefined && TRANSIENT_STATUS.includes(status)) || TRANSIENT_CODE.test(error.code || '');
+    throw storeError(error.message, transient);
+  };
+
+  // One Realtime subscription per client, shared by every watcher
+  const watchers = new Set<(changes: VoterChange[]) => void>();
+  let changes: RealtimeChannel | null = null;
+
+  const selectVoters = (filter?: VoterListFilter, countOnly = false) => withFilter(
+    db()
+      .from(VOTERS_VIEW)
+      .select('*', countOnly ? { count: 'exact', head: true } : undefined),
+    filter
+  );
+
+  return {
+    backend: 'supabase',
+    label: 'Supabase',
+
+    testConnection: async () => {
+      try {
+        const { error } = await db()
+          .from(VOTERS_VIEW)
+          .select('*', { count: 'exact', head: true });
+
+        if (error) throw error;
+        return { success: true, message: `Connected to Supabase. Table "${TABLE_NAME}" found.` };
+      } catch (err: any) {
+        console.error('Connection Test Failed:', err);
+        return { success: false, message: err.message || 'Could not reach Supabase table.' };
+      }
+    },
+
+    listVoters: async () => {
+      const all: VoterRecord[] = [];
+      for (let from = 0; ; from += FETCH_CHUNK) {
+        const { data, error } = await db()
+          .from(VOTERS_VIEW)
+          .select('*')
+          .is(NOT_DELETED, null)
+          .order('lastUpdated', { ascending: false })
+          .order('epicNo', { ascending: true })
+          .range(from, from + FETCH_CHUNK - 1);
+
+        if (error) fail('fetch', error);
+        all.push(...(data || []));
+        if (!data || data.length < FETCH_CHUNK) return all;
+      }
+    },
+
+    countVoters: async (filter) => {
+      const { count, error } = await selectVoters(filter, true);
+      if (error) fail('count', error);
+      return count || 0;
+    },
+
+    listVoterPage: async ({ sort, limit, after, filter }) => {
+      const ascending = sort.direction === 'asc';
+      let query = selectVoters(filter);
+      if (after) {
+        const op = ascending ? 'gt' : 'lt';
+        const value = quoteValue(after.value);
+        query = query.or(`${sort.field}.${op}.${value},and(${sort.field}.eq.${value},epicNo.gt.${quoteValue(after.epicNo)})`);
+      }
+
+      // One extra row tells us whether another page exists
+      const { data, error } = await query
+        .order(sort.field, { ascending })
+        .order('epicNo', { ascending: true })
+        .limit(limit + 1);
+
+      if (error) fail('page', error);
+      const rows = (data || []).slice(0, limit);
+      const hasMore = (data || []).length > limit;
+      return { rows, nextCursor: hasMore ? cursorFor(rows[rows.length - 1], sort.field) : null };
+    },
+
+    listFuzzyCandidates: async ({ terms, phoneticKeys, filter = {}, limit }) => {
+      // Filters go into the function, which applies them before its limit; filtering
+      // the result would drop matches ranked below the limit across the whole vault
+      const { data, error } = await db().rpc(FUZZY_FN, {
+        terms,
+        phonetic_keys: phoneticKeys,
+        max_rows: limit,
+        parent_terms: filter.parentSpouseName?.length ? filter.parentSpouseName : null,
+        part_no: filter.partNo ?? null,
+        part_id: filter.partId ?? null,
+        serial_no: filter.serialNo ?? null,
+        min_age: filter.minAge ?? null,
+        max_age: filter.maxAge ?? null,
+        gender: filter.gender ?? null,
+        assembly_constituency: filter.assemblyConstituency ?? null,
+        polling_station: filter.pollingStation ?? null,
+        max_confidence: filter.maxConfidence ?? null
+      });
+
+      if (error) fail('fuzzy search', error);
+      return data || [];
+    },
+
+    listMissingScripts: async (limit, afterEpicNo) => {
+      let query = db()
+        .from(VOTERS_VIEW)
+        .select('*')
+        .is(NOT_DELETED, null)
+        .or('nameLatin.is.null,namePhonetic.is.null');
+      if (afterEpicNo) query = query.gt('epicNo', afterEpicNo);
+
+      const { data, error } = await query
+        .order('epicNo', { ascending: true })
+        .limit(limit);
+
+      if (error) fail('backfill fetch', error);
+      return data || [];
+    },
+
+    getByEpicNos: async (epicNos) => {
+      const unique = [...new Set(epicNos.filter(Boolean))];
+      const found: VoterRecord[] = [];
+      for (let i = 0; i < unique.length; i += IN_CHUNK) {
+        const { data, error } = await db()
+          .from(VOTERS_VIEW)
+          .select('*')
+          .is(NOT_DELETED, null)
+          .in('epicNo', unique.slice(i, i + IN_CHUNK));
+
+        if (error) fail('lookup', error);
+        found.push(...(data || []));
+      }
+      return found;
+    },
+
+    getByPartNos: async (partNos) => {
+      const unique = [...new Set(partNos.filter(Boolean))];
+      const found: VoterRecord[] = [];
+      // A part can hold more voters than one response returns, so each chunk of parts is paged too
+      for (let i = 0; i < unique.length; i += IN_CHUNK) {
+        for (let from = 0; ; from += FETCH_CHUNK) {
+          const { data, error } = await db()
+            .from(VOTERS_VIEW)
+            .select('*')
+            .is(NOT_DELETED, null)
+            .in('partNo', unique.slice(i, i + IN_CHUNK))
+            .order('epicNo', { ascending: true })
+            .range(from, from + FETCH_CHUNK - 1);
+
+          if (error) fail('part lookup', error);
+          found.push(...(data || []));
+          if (!data || data.length < FETCH_CHUNK) break;
+        }
+      }
+      return found;
+    },
+
+    upsertVoters: async (rows: VoterRow[]) => {
+      const { error, status } = await db()
+        .from(TABLE_NAME)
+        .upsert(rows.map(stripGeography), { onConflict: 'epicNo' });
+
+      if (error) fail('upsert', error, status);
+    },
+
+    softDeleteVoters: async (epicNos, mark) => {
+      const unique = [...new Set(epicNos.filter(Boolean))];
+      let deleted = 0;
+      for (let i = 0; i < unique.length; i += IN_CHUNK) {
+        const { count, error } = await db()
+          .from(TABLE_NAME)
+          .update(mark, { count: 'exact' })
+          .is(NOT_DELETED, null)
+          .in('epicNo', unique.slice(i, i + IN_CHUNK));
+
+        if (error) fail('delete', error);
+        deleted += count || 0;
+      }
+      return deleted;
+    },
+
+    softDeleteAll: async (mark) => {
+      const { count, error } = await db()
+        .from(TABLE_NAME)
+        .update(mark, { count: 'exact' })
+        .is(NOT_DELETED, null);
+
+      if (error) fail('wipe', error);
+      return count || 0;
+    },
+
+    restoreVoters: async ({ epicNos, deletionId }) => {
+      if (!epicNos?.length && !deletionId) return [];
+      let query = db()
+        .from(TABLE_NAME)
+        .update(NO_DELETION)
+        .not(NOT_DELETED, 'is', null);
+      if (epicNos?.length) query = query.in('epicNo', epicNos);
+      if (deletionId) query = query.eq('deletionId', deletionId);
+
+      const { data, error } = await query.select('epicNo');
+      if (error) fail('restore', error);
+      return (data || []).map(r => r.epicNo as string);
+    },
+
+    listDeleted: async ({ limit, after }) => {
+      let query = db()
+        .from(VOTERS_VIEW)
+        .select('*')
+        .not(NOT_DELETED, 'is', null);
+      if (after) {
+        const at = quoteValue(after.value);
+        query = query.or(`deletedAt.lt.${at},and(deletedAt.eq.${at},epicNo.gt.${quoteValue(after.epicNo)})`);
+      }
+
+      const { data, error } = await query
+        .order('deletedAt', { ascending: false })
+        .order('epicNo', { ascending: true })
+        .limit(limit + 1);
+
+      if (error) fail('recycle bin fetch', error);
+      const rows: DeletedVoter[] = (data || []).slice(0, limit);
+      const last = rows[rows.length - 1];
+      return { rows, nextCursor: (data || []).length > limit ? { value: last.deletedAt, epicNo: last.epicNo } : null };
+    },
+
+    countDeleted: async () => {
+      const { count, error } = await db()
+        .from(VOTERS_VIEW)
+        .select('*', { count: 'exact', head: true })
+        .not(NOT_DELETED, 'is', null);
+
+      if (error) fail('recycle bin count', error);
+      return count || 0;
+    },
+
+    purgeDeleted: async (cutoff) => {
+      const { count, error } = await db()
+        .from(TABLE_NAME)
+        .delete({ count: 'exact' })
+        .lt('deletedAt', cutoff);
+
+      if (error) fail('purge', error);
+      return count || 0;
+    },
+
+    listDuplicatePairs: async (status: DuplicateStatus) => {
+      const all: DuplicatePair[] = [];
+      for (let from = 0; ; from += FETCH_CHUNK) {
+        const { data, error } = await db()
+          .from(DUPLICATES_TABLE)
+          .select('*')
+          .eq('status', status)
+          .order('score', { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, from + FETCH_CHUNK - 1);
+
+        if (error) fail('duplicates fetch', error);
+        all.push(...(data || []));
+        if (!data || data.length < FETCH_CHUNK) return all;
+      }
+    },
+
+    insertDuplicatePairs: async (pairs: DuplicatePair[]) => {
+      const { error } = await db()
+        .from(DUPLICATES_TABLE)
+        .upsert(pairs, { onConflict: 'id', ignoreDuplicates: true });
+
+      if (error) fail('duplicates save', error);
+    },
+
+    updateDuplicatePair: async (id, patch) => {
+      const { error } = await db()
+        .from(DUPLICATES_TABLE)
+        .update(patch)
+        .eq('id', id);
+
+      if (error) fail('duplicates update', error);
+    },
+
+    appendAudit: async (entries: AuditEntry[]) => {
+      for (let i = 0; i < entries.length; i += AUDIT_CHUNK) {
+        const { error } = await db()
+          .from(AUDIT_TABLE)
+          .insert(entries.slice(i, i + AUDIT_CHUNK));
+
+        if (error) fail('audit write', error);
+      }
+    },
+
+    listAudit: async ({ epicNo, actor, action, source, limit, before }) => {
+      let query = db()
+        .from(AUDIT_TABLE)
+        .select('*');
+      if (epicNo) query = query.ilike('epicNo', containsPattern(epicNo));
+      if (actor) query = query.eq('actor', actor);
+      if (action) query = query.eq('action', action);
+      if (source) query = query.ilike('source', containsPattern(source));
+      if (before) {
+        const at = quoteValue(before.createdAt);
+        query = query.or(`createdAt.lt.${at},and(createdAt.eq.${at},id.lt.${quoteValue(before.id)})`);
+      }
+
+      const { data, error } = await query
+        .order('createdAt', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+      if (error) fail('audit fetch', error);
+      const entries: AuditEntry[] = (data || []).slice(0, limit);
+      return { entries, nextCursor: (data || []).length > limit ? cursorForEntry(entries[entries.length - 1]) : null };
+    },
+
+    listGeoUnits: async () => {
+      const all: GeoUnit[] = [];
+      for (let from = 0; ; from += FETCH_CHUNK) {
+        const { data, error } = await db()
+          .from(GEO_TABLE)
+          .select('*')
+          .order('id', { ascending: true })
+          .range(from, from + FETCH_CHUNK - 1);
+
+        if (error) fail('geography fetch', error);
+        all.push(...(data || []));
+        if (!data || data.length < FETCH_CHUNK) return all;
+      }
+    },
+
+    saveGeoUnits: async (units: GeoUnit[]) => {
+      const { error } = await db()
+        .from(GEO_TABLE)
+        .upsert(units, { onConflict: 'id' });
+
+      if (error) fail('geography save', error);
+    },
+
+    deleteGeoUnit: async (id: string) => {
+      const { error } = await db()
+        .from(GEO_TABLE)
+        .delete()
+        .eq('id', id);
+
+      if (error) fail('geography delete', error);
+    },
+
+    appendVersions: async (versions: VoterVersion[]) => {
+      for (let i = 0; i < versions.length; i += AUDIT_CHUNK) {
+        const { error } = await db()
+          .from(VERSIONS_TABLE)
+          .insert(versions.slice(i, i + AUDIT_CHUNK));
+
+        if (error) fail('version write', error);
+      }
+    },
+
+    listVersions: async (epicNo: string) => {
+      const { data, error } = await db()
+        .from(VERSIONS_TABLE)
+        .select('*')
+        .eq('epicNo', epicNo)
+        .order('version', { ascending: false });
+
+      if (error) fail('version fetch', error);
+      return data || [];
+    },
+
+    latestVersions: async (epicNos: string[]) => {
+      const unique = [...new Set(epicNos.filter(Boolean))];
+      const latest: Record<string, number> = {};
+      for (let i = 0; i < unique.length; i += IN_CHUNK) {
+        const { data, error } = await db()
+          .from(LATEST_VERSIONS_VIEW)
+          .select('epicNo, version')
+          .in('epicNo', unique.slice(i, i + IN_CHUNK));
+
+        if (error) fail('version fetch', error);
+        (data || []).forEach(row => { latest[row.epicNo] = row.version; });
+      }
+      return latest;
+    },
+
+    watchVoters: (onChange) => {
+      watchers.add(onChange);
+      changes ??= db()
+        .channel(CHANGES_CHANNEL)
+        .on('postgres_changes', { event: '*', schema: 'public', table: TABLE_NAME }, payload => {
+          // Soft deletes arrive as updates; only a purge is a real DELETE
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<VoterRow>;
+          if (!row.epicNo) return;
+          const change = { epicNo: row.epicNo, removed: payload.eventType === 'DELETE' || !!row.deletedAt };
+          watchers.forEach(watcher => watcher([change]));
+        })
+        .subscribe();
+      return () => {
+        watchers.delete(onChange);
+        if (watchers.size === 0 && changes) {
+          db().removeChannel(changes);
+          changes = null;
+        }
+      };
+    },
+
+    joinPresence: (state, onSync) => {
+      let current = state;
+      let joined = false;
+      const channel = db().channel(PRESENCE_CHANNEL, { config: { presence: { key: state.sessionId } } });
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const present = Object.values(channel.presenceState()).map(metas => metas[0] as unknown as PresenceState);
+          onSync(present);
+        })
+        .subscribe(status => {
+          if (status !== 'SUBSCRIBED') return;
+          joined = true;
+          channel.track({ ...current });
+        });
+      return {
+        update: next => {
+          current = next;
+          if (joined) channel.track({ ...current });
+        },
+        leave: () => {
+          db().removeChannel(channel);
+        }
+      };
+    }
+  };
+}
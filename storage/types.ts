@@ -0,0 +1,225 @@
+import { VoterRecord } from '../types';
+import { DuplicatePair, DuplicateStatus } from '../duplicateService';
+import { AuditEntry, AuditPage, AuditQuery } from '../auditService';
+import { VoterVersion } from '../versionService';
+import { GeoUnit } from '../geographyService';
+
+/**
+ * Storage contract behind `VoterApi`.
+ * Adapters only persist and query; validation, transliteration and
+ * provenance stay in the API layer so every backend stores the same rows.
+ */
+
+export type StorageBackend = 'supabase' | 'indexeddb' | 'memory';
+
+/**
+ * A VoterRecord as written, with the columns derived for querying.
+ * Adapters store `partId` in place of the geography fields and fill those
+ * back in from the part on every read (see geographyService).
+ */
+export type VoterRow = VoterRecord & {
+  confidence: number | null;
+  /** See fuzzyService.phoneticKeys */
+  namePhonetic: string[];
+  partId: string | null;
+} & Nullable<DeletionMark>;
+
+type Nullable<T> = { [K in keyof T]: T[K] | null };
+
+/**
+ * Set on soft-deleted rows. Every voter query except the recycle bin's
+ * skips them; `deletionId` is shared by all rows removed in one action so a
+ * table wipe can be restored as a whole.
+ */
+export interface DeletionMark {
+  deletedAt: string;
+  deletedReason: string;
+  deletedBy: string;
+  deletionId: string;
+}
+
+export type DeletedVoter = VoterRecord & DeletionMark;
+
+/**
+ * Thrown by adapters. `transient` marks failures worth retrying unchanged
+ * (network, timeouts, rate limits, lock conflicts); anything else is down to the rows sent.
+ */
+export type StoreError = Error & { transient: boolean };
+
+export const storeError = (message: string, transient: boolean): StoreError => Object.assign(new Error(message), { transient });
+
+export const isTransient = (error: unknown) => (error as Partial<StoreError> | null)?.transient === true;
+
+/** Written over the mark to restore a row; new rows carry it too. */
+export const NO_DELETION: Nullable<DeletionMark> = { deletedAt: null, deletedReason: null, deletedBy: null, deletionId: null };
+
+/** Recycle bin rows, most recently deleted first; the cursor value is `deletedAt`. */
+export interface DeletedPage {
+  rows: DeletedVoter[];
+  nextCursor: PageCursor | null;
+}
+
+export interface RestoreTarget {
+  epicNos?: string[];
+  deletionId?: string;
+}
+
+export type VoterSortField = 'lastUpdated' | 'epicNo' | 'name' | 'age' | 'partNo';
+
+export interface VoterSort {
+  field: VoterSortField;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Conditions are ANDed together. Term lists match when any term is a
+ * case-insensitive substring of any of the field's forms.
+ */
+export interface VoterListFilter {
+  /** Against the name forms, or the EPIC */
+  text?: string[];
+  /** Against the parent/spouse name forms */
+  parentSpouseName?: string[];
+  partNo?: string;
+  /** null: rows without a part, stored before the geography tree existed */
+  partId?: string | null;
+  serialNo?: string;
+  minAge?: number;
+  maxAge?: number;
+  gender?: VoterRecord['gender'];
+  /** Substring of the assembly constituency */
+  assemblyConstituency?: string;
+  /** Substring of the polling station name */
+  pollingStation?: string;
+  /** Only rows with a confidence below this value */
+  maxConfidence?: number;
+}
+
+/**
+ * Keyset cursor: the sort value and EPIC of the last row of a page. EPIC
+ * breaks ties so rows sharing a sort value are neither skipped nor repeated.
+ */
+export interface PageCursor {
+  value: string | number;
+  epicNo: string;
+}
+
+export interface VoterPageRequest {
+  sort: VoterSort;
+  limit: number;
+  after?: PageCursor | null;
+  filter?: VoterListFilter;
+}
+
+export interface VoterPage {
+  rows: VoterRecord[];
+  /** null on the last page */
+  nextCursor: PageCursor | null;
+}
+
+export const cursorFor = (row: VoterRecord, field: VoterSortField): PageCursor => ({
+  value: (row[field] ?? '') as string | number,
+  epicNo: row.epicNo
+});
+
+/** A write to a voter row, as delivered to live subscribers. */
+export interface VoterChange {
+  epicNo: string;
+  /** Soft-deleted or purged; otherwise inserted, updated or restored */
+  removed: boolean;
+}
+
+/** What one session announces to the others. */
+export interface PresenceState {
+  /** One per open tab, so an operator with two tabs shows up twice */
+  sessionId: string;
+  actor: string;
+  activity: 'BROWSING' | 'INGESTING';
+  /** The file being ingested */
+  detail?: string;
+  since: string;
+}
+
+export interface PresenceHandle {
+  update(state: PresenceState): void;
+  leave(): void;
+}
+
+export interface FuzzyCandidateRequest {
+  /** Script forms of the query */
+  terms: string[];
+  phoneticKeys: string[];
+  /** Further conditions the candidates must meet, applied before `limit` */
+  filter?: VoterListFilter;
+  limit: number;
+}
+
+export interface VoterStore {
+  readonly backend: StorageBackend;
+  /** Short name for status badges */
+  readonly label: string;
+
+  testConnection(): Promise<{ success: boolean; message: string }>;
+
+  /** Every voter, most recently updated first. */
+  listVoters(): Promise<VoterRecord[]>;
+  countVoters(filter?: VoterListFilter): Promise<number>;
+  /** One keyset-paginated page in the requested order. */
+  listVoterPage(request: VoterPageRequest): Promise<VoterPage>;
+  /**
+   * Rows whose names are close to any term or contain every phonetic key,
+   * best candidates first. Callers rank them with fuzzyService.
+   */
+  listFuzzyCandidates(request: FuzzyCandidateRequest): Promise<VoterRecord[]>;
+  /**
+   * Voters stored before the derived name columns existed (`nameLatin` or `namePhonetic` unset):
+   * up to `limit` of them in EPIC order, after `afterEpicNo` when given.
+   */
+  listMissingScripts(limit: number, afterEpicNo?: string | null): Promise<VoterRecord[]>;
+  getByEpicNos(epicNos: string[]): Promise<VoterRecord[]>;
+  getByPartNos(partNos: string[]): Promise<VoterRecord[]>;
+
+  /** Insert or replace by EPIC; a soft-deleted row is replaced too, which restores it. */
+  upsertVoters(rows: VoterRow[]): Promise<void>;
+  /** Marks active rows deleted; returns how many were. */
+  softDeleteVoters(epicNos: string[], mark: DeletionMark): Promise<number>;
+  softDeleteAll(mark: DeletionMark): Promise<number>;
+  /** Clears the mark on matching deleted rows; returns their EPICs. */
+  restoreVoters(target: RestoreTarget): Promise<string[]>;
+  listDeleted(request: { limit: number; after?: PageCursor | null }): Promise<DeletedPage>;
+  countDeleted(): Promise<number>;
+  /** Permanently removes rows deleted before `cutoff`; returns how many were. */
+  purgeDeleted(cutoff: string): Promise<number>;
+
+  /** Pairs with `status`, best score first. */
+  listDuplicatePairs(status: DuplicateStatus): Promise<DuplicatePair[]>;
+  /** Inserts pairs whose id is new; existing pairs keep their decision. */
+  insertDuplicatePairs(pairs: DuplicatePair[]): Promise<void>;
+  updateDuplicatePair(id: string, patch: Pick<DuplicatePair, 'status' | 'resolvedAt'>): Promise<void>;
+
+  /** Audit entries are only ever appended, never updated or removed. */
+  appendAudit(entries: AuditEntry[]): Promise<void>;
+  /** Matching entries, newest first. */
+  listAudit(query: AuditQuery): Promise<AuditPage>;
+
+  /** The whole geography tree; it is small enough to load at once. */
+  listGeoUnits(): Promise<GeoUnit[]>;
+  /** Inserts or replaces by id. */
+  saveGeoUnits(units: GeoUnit[]): Promise<void>;
+  deleteGeoUnit(id: string): Promise<void>;
+
+  /** Versions are only ever appended, like audit entries. */
+  appendVersions(versions: VoterVersion[]): Promise<void>;
+  /** Every version of one voter, newest first. */
+  listVersions(epicNo: string): Promise<VoterVersion[]>;
+  /** Highest stored version per EPIC; EPICs without history are left out. */
+  latestVersions(epicNos: string[]): Promise<Record<string, number>>;
+
+  /**
+   * Calls `onChange` after voter rows are written, by this session or any
+   * other; returns a function that stops the calls.
+   */
+  watchVoters(onChange: (changes: VoterChange[]) => void): () => void;
+  /** Announces `state` to other sessions; `onSync` receives everyone present, this session included. */
+  joinPresence(state: PresenceState, onSync: (present: PresenceState[]) => void): PresenceHandle;
+}
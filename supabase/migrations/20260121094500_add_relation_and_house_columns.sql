@@ -0,0 +1,16 @@
+/*
+  # Add relation type and house number to voters
+
+  1. Modified Tables
+    - `voters_table`
+      - `relationType` (text, nullable) - Relation of `parentSpouseName` to the voter (FATHER/HUSBAND/MOTHER/OTHER)
+      - `houseNo` (text) - House number printed in the voter box
+
+  2. Notes
+    - Both fields are produced by the layout-aware roll parser. Existing rows
+      keep NULL / empty values until they are re-ingested.
+*/
+
+ALTER TABLE voters_table
+  ADD COLUMN IF NOT EXISTS "relationType" text CHECK ("relationType" IN ('FATHER', 'HUSBAND', 'MOTHER', 'OTHER')),
+  ADD COLUMN IF NOT EXISTS "houseNo" text NOT NULL DEFAULT '';
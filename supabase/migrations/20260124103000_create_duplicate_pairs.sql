@@ -0,0 +1,53 @@
+/*
+  # Create duplicate review queue
+
+  1. New Tables
+    - `duplicate_pairs`
+      - `id` (text, primary key) - `epicA|epicB`, EPICs in sorted order
+      - `epicA` / `epicB` (text) - The two voter records suspected to be the same person
+      - `score` (numeric) - Weighted similarity between 0 and 1
+      - `reasons` (jsonb) - Human-readable match reasons
+      - `status` (text) - OPEN, MERGED, KEPT (both are distinct people) or FLAGGED
+      - `createdAt` / `resolvedAt` (timestamptz)
+
+  2. Notes
+    - Pairs are not foreign keys to `voters_table`: a merge deletes one side
+      and the resolved pair is kept as a record of the decision.
+    - Same public demo policies as `voters_table`.
+*/
+
+CREATE TABLE IF NOT EXISTS duplicate_pairs (
+  id text PRIMARY KEY,
+  "epicA" text NOT NULL,
+  "epicB" text NOT NULL,
+  score numeric(4, 3) NOT NULL,
+  reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'MERGED', 'KEPT', 'FLAGGED')),
+  "createdAt" timestamptz DEFAULT now(),
+  "resolvedAt" timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_pairs_status ON duplicate_pairs USING btree (status);
+CREATE INDEX IF NOT EXISTS idx_voters_part ON voters_table USING btree ("partNo");
+
+ALTER TABLE duplicate_pairs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON duplicate_pairs;
+DROP POLICY IF EXISTS "Allow public insert access" ON duplicate_pairs;
+DROP POLICY IF EXISTS "Allow public update access" ON duplicate_pairs;
+
+CREATE POLICY "Allow public read access"
+  ON duplicate_pairs
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert access"
+  ON duplicate_pairs
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update access"
+  ON duplicate_pairs
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,27 @@
+/*
+  # Store names in both Devanagari and Latin script
+
+  1. Modified Tables
+    - `voters_table`
+      - `nameNative` / `nameLatin` (text, nullable) - Devanagari and Latin forms of `name`
+      - `parentSpouseNameNative` / `parentSpouseNameLatin` (text, nullable) - Same for `parentSpouseName`
+
+  2. Indexes
+    - Trigram indexes on every name form so `ilike '%…%'` search stays indexed
+
+  3. Notes
+    - The forms are derived client-side on every upsert. Rows stored earlier
+      keep NULL until backfilled from the Vault tab ("Dual-Script Names").
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE voters_table
+  ADD COLUMN IF NOT EXISTS "nameNative" text,
+  ADD COLUMN IF NOT EXISTS "nameLatin" text,
+  ADD COLUMN IF NOT EXISTS "parentSpouseNameNative" text,
+  ADD COLUMN IF NOT EXISTS "parentSpouseNameLatin" text;
+
+CREATE INDEX IF NOT EXISTS idx_voters_name_trgm ON voters_table USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voters_name_native_trgm ON voters_table USING gin ("nameNative" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voters_name_latin_trgm ON voters_table USING gin ("nameLatin" gin_trgm_ops);
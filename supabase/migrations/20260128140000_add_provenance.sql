@@ -0,0 +1,21 @@
+/*
+  # Add record provenance and extraction confidence
+
+  1. Modified Tables
+    - `voters_table`
+      - `provenance` (jsonb, nullable) - Source file name and SHA-256, sheet/page/row,
+        extraction method, model, timestamp and confidence
+      - `confidence` (numeric, nullable) - Copy of `provenance.confidence`, written by
+        the client on every upsert so low-confidence filtering can use an index
+
+  2. Notes
+    - Rows stored before this migration have no provenance and are not
+      matched by the low-confidence filter.
+*/
+
+ALTER TABLE voters_table
+  ADD COLUMN IF NOT EXISTS provenance jsonb,
+  ADD COLUMN IF NOT EXISTS confidence numeric(3, 2) CHECK (confidence BETWEEN 0 AND 1);
+
+CREATE INDEX IF NOT EXISTS idx_voters_confidence ON voters_table USING btree (confidence);
+CREATE INDEX IF NOT EXISTS idx_voters_provenance_file ON voters_table USING btree ((provenance->>'fileHash'));
@@ -0,0 +1,24 @@
+/*
+  # Indexes for structured voter search
+
+  1. Indexes
+    - `voters_table`
+      - Trigram indexes on `parentSpouseName` and its Latin/native forms
+      - Trigram indexes on `assemblyConstituency` and `pollingStation->>'name'`
+      - B-tree on (`partNo`, `serialNo`) for part + serial lookups
+      - B-tree on `age` for age-range filters
+
+  2. Notes
+    - Search conditions are ANDed; every term is a case-insensitive
+      substring (`ilike '%…%'`), which is what the trigram indexes serve.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_voters_parent_trgm ON voters_table USING gin ("parentSpouseName" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voters_parent_native_trgm ON voters_table USING gin ("parentSpouseNameNative" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voters_parent_latin_trgm ON voters_table USING gin ("parentSpouseNameLatin" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voters_assembly_trgm ON voters_table USING gin ("assemblyConstituency" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voters_station_name_trgm ON voters_table USING gin (("pollingStation"->>'name') gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voters_part_serial ON voters_table USING btree ("partNo", "serialNo");
+CREATE INDEX IF NOT EXISTS idx_voters_age ON voters_table USING btree (age);
@@ -0,0 +1,59 @@
+/*
+  # Fuzzy and phonetic name search
+
+  1. Modified Tables
+    - `voters_table`
+      - `namePhonetic` (text[], nullable) - Phonetic key per name token, derived
+        client-side (see fuzzyService.phoneticKeys)
+
+  2. New Functions
+    - `search_voters_fuzzy(terms text[], phonetic_keys text[], max_rows integer)`
+      - Returns `voters_table` rows whose name forms are word-similar to any
+        term, contain every phonetic key, or whose EPIC contains a term
+      - Ordered by best word similarity; the client re-ranks the candidates
+
+  3. Indexes
+    - GIN index on `namePhonetic` for the `@>` containment check
+    - The trigram indexes from the dual-script migration serve `<%`
+
+  4. Notes
+    - Rows stored earlier keep NULL until backfilled from the Vault tab.
+    - The word-similarity threshold is lowered to 0.4 inside the function so
+      OCR-damaged spellings still reach the client-side ranking.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE voters_table
+  ADD COLUMN IF NOT EXISTS "namePhonetic" text[];
+
+CREATE INDEX IF NOT EXISTS idx_voters_name_phonetic ON voters_table USING gin ("namePhonetic");
+
+CREATE OR REPLACE FUNCTION search_voters_fuzzy(terms text[], phonetic_keys text[], max_rows integer DEFAULT 200)
+RETURNS SETOF voters_table
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  SELECT v.*
+  FROM voters_table v
+  WHERE EXISTS (
+      SELECT 1 FROM unnest(terms) AS t
+      WHERE t <% v.name
+         OR t <% coalesce(v."nameLatin", '')
+         OR t <% coalesce(v."nameNative", '')
+         OR v."epicNo" ILIKE '%' || t || '%'
+    )
+    OR (cardinality(phonetic_keys) > 0 AND v."namePhonetic" @> phonetic_keys)
+  ORDER BY (
+    SELECT max(greatest(
+      word_similarity(t, v.name),
+      word_similarity(t, coalesce(v."nameLatin", '')),
+      word_similarity(t, coalesce(v."nameNative", ''))
+    ))
+    FROM unnest(terms) AS t
+  ) DESC
+  LIMIT max_rows;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_voters_fuzzy(text[], text[], integer) TO anon, authenticated;
@@ -0,0 +1,69 @@
+/*
+  # Append-only audit trail
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key) - Time-ordered (UUIDv7-style), generated client-side
+      - `actor` (text) - Signed-in user who made the change
+      - `action` (text) - INSERT / UPDATE / DELETE / IMPORT / TRUNCATE
+      - `epicNo` (text, nullable) - Affected voter; NULL for table-wide actions
+      - `before` (jsonb, nullable) - Row before the change
+      - `after` (jsonb, nullable) - Row after the change
+      - `source` (text) - What triggered the change, e.g. "INGEST: roll_142.pdf"
+      - `note` (text, nullable) - Summary for table-wide actions
+      - `createdAt` (timestamptz)
+
+  2. Security
+    - Enable RLS; public insert and read only (demo setup, as for voters_table)
+    - No update or delete policies, and a trigger rejects UPDATE/DELETE
+      even for roles that bypass RLS, so entries cannot be rewritten
+
+  3. Indexes
+    - (`createdAt` DESC, `id` DESC) for the newest-first keyset pagination
+    - `epicNo`, `actor` for the viewer's filters
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY,
+  actor text NOT NULL,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE', 'IMPORT', 'TRUNCATE')),
+  "epicNo" text,
+  before jsonb,
+  after jsonb,
+  source text NOT NULL DEFAULT '',
+  note text,
+  "createdAt" timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log USING btree ("createdAt" DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_epic ON audit_log USING btree ("epicNo");
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log USING btree (actor);
+
+CREATE OR REPLACE FUNCTION audit_log_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_no_rewrite ON audit_log;
+CREATE TRIGGER audit_log_no_rewrite
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_immutable();
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON audit_log;
+DROP POLICY IF EXISTS "Allow public insert access" ON audit_log;
+
+CREATE POLICY "Allow public read access"
+  ON audit_log
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert access"
+  ON audit_log
+  FOR INSERT
+  WITH CHECK (true);
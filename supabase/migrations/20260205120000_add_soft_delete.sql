@@ -0,0 +1,67 @@
+/*
+  # Soft delete and recycle bin
+
+  1. Modified Tables
+    - `voters_table`
+      - `deletedAt` (timestamptz, nullable) - Set when the voter is moved to the recycle bin
+      - `deletedReason` (text, nullable) - Operator's reason, or "Table wipe"
+      - `deletedBy` (text, nullable) - Actor who deleted the row
+      - `deletionId` (text, nullable) - Shared by every row removed in one action,
+        so a whole table wipe can be restored at once
+    - `audit_log`
+      - `action` also accepts RESTORE and PURGE
+
+  2. Modified Functions
+    - `search_voters_fuzzy` skips soft-deleted rows before applying its limit
+
+  3. Indexes
+    - Partial index on (`deletedAt` DESC, `epicNo`) for the recycle bin
+    - Partial index on `deletionId` for batch restore
+
+  4. Notes
+    - Rows are purged permanently by the app once `deletedAt` is older than
+      the retention window (30 days); only the purge issues a real DELETE.
+*/
+
+ALTER TABLE voters_table
+  ADD COLUMN IF NOT EXISTS "deletedAt" timestamptz,
+  ADD COLUMN IF NOT EXISTS "deletedReason" text,
+  ADD COLUMN IF NOT EXISTS "deletedBy" text,
+  ADD COLUMN IF NOT EXISTS "deletionId" text;
+
+CREATE INDEX IF NOT EXISTS idx_voters_deleted ON voters_table USING btree ("deletedAt" DESC, "epicNo") WHERE "deletedAt" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_voters_deletion_id ON voters_table USING btree ("deletionId") WHERE "deletionId" IS NOT NULL;
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('INSERT', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE', 'IMPORT', 'TRUNCATE'));
+
+CREATE OR REPLACE FUNCTION search_voters_fuzzy(terms text[], phonetic_keys text[], max_rows integer DEFAULT 200)
+RETURNS SETOF voters_table
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  SELECT v.*
+  FROM voters_table v
+  WHERE v."deletedAt" IS NULL
+    AND (
+      EXISTS (
+        SELECT 1 FROM unnest(terms) AS t
+        WHERE t <% v.name
+           OR t <% coalesce(v."nameLatin", '')
+           OR t <% coalesce(v."nameNative", '')
+           OR v."epicNo" ILIKE '%' || t || '%'
+      )
+      OR (cardinality(phonetic_keys) > 0 AND v."namePhonetic" @> phonetic_keys)
+    )
+  ORDER BY (
+    SELECT max(greatest(
+      word_similarity(t, v.name),
+      word_similarity(t, coalesce(v."nameLatin", '')),
+      word_similarity(t, coalesce(v."nameNative", ''))
+    ))
+    FROM unnest(terms) AS t
+  ) DESC
+  LIMIT max_rows;
+$$;
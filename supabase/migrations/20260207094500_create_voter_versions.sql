@@ -0,0 +1,70 @@
+/*
+  # Voter version history
+
+  1. New Tables
+    - `voter_versions`
+      - `id` (uuid, primary key) - Time-ordered (UUIDv7-style), generated client-side
+      - `epicNo` (text) - Voter the version belongs to
+      - `version` (integer) - 1-based, per EPIC
+      - `record` (jsonb) - The full voter record as written
+      - `source` (text) - What wrote it, e.g. "INGEST: roll_142.pdf" or "ROLLBACK: v3"
+      - `actor` (text) - Signed-in user who wrote it
+      - `createdAt` (timestamptz)
+
+  2. New Views
+    - `voter_latest_versions` - Highest `version` per `epicNo`, read before
+      every upsert to number the next versions
+
+  3. Security
+    - Enable RLS; public insert and read only (demo setup, as for audit_log)
+    - The audit_log trigger function also rejects UPDATE/DELETE here, so a
+      stored version can never be rewritten
+
+  4. Indexes
+    - Unique (`epicNo`, `version`); also serves the history and latest-version lookups
+
+  5. Notes
+    - Records written before this migration get a BASELINE version the first
+      time they are replaced, so nothing needs backfilling here.
+*/
+
+CREATE TABLE IF NOT EXISTS voter_versions (
+  id uuid PRIMARY KEY,
+  "epicNo" text NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  record jsonb NOT NULL,
+  source text NOT NULL DEFAULT '',
+  actor text NOT NULL,
+  "createdAt" timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_voter_versions_epic_version ON voter_versions USING btree ("epicNo", version DESC);
+
+CREATE OR REPLACE VIEW voter_latest_versions
+WITH (security_invoker = true)
+AS
+  SELECT "epicNo", max(version) AS version
+  FROM voter_versions
+  GROUP BY "epicNo";
+
+DROP TRIGGER IF EXISTS voter_versions_no_rewrite ON voter_versions;
+CREATE TRIGGER voter_versions_no_rewrite
+  BEFORE UPDATE OR DELETE ON voter_versions
+  FOR EACH ROW EXECUTE FUNCTION audit_log_immutable();
+
+ALTER TABLE voter_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON voter_versions;
+DROP POLICY IF EXISTS "Allow public insert access" ON voter_versions;
+
+CREATE POLICY "Allow public read access"
+  ON voter_versions
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert access"
+  ON voter_versions
+  FOR INSERT
+  WITH CHECK (true);
+
+GRANT SELECT ON voter_latest_versions TO anon, authenticated;
@@ -0,0 +1,210 @@
+/*
+  # Normalized electoral geography
+
+  1. New Tables
+    - `geo_units` - One row per state, district, parliamentary constituency (PC),
+      assembly constituency (AC), part and polling station
+      - `id` (uuid, primary key)
+      - `level` (text) - STATE / DISTRICT / PC / AC / PART / STATION
+      - `parentId` (uuid, nullable) - The unit one level up; NULL for states
+      - `name` (text) - Unit name; a part's name
+      - `code` (text, nullable) - Part number, for parts
+      - `address` (text, nullable) - Polling station address, for stations
+
+  2. Modified Tables
+    - `voters_table`
+      - `partId` (uuid) - The voter's part, replacing `state`, `district`,
+        `parliamentaryConstituency`, `assemblyConstituency`, `partNo`,
+        `partName` and `pollingStation`, which are moved into `geo_units`
+        and dropped
+
+  3. New Views
+    - `voters_expanded` - voters_table joined with its part's branch, exposing
+      the dropped columns under their old names. The app reads voters only
+      through it, so search filters and sorting are unchanged
+
+  4. Modified Functions
+    - `search_voters_fuzzy` returns `voters_expanded` rows
+
+  5. Security
+    - Enable RLS on `geo_units`; public access (demo setup, as for voters_table)
+    - A unit cannot be deleted while units or voters reference it
+
+  6. Indexes
+    - Siblings are unique by name (parts: by number), and a part has at most
+      one polling station, so ingestion can match existing units
+    - `parentId` on `geo_units`; (`partId`, `serialNo`) on `voters_table`,
+      replacing the (`partNo`, `serialNo`) index dropped with its column
+
+  7. Notes
+    - Names are matched case-insensitively after trimming while moving data;
+      blank values become units named '' so every voter gets a part.
+*/
+
+CREATE TABLE IF NOT EXISTS geo_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  level text NOT NULL CHECK (level IN ('STATE', 'DISTRICT', 'PC', 'AC', 'PART', 'STATION')),
+  "parentId" uuid REFERENCES geo_units (id) ON DELETE RESTRICT,
+  name text NOT NULL DEFAULT '',
+  code text,
+  address text,
+  CHECK (("parentId" IS NULL) = (level = 'STATE'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geo_units_sibling_name
+  ON geo_units (coalesce("parentId", '00000000-0000-0000-0000-000000000000'::uuid), level, lower(name))
+  WHERE level NOT IN ('PART', 'STATION');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geo_units_part_code ON geo_units ("parentId", code) WHERE level = 'PART';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geo_units_one_station ON geo_units ("parentId") WHERE level = 'STATION';
+CREATE INDEX IF NOT EXISTS idx_geo_units_parent ON geo_units USING btree ("parentId");
+
+-- Move the repeated columns into the tree, one level at a time
+CREATE TEMP TABLE voter_geo AS
+SELECT
+  "epicNo",
+  trim(coalesce(state, '')) AS state,
+  trim(coalesce(district, '')) AS district,
+  trim(coalesce("parliamentaryConstituency", '')) AS pc,
+  trim(coalesce("assemblyConstituency", '')) AS ac,
+  trim(coalesce("partNo", '')) AS part_no,
+  trim(coalesce("partName", '')) AS part_name,
+  trim(coalesce("pollingStation"->>'name', '')) AS station_name,
+  trim(coalesce("pollingStation"->>'address', '')) AS station_address,
+  NULL::uuid AS state_id,
+  NULL::uuid AS district_id,
+  NULL::uuid AS pc_id,
+  NULL::uuid AS ac_id,
+  NULL::uuid AS part_id
+FROM voters_table;
+
+INSERT INTO geo_units (level, "parentId", name)
+SELECT DISTINCT ON (lower(state)) 'STATE', NULL::uuid, state FROM voter_geo ORDER BY lower(state), state;
+UPDATE voter_geo g SET state_id = u.id FROM geo_units u
+WHERE u.level = 'STATE' AND lower(u.name) = lower(g.state);
+
+INSERT INTO geo_units (level, "parentId", name)
+SELECT DISTINCT ON (state_id, lower(district)) 'DISTRICT', state_id, district FROM voter_geo ORDER BY state_id, lower(district), district;
+UPDATE voter_geo g SET district_id = u.id FROM geo_units u
+WHERE u.level = 'DISTRICT' AND u."parentId" = g.state_id AND lower(u.name) = lower(g.district);
+
+INSERT INTO geo_units (level, "parentId", name)
+SELECT DISTINCT ON (district_id, lower(pc)) 'PC', district_id, pc FROM voter_geo ORDER BY district_id, lower(pc), pc;
+UPDATE voter_geo g SET pc_id = u.id FROM geo_units u
+WHERE u.level = 'PC' AND u."parentId" = g.district_id AND lower(u.name) = lower(g.pc);
+
+INSERT INTO geo_units (level, "parentId", name)
+SELECT DISTINCT ON (pc_id, lower(ac)) 'AC', pc_id, ac FROM voter_geo ORDER BY pc_id, lower(ac), ac;
+UPDATE voter_geo g SET ac_id = u.id FROM geo_units u
+WHERE u.level = 'AC' AND u."parentId" = g.pc_id AND lower(u.name) = lower(g.ac);
+
+-- A part takes the first non-blank name any of its voters carried
+INSERT INTO geo_units (level, "parentId", code, name)
+SELECT DISTINCT ON (ac_id, part_no) 'PART', ac_id, part_no, part_name FROM voter_geo ORDER BY ac_id, part_no, part_name = '', part_name;
+UPDATE voter_geo g SET part_id = u.id FROM geo_units u
+WHERE u.level = 'PART' AND u."parentId" = g.ac_id AND u.code = g.part_no;
+
+INSERT INTO geo_units (level, "parentId", name, address)
+SELECT DISTINCT ON (part_id) 'STATION', part_id, station_name, station_address
+FROM voter_geo
+WHERE station_name <> '' OR station_address <> ''
+ORDER BY part_id, station_name = '', station_address = '', station_name;
+
+ALTER TABLE voters_table ADD COLUMN IF NOT EXISTS "partId" uuid REFERENCES geo_units (id) ON DELETE RESTRICT;
+UPDATE voters_table v SET "partId" = g.part_id FROM voter_geo g WHERE g."epicNo" = v."epicNo";
+CREATE INDEX IF NOT EXISTS idx_voters_part_serial ON voters_table USING btree ("partId", "serialNo");
+
+DROP TABLE voter_geo;
+
+-- The function's row type is rebuilt on the view below
+DROP FUNCTION IF EXISTS search_voters_fuzzy(text[], text[], integer);
+
+ALTER TABLE voters_table
+  DROP COLUMN IF EXISTS state,
+  DROP COLUMN IF EXISTS district,
+  DROP COLUMN IF EXISTS "parliamentaryConstituency",
+  DROP COLUMN IF EXISTS "assemblyConstituency",
+  DROP COLUMN IF EXISTS "partNo",
+  DROP COLUMN IF EXISTS "partName",
+  DROP COLUMN IF EXISTS "pollingStation";
+
+CREATE OR REPLACE VIEW voters_expanded
+WITH (security_invoker = true)
+AS
+  SELECT
+    v.*,
+    coalesce(s.name, '') AS state,
+    coalesce(d.name, '') AS district,
+    coalesce(pc.name, '') AS "parliamentaryConstituency",
+    coalesce(ac.name, '') AS "assemblyConstituency",
+    coalesce(p.code, '') AS "partNo",
+    coalesce(p.name, '') AS "partName",
+    jsonb_build_object('name', coalesce(st.name, ''), 'address', coalesce(st.address, '')) AS "pollingStation"
+  FROM voters_table v
+  LEFT JOIN geo_units p ON p.id = v."partId"
+  LEFT JOIN geo_units ac ON ac.id = p."parentId"
+  LEFT JOIN geo_units pc ON pc.id = ac."parentId"
+  LEFT JOIN geo_units d ON d.id = pc."parentId"
+  LEFT JOIN geo_units s ON s.id = d."parentId"
+  LEFT JOIN geo_units st ON st."parentId" = p.id AND st.level = 'STATION';
+
+GRANT SELECT ON voters_expanded TO anon, authenticated;
+
+CREATE FUNCTION search_voters_fuzzy(terms text[], phonetic_keys text[], max_rows integer DEFAULT 200)
+RETURNS SETOF voters_expanded
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  SELECT v.*
+  FROM voters_expanded v
+  WHERE v."deletedAt" IS NULL
+    AND (
+      EXISTS (
+        SELECT 1 FROM unnest(terms) AS t
+        WHERE t <% v.name
+           OR t <% coalesce(v."nameLatin", '')
+           OR t <% coalesce(v."nameNative", '')
+           OR v."epicNo" ILIKE '%' || t || '%'
+      )
+      OR (cardinality(phonetic_keys) > 0 AND v."namePhonetic" @> phonetic_keys)
+    )
+  ORDER BY (
+    SELECT max(greatest(
+      word_similarity(t, v.name),
+      word_similarity(t, coalesce(v."nameLatin", '')),
+      word_similarity(t, coalesce(v."nameNative", ''))
+    ))
+    FROM unnest(terms) AS t
+  ) DESC
+  LIMIT max_rows;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_voters_fuzzy(text[], text[], integer) TO anon, authenticated;
+
+ALTER TABLE geo_units ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access" ON geo_units;
+DROP POLICY IF EXISTS "Allow public insert access" ON geo_units;
+DROP POLICY IF EXISTS "Allow public update access" ON geo_units;
+DROP POLICY IF EXISTS "Allow public delete access" ON geo_units;
+
+CREATE POLICY "Allow public read access"
+  ON geo_units
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert access"
+  ON geo_units
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update access"
+  ON geo_units
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public delete access"
+  ON geo_units
+  FOR DELETE
+  USING (true);
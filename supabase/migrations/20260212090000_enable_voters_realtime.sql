@@ -0,0 +1,25 @@
+/*
+  # Live updates for voters
+
+  1. Modified Publications
+    - `supabase_realtime` includes `voters_table`, so every write is streamed
+      to subscribed clients (the app's live counts, tables and slips)
+
+  2. Notes
+    - Soft deletes are UPDATEs carrying `deletedAt`; only a purge streams a
+      DELETE, whose payload holds just the primary key (`epicNo`), which is
+      all the app reads from it
+    - Realtime applies the table's RLS policies to each subscriber; the
+      public read policy lets every client receive the changes
+    - Operator presence uses a Realtime channel only and needs no schema
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'voters_table'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE voters_table;
+  END IF;
+END $$;
@@ -0,0 +1,229 @@
+/*
+  # Accounts and roles
+
+  1. New Tables
+    - `user_profiles`
+      - `id` (uuid, primary key) - The Supabase Auth user
+      - `login` (text) - Sign-in email; recorded as the audit actor
+      - `name` (text) - Display name
+      - `role` (text) - ADMIN / DATA_ENTRY / HELPDESK / VIEWER
+      - `disabled` (boolean) - Disabled accounts pass no policy
+      - `createdAt` (timestamptz)
+
+  2. New Functions
+    - `app_role()` - The caller's role, NULL when signed out or disabled;
+      used by every policy below
+    - `app_needs_setup()` - True until the first account exists, so the
+      login screen can offer to create the first administrator
+    - `handle_new_user()` - Trigger on `auth.users` that creates the profile:
+      the very first account becomes an active ADMIN; every later one starts
+      as a disabled VIEWER, so a public sign-up with the anon key reads
+      nothing until an admin assigns its role and enables it
+
+  3. Security
+    - Replaces the public policies on `voters_table`, `geo_units`,
+      `duplicate_pairs`, `audit_log` and `voter_versions`:
+      - Reading requires an active account
+      - Voters, duplicate pairs and versions are written by ADMIN and
+        DATA_ENTRY; only ADMIN purges voters (DELETE)
+      - Geography is inserted and updated by ADMIN and DATA_ENTRY (ingest
+        fills it in); only ADMIN deletes units
+      - The audit log is read by ADMIN and VIEWER and appended to by ADMIN
+        and DATA_ENTRY, the roles that write voters, only under their own
+        login as `actor`
+    - `user_profiles`: users read their own row, ADMIN reads and updates all
+
+  4. Notes
+    - Wiping the vault and restoring from the recycle bin are soft-delete
+      UPDATEs, which DATA_ENTRY may also issue; the app limits them to ADMIN
+    - Disable "Confirm email" in Supabase Auth, or confirm new accounts
+      before they sign in
+*/
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  login text NOT NULL,
+  name text NOT NULL DEFAULT '',
+  role text NOT NULL DEFAULT 'VIEWER' CHECK (role IN ('ADMIN', 'DATA_ENTRY', 'HELPDESK', 'VIEWER')),
+  disabled boolean NOT NULL DEFAULT false,
+  "createdAt" timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION app_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM user_profiles WHERE id = auth.uid() AND NOT disabled;
+$$;
+
+CREATE OR REPLACE FUNCTION app_needs_setup()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM user_profiles);
+$$;
+
+GRANT EXECUTE ON FUNCTION app_role() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION app_needs_setup() TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM user_profiles) THEN
+    INSERT INTO user_profiles (id, login, name, role, disabled)
+    VALUES (NEW.id, NEW.email, COALESCE(NEW.raw_user_meta_data ->> 'name', ''), 'VIEWER', true);
+  ELSE
+    INSERT INTO user_profiles (id, login, name, role, disabled)
+    VALUES (NEW.id, NEW.email, COALESCE(NEW.raw_user_meta_data ->> 'name', ''), 'ADMIN', false);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own profile" ON user_profiles;
+DROP POLICY IF EXISTS "Admins read profiles" ON user_profiles;
+DROP POLICY IF EXISTS "Admins update profiles" ON user_profiles;
+
+CREATE POLICY "Users read own profile"
+  ON user_profiles
+  FOR SELECT
+  USING (id = auth.uid());
+
+CREATE POLICY "Admins read profiles"
+  ON user_profiles
+  FOR SELECT
+  USING (app_role() = 'ADMIN');
+
+CREATE POLICY "Admins update profiles"
+  ON user_profiles
+  FOR UPDATE
+  USING (app_role() = 'ADMIN')
+  WITH CHECK (app_role() = 'ADMIN');
+
+-- voters_table
+
+DROP POLICY IF EXISTS "Allow public read access" ON voters_table;
+DROP POLICY IF EXISTS "Allow public insert access" ON voters_table;
+DROP POLICY IF EXISTS "Allow public update access" ON voters_table;
+DROP POLICY IF EXISTS "Allow public delete access" ON voters_table;
+
+CREATE POLICY "Signed-in read access"
+  ON voters_table
+  FOR SELECT
+  USING (app_role() IS NOT NULL);
+
+CREATE POLICY "Writers insert access"
+  ON voters_table
+  FOR INSERT
+  WITH CHECK (app_role() IN ('ADMIN', 'DATA_ENTRY'));
+
+CREATE POLICY "Writers update access"
+  ON voters_table
+  FOR UPDATE
+  USING (app_role() IN ('ADMIN', 'DATA_ENTRY'))
+  WITH CHECK (app_role() IN ('ADMIN', 'DATA_ENTRY'));
+
+CREATE POLICY "Admins delete access"
+  ON voters_table
+  FOR DELETE
+  USING (app_role() = 'ADMIN');
+
+-- geo_units
+
+DROP POLICY IF EXISTS "Allow public read access" ON geo_units;
+DROP POLICY IF EXISTS "Allow public insert access" ON geo_units;
+DROP POLICY IF EXISTS "Allow public update access" ON geo_units;
+DROP POLICY IF EXISTS "Allow public delete access" ON geo_units;
+
+CREATE POLICY "Signed-in read access"
+  ON geo_units
+  FOR SELECT
+  USING (app_role() IS NOT NULL);
+
+CREATE POLICY "Writers insert access"
+  ON geo_units
+  FOR INSERT
+  WITH CHECK (app_role() IN ('ADMIN', 'DATA_ENTRY'));
+
+CREATE POLICY "Writers update access"
+  ON geo_units
+  FOR UPDATE
+  USING (app_role() IN ('ADMIN', 'DATA_ENTRY'))
+  WITH CHECK (app_role() IN ('ADMIN', 'DATA_ENTRY'));
+
+CREATE POLICY "Admins delete access"
+  ON geo_units
+  FOR DELETE
+  USING (app_role() = 'ADMIN');
+
+-- duplicate_pairs
+
+DROP POLICY IF EXISTS "Allow public read access" ON duplicate_pairs;
+DROP POLICY IF EXISTS "Allow public insert access" ON duplicate_pairs;
+DROP POLICY IF EXISTS "Allow public update access" ON duplicate_pairs;
+
+CREATE POLICY "Signed-in read access"
+  ON duplicate_pairs
+  FOR SELECT
+  USING (app_role() IS NOT NULL);
+
+CREATE POLICY "Writers insert access"
+  ON duplicate_pairs
+  FOR INSERT
+  WITH CHECK (app_role() IN ('ADMIN', 'DATA_ENTRY'));
+
+CREATE POLICY "Writers update access"
+  ON duplicate_pairs
+  FOR UPDATE
+  USING (app_role() IN ('ADMIN', 'DATA_ENTRY'))
+  WITH CHECK (app_role() IN ('ADMIN', 'DATA_ENTRY'));
+
+-- audit_log
+
+DROP POLICY IF EXISTS "Allow public read access" ON audit_log;
+DROP POLICY IF EXISTS "Allow public insert access" ON audit_log;
+
+CREATE POLICY "Auditors read access"
+  ON audit_log
+  FOR SELECT
+  USING (app_role() IN ('ADMIN', 'VIEWER'));
+
+CREATE POLICY "Writers insert own entries"
+  ON audit_log
+  FOR INSERT
+  WITH CHECK (
+    app_role() IN ('ADMIN', 'DATA_ENTRY')
+    AND actor = (SELECT login FROM user_profiles WHERE id = auth.uid())
+  );
+
+-- voter_versions
+
+DROP POLICY IF EXISTS "Allow public read access" ON voter_versions;
+DROP POLICY IF EXISTS "Allow public insert access" ON voter_versions;
+
+CREATE POLICY "Signed-in read access"
+  ON voter_versions
+  FOR SELECT
+  USING (app_role() IS NOT NULL);
+
+CREATE POLICY "Writers insert access"
+  ON voter_versions
+  FOR INSERT
+  WITH CHECK (app_role() IN ('ADMIN', 'DATA_ENTRY'));
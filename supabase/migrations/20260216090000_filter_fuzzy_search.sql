@@ -0,0 +1,86 @@
+/*
+  # Filters inside fuzzy search
+
+  1. Modified Functions
+    - `search_voters_fuzzy` takes the search filters as optional parameters
+      and applies them before ranking and `LIMIT max_rows`:
+      - `parent_terms` - Any term contained in a parent/spouse name form
+      - `part_no`, `part_id`, `serial_no`, `gender` - Exact matches
+      - `min_age`, `max_age` - Inclusive age range
+      - `assembly_constituency`, `polling_station` - Case-insensitive substrings
+      - `max_confidence` - Only rows with a confidence below it
+
+  2. Notes
+    - Filtering the function's result instead dropped real matches that
+      ranked below the limit across the whole vault, e.g. a name searched
+      within one part
+    - A NULL parameter leaves that filter off
+    - Substrings are matched with `strpos`, so `%` and `_` in user input are
+      literal characters
+*/
+
+DROP FUNCTION IF EXISTS search_voters_fuzzy(text[], text[], integer);
+
+CREATE FUNCTION search_voters_fuzzy(
+  terms text[],
+  phonetic_keys text[],
+  max_rows integer DEFAULT 200,
+  parent_terms text[] DEFAULT NULL,
+  part_no text DEFAULT NULL,
+  part_id uuid DEFAULT NULL,
+  serial_no text DEFAULT NULL,
+  min_age integer DEFAULT NULL,
+  max_age integer DEFAULT NULL,
+  gender text DEFAULT NULL,
+  assembly_constituency text DEFAULT NULL,
+  polling_station text DEFAULT NULL,
+  max_confidence numeric DEFAULT NULL
+)
+RETURNS SETOF voters_expanded
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  SELECT v.*
+  FROM voters_expanded v
+  WHERE v."deletedAt" IS NULL
+    AND (
+      EXISTS (
+        SELECT 1 FROM unnest(terms) AS t
+        WHERE t <% v.name
+           OR t <% coalesce(v."nameLatin", '')
+           OR t <% coalesce(v."nameNative", '')
+           OR v."epicNo" ILIKE '%' || t || '%'
+      )
+      OR (cardinality(phonetic_keys) > 0 AND v."namePhonetic" @> phonetic_keys)
+    )
+    AND (
+      coalesce(cardinality(parent_terms), 0) = 0
+      OR EXISTS (
+        SELECT 1 FROM unnest(parent_terms) AS t
+        WHERE strpos(lower(v."parentSpouseName"), lower(t)) > 0
+           OR strpos(lower(coalesce(v."parentSpouseNameLatin", '')), lower(t)) > 0
+           OR strpos(lower(coalesce(v."parentSpouseNameNative", '')), lower(t)) > 0
+      )
+    )
+    AND (part_no IS NULL OR v."partNo" = part_no)
+    AND (part_id IS NULL OR v."partId" = part_id)
+    AND (serial_no IS NULL OR v."serialNo" = serial_no)
+    AND (min_age IS NULL OR v.age >= min_age)
+    AND (max_age IS NULL OR v.age <= max_age)
+    AND (search_voters_fuzzy.gender IS NULL OR v.gender = search_voters_fuzzy.gender)
+    AND (assembly_constituency IS NULL OR strpos(lower(v."assemblyConstituency"), lower(assembly_constituency)) > 0)
+    AND (polling_station IS NULL OR strpos(lower(v."pollingStation"->>'name'), lower(polling_station)) > 0)
+    AND (max_confidence IS NULL OR v.confidence < max_confidence)
+  ORDER BY (
+    SELECT max(greatest(
+      word_similarity(t, v.name),
+      word_similarity(t, coalesce(v."nameLatin", '')),
+      word_similarity(t, coalesce(v."nameNative", ''))
+    ))
+    FROM unnest(terms) AS t
+  ) DESC
+  LIMIT max_rows;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_voters_fuzzy(text[], text[], integer, text[], text, uuid, text, integer, integer, text, text, text, numeric) TO anon, authenticated;
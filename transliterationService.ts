@@ -0,0 +1,212 @@
+import { VoterRecord } from './types';
+
+/**
+ * Devanagari <-> Latin transliteration for names.
+ * Rolls arrive in both scripts (Devanagari sheets, English Gemini output), so
+ * every name is stored in both forms and search matches either.
+ *
+ * Devanagari -> Latin follows the plain ASCII spelling used on Marathi
+ * records ("पाटील" -> "Patil"): vowel length is dropped and the inherent
+ * 'a' is removed where Marathi speech drops it. Latin -> Devanagari can only
+ * guess (Latin does not mark vowel length or retroflex consonants), so it is
+ * used solely to fill the native form of records that arrive in English.
+ */
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+  'क़': 'k', 'ख़': 'kh', 'ग़': 'g', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y'
+};
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'a', 'इ': 'i', 'ई': 'i', 'उ': 'u', 'ऊ': 'u', 'ऋ': 'ru',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o', 'ॲ': 'a'
+};
+
+const MATRAS: Record<string, string> = {
+  'ा': 'a', 'ि': 'i', 'ी': 'i', 'ु': 'u', 'ू': 'u', 'ृ': 'ru',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'a'
+};
+
+const NUKTA = '़';
+const VIRAMA = '्';
+const ANUSVARA = 'ं';
+const CHANDRABINDU = 'ँ';
+const VISARGA = 'ः';
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+const DEVANAGARI_RANGE = /[ऀ-ॿ]/;
+
+export const hasDevanagari = (text: string) => DEVANAGARI_RANGE.test(text || '');
+
+/** One written syllable: consonant (or none) plus its vowel. */
+interface Akshara {
+  consonant: string;
+  /** null = inherent 'a', '' = killed by virama */
+  vowel: string | null;
+  /** Trailing anusvara / visarga sound */
+  coda: string;
+}
+
+const isLabial = (latin: string) => /^[pbm]/.test(latin);
+
+function toAksharas(word: string): (Akshara | string)[] {
+  const out: (Akshara | string)[] = [];
+  const chars = [...word.normalize('NFC')];
+
+  for (let i = 0; i < chars.length; i++) {
+    let ch = chars[i];
+    if (chars[i + 1] === NUKTA) ch += chars[++i];
+    const prev = out[out.length - 1];
+
+    if (CONSONANTS[ch] !== undefined) {
+      out.push({ consonant: CONSONANTS[ch], vowel: null, coda: '' });
+    } else if (VOWELS[ch] !== undefined) {
+      out.push({ consonant: '', vowel: VOWELS[ch], coda: '' });
+    } else if (MATRAS[ch] !== undefined && typeof prev === 'object') {
+      prev.vowel = MATRAS[ch];
+    } else if (ch === VIRAMA && typeof prev === 'object') {
+      prev.vowel = '';
+    } else if ((ch === ANUSVARA || ch === CHANDRABINDU) && typeof prev === 'object') {
+      prev.coda = 'n';
+    } else if (ch === VISARGA && typeof prev === 'object') {
+      prev.coda = 'h';
+    } else if (DEVANAGARI_DIGITS.includes(ch)) {
+      out.push(String(DEVANAGARI_DIGITS.indexOf(ch)));
+    } else {
+      out.push(ch);
+    }
+  }
+  return out;
+}
+
+/**
+ * Marathi schwa deletion: the inherent 'a' is silent at the end of a word
+ * and between a vowel-final syllable and a voiced one ("गणपत" -> "Ganpat").
+ */
+function dropSchwas(aksharas: Akshara[]) {
+  const last = aksharas[aksharas.length - 1];
+  if (aksharas.length > 1 && last.consonant && last.vowel === null && !last.coda) last.vowel = '';
+
+  for (let i = aksharas.length - 2; i >= 1; i--) {
+    const cur = aksharas[i];
+    const before = aksharas[i - 1];
+    const after = aksharas[i + 1];
+    if (!cur.consonant || cur.vowel !== null || cur.coda) continue;
+    if (before.vowel === '' || after.vowel === '' || !after.consonant) continue;
+    cur.vowel = '';
+    i--; // never drop two in a row
+  }
+}
+
+function wordToLatin(word: string): string {
+  const parts = toAksharas(word);
+  const aksharas = parts.filter((p): p is Akshara => typeof p === 'object');
+  dropSchwas(aksharas);
+
+  let latin = '';
+  parts.forEach((p, idx) => {
+    if (typeof p === 'string') {
+      latin += p;
+      return;
+    }
+    latin += p.consonant + (p.vowel === null ? 'a' : p.vowel);
+    if (p.coda === 'n') {
+      const next = parts[idx + 1];
+      latin += typeof next === 'object' && isLabial(next.consonant) ? 'm' : 'n';
+    } else {
+      latin += p.coda;
+    }
+  });
+  // ज्ञ is spoken "dny" in Marathi
+  return latin.replace(/jn(?=[aeiou])/g, 'dny');
+}
+
+const titleCase = (text: string) => text.replace(/(^|[\s.'-])([a-z])/g, (_, sep, c) => sep + c.toUpperCase());
+
+/** Devanagari to plain ASCII Latin. Text without Devanagari is returned as is. */
+export function toLatin(text: string): string {
+  if (!hasDevanagari(text)) return (text || '').trim();
+  return titleCase(text.trim().split(/(\s+)/).map(w => (/\s/.test(w) ? ' ' : wordToLatin(w))).join('').replace(/\s+/g, ' '));
+}
+
+const LATIN_CONSONANTS: [string, string][] = [
+  ['chh', 'छ'], ['ksh', 'क्ष'], ['dny', 'ज्ञ'], ['kh', 'ख'], ['gh', 'घ'], ['ch', 'च'], ['jh', 'झ'],
+  ['th', 'थ'], ['dh', 'ध'], ['ph', 'फ'], ['bh', 'भ'], ['sh', 'श'],
+  ['k', 'क'], ['g', 'ग'], ['c', 'क'], ['j', 'ज'], ['t', 'त'], ['d', 'द'], ['n', 'न'],
+  ['p', 'प'], ['b', 'ब'], ['m', 'म'], ['y', 'य'], ['r', 'र'], ['l', 'ल'], ['v', 'व'], ['w', 'व'],
+  ['s', 'स'], ['h', 'ह'], ['f', 'फ'], ['z', 'ज'], ['q', 'क'], ['x', 'क्स']
+];
+
+const LATIN_VOWELS: [string, string, string][] = [
+  // [latin, independent, matra]
+  ['aa', 'आ', 'ा'], ['ai', 'ऐ', 'ै'], ['au', 'औ', 'ौ'], ['ee', 'ई', 'ी'], ['oo', 'ऊ', 'ू'],
+  ['a', 'अ', ''], ['i', 'इ', 'ि'], ['u', 'उ', 'ु'], ['e', 'ए', 'े'], ['o', 'ओ', 'ो']
+];
+
+function wordToDevanagari(word: string): string {
+  const lower = word.toLowerCase();
+  let out = '';
+  let afterConsonant = false;
+
+  for (let i = 0; i < lower.length;) {
+    const vowel = LATIN_VOWELS.find(([latin]) => lower.startsWith(latin, i));
+    if (vowel) {
+      // A final 'a' after a consonant is usually long in Marathi names ("Sunita")
+      const isFinalA = vowel[0] === 'a' && i === lower.length - 1 && afterConsonant && lower.length > 2;
+      out += afterConsonant ? (isFinalA ? 'ा' : vowel[2]) : vowel[1];
+      i += vowel[0].length;
+      afterConsonant = false;
+      continue;
+    }
+    const consonant = LATIN_CONSONANTS.find(([latin]) => lower.startsWith(latin, i));
+    if (consonant) {
+      if (afterConsonant) out += VIRAMA;
+      out += consonant[1];
+      i += consonant[0].length;
+      afterConsonant = true;
+      continue;
+    }
+    out += lower[i++];
+    afterConsonant = false;
+  }
+  return out;
+}
+
+/** Best-effort Latin to Devanagari. Text already in Devanagari is returned as is. */
+export function toDevanagari(text: string): string {
+  if (hasDevanagari(text) || !text) return (text || '').trim();
+  return text.trim().split(/\s+/).map(wordToDevanagari).join(' ');
+}
+
+/**
+ * Loose Latin spelling for search: lower case and single vowels, so
+ * "Paatil", "PATIL" and the transliterated "Patil" compare equal.
+ */
+export function foldLatin(text: string): string {
+  return toLatin(text).toLowerCase().replace(/aa/g, 'a').replace(/ee/g, 'i').replace(/oo/g, 'u').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Derives the native and Latin forms of `name` and `parentSpouseName`.
+ * Always recomputed so an edited name never keeps a stale alternate form.
+ */
+export function withScripts(voter: VoterRecord): VoterRecord {
+  return {
+    ...voter,
+    nameNative: toDevanagari(voter.name || ''),
+    nameLatin: toLatin(voter.name || ''),
+    parentSpouseNameNative: toDevanagari(voter.parentSpouseName || ''),
+    parentSpouseNameLatin: toLatin(voter.parentSpouseName || '')
+  };
+}
+
+/** The stored form in the other script, for showing beneath a name. */
+export function alternateForm(value: string, native?: string, latin?: string): string {
+  const other = hasDevanagari(value) ? latin : native;
+  return other && other !== value ? other : '';
+}
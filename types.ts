@@ -1,10 +1,19 @@
 
+export type RelationType = 'FATHER' | 'HUSBAND' | 'MOTHER' | 'OTHER';
+
 export interface VoterRecord {
   epicNo: string;
   name: string;
   age: number;
   gender: 'M' | 'F' | 'O';
   parentSpouseName: string;
+  /** Devanagari and Latin forms of `name` / `parentSpouseName`, see transliterationService. */
+  nameNative?: string;
+  nameLatin?: string;
+  parentSpouseNameNative?: string;
+  parentSpouseNameLatin?: string;
+  relationType?: RelationType;
+  houseNo?: string;
   assemblyConstituency: string;
   parliamentaryConstituency: string;
   district: string;
@@ -16,10 +25,46 @@ export interface VoterRecord {
     name: string;
     address: string;
   };
+  provenance?: Provenance;
   lastUpdated: string;
 }
 
-export type AppView = 'SEARCH' | 'PROCESS' | 'DATABASE';
+/** Helpdesk search form; blank fields are ignored and the rest must all match. */
+export interface VoterSearchCriteria {
+  /** Name in either script, or EPIC */
+  query?: string;
+  parentSpouseName?: string;
+  partNo?: string;
+  serialNo?: string;
+  minAge?: number;
+  maxAge?: number;
+  gender?: VoterRecord['gender'];
+  assemblyConstituency?: string;
+  pollingStation?: string;
+}
+
+export type AppView = 'SEARCH' | 'PROCESS' | 'DATABASE' | 'DUPLICATES' | 'GEOGRAPHY' | 'RECYCLE' | 'AUDIT' | 'OFFLINE' | 'USERS';
+
+/** How a batch of records was obtained from its source page or sheet. */
+export type ExtractionMethod = 'GEMINI_TEXT' | 'GEMINI_VISION' | 'TESSERACT_OCR' | 'LAYOUT_PARSER';
+
+/** How a record entered the vault. */
+export type ProvenanceMethod = ExtractionMethod | 'EXCEL_MAPPING' | 'MANUAL' | 'BACKUP_RESTORE';
+
+/** Where a record came from and how far its extraction can be trusted. */
+export interface Provenance {
+  fileName: string;
+  /** SHA-256 of the source file */
+  fileHash?: string;
+  sheet?: string;
+  page?: number;
+  row?: number;
+  method: ProvenanceMethod;
+  model?: string;
+  extractedAt: string;
+  /** 0–1, see provenanceService */
+  confidence: number;
+}
 
 export interface ExtractionResponse {
   voters: VoterRecord[];
@@ -0,0 +1,141 @@
+import { VoterRecord } from './types';
+
+/**
+ * Shared VoterRecord validation.
+ * Every ingestion path (sheets, PDF pages, photos, restores) runs records
+ * through `validateVoter`; rows with ERROR issues are never written.
+ */
+
+export type IssueSeverity = 'ERROR' | 'WARNING';
+
+export interface ValidationIssue {
+  field: string;
+  code: string;
+  severity: IssueSeverity;
+  message: string;
+}
+
+/** Where a record came from, down to the sheet row or page cell. */
+export interface SourceRef {
+  fileName: string;
+  sheet?: string;
+  page?: number;
+  row?: number;
+}
+
+export interface ValidationReportRow extends ValidationIssue {
+  epicNo: string;
+  source: SourceRef;
+}
+
+export const EPIC_PATTERN = /^[A-Z]{3}[0-9]{7}$/;
+// Pre-2000s state-issued cards, still present on older rolls
+const LEGACY_EPIC_PATTERN = /^[A-Z]{2}\/\d{2}\/\d{3}\/\d{6}$/;
+export const MIN_VOTER_AGE = 18;
+export const MAX_VOTER_AGE = 120;
+
+const PLACEHOLDER_EPIC_PREFIXES = ['PENDING-', 'EXT-'];
+const PLACEHOLDER_NAMES = ['unknown', 'unknown parent', 'extracted name', 'n/a', 'na', '-', 'null', 'undefined'];
+
+const GENDER_ALIASES: Record<string, VoterRecord['gender']> = {
+  m: 'M', male: 'M', 'पु': 'M', 'पु.': 'M', 'पुरुष': 'M',
+  f: 'F', female: 'F', 'स्त्री': 'F', 'स्री': 'F', 'स्': 'F', 'महिला': 'F',
+  o: 'O', other: 'O', t: 'O', tg: 'O', 'third gender': 'O', 'इतर': 'O', 'तृतीयपंथी': 'O'
+};
+
+export function normalizeGender(raw: unknown): VoterRecord['gender'] | null {
+  const key = String(raw ?? '').trim().toLowerCase();
+  return GENDER_ALIASES[key] ?? null;
+}
+
+/**
+ * Maps a raw gender value onto M/F/O. Unrecognised values are kept verbatim
+ * (upper-cased) so validation reports them instead of defaulting to 'M'.
+ */
+export function coerceGender(raw: unknown): VoterRecord['gender'] {
+  return normalizeGender(raw) ?? (String(raw ?? '').trim().toUpperCase() as VoterRecord['gender']);
+}
+
+const isPlaceholderName = (value: string) => PLACEHOLDER_NAMES.includes(value.trim().toLowerCase());
+
+export function validateVoter(voter: VoterRecord): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (field: string, code: string, message: string) => issues.push({ field, code, severity: 'ERROR', message });
+  const warn = (field: string, code: string, message: string) => issues.push({ field, code, severity: 'WARNING', message });
+
+  const epic = (voter.epicNo || '').trim();
+  if (!epic) {
+    error('epicNo', 'EPIC_MISSING', 'EPIC number is missing.');
+  } else if (PLACEHOLDER_EPIC_PREFIXES.some(p => epic.toUpperCase().startsWith(p))) {
+    error('epicNo', 'EPIC_PLACEHOLDER', `EPIC "${epic}" is a generated placeholder, not a real card number.`);
+  } else if (LEGACY_EPIC_PATTERN.test(epic)) {
+    warn('epicNo', 'EPIC_LEGACY_FORMAT', `EPIC "${epic}" uses the legacy state format.`);
+  } else if (!EPIC_PATTERN.test(epic)) {
+    error('epicNo', 'EPIC_FORMAT', `EPIC "${epic}" does not match the 3 letters + 7 digits format.`);
+  }
+
+  const name = (voter.name || '').trim();
+  if (!name) error('name', 'NAME_MISSING', 'Voter name is missing.');
+  else if (isPlaceholderName(name)) error('name', 'NAME_PLACEHOLDER', `Name "${name}" is a placeholder.`);
+
+  const parent = (voter.parentSpouseName || '').trim();
+  if (!parent) warn('parentSpouseName', 'RELATIVE_MISSING', 'Parent/spouse name is missing.');
+  else if (isPlaceholderName(parent)) warn('parentSpouseName', 'RELATIVE_PLACEHOLDER', `Parent/spouse "${parent}" is a placeholder.`);
+
+  if (!Number.isFinite(voter.age) || !voter.age) {
+    error('age', 'AGE_MISSING', 'Age is missing.');
+  } else if (!Number.isInteger(voter.age) || voter.age < MIN_VOTER_AGE || voter.age > MAX_VOTER_AGE) {
+    error('age', 'AGE_RANGE', `Age ${voter.age} is outside ${MIN_VOTER_AGE}–${MAX_VOTER_AGE}.`);
+  }
+
+  if (!['M', 'F', 'O'].includes(voter.gender)) {
+    error('gender', 'GENDER_INVALID', voter.gender ? `Gender "${voter.gender}" is not M, F or O.` : 'Gender is missing.');
+  }
+
+  if (!(voter.partNo || '').trim()) error('partNo', 'PART_MISSING', 'Part number is missing.');
+  if (!(voter.serialNo || '').trim()) error('serialNo', 'SERIAL_MISSING', 'Serial number is missing.');
+  else if (!/^\d+$/.test(voter.serialNo.trim())) warn('serialNo', 'SERIAL_FORMAT', `Serial "${voter.serialNo}" is not numeric.`);
+
+  return issues;
+}
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some(i => i.severity === 'ERROR');
+
+export function describeSource(source: SourceRef): string {
+  return [
+    source.sheet !== undefined ? `Sheet ${source.sheet}` : null,
+    source.page !== undefined ? `Page ${source.page}` : null,
+    source.row !== undefined ? `Row ${source.row}` : null
+  ].filter(Boolean).join(' • ') || 'File';
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function buildErrorReportCsv(rows: ValidationReportRow[]): string {
+  const header = ['File', 'Sheet', 'Page', 'Row', 'EPIC', 'Field', 'Severity', 'Code', 'Message'];
+  const lines = rows.map(r => [
+    r.source.fileName, r.source.sheet, r.source.page, r.source.row, r.epicNo, r.field, r.severity, r.code, r.message
+  ].map(csvCell).join(','));
+  // BOM so Excel opens Devanagari names correctly
+  return '\uFEFF' + [header.join(','), ...lines].join('\r\n');
+}
+
+/**
+ * DOWNLOAD validation issues as CSV
+ */
+export function downloadErrorReport(rows: ValidationReportRow[], name = 'VALIDATION_REPORT') {
+  const blob = new Blob([buildErrorReportCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name}_${new Date().getTime()}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function toReportRows(voter: VoterRecord, issues: ValidationIssue[], source: SourceRef): ValidationReportRow[] {
+  return issues.map(issue => ({ ...issue, epicNo: voter.epicNo, source }));
+}
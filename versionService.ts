@@ -0,0 +1,84 @@
+import { VoterRecord } from './types';
+import { auditId, changedFields, currentActor } from './auditService';
+
+/**
+ * Per-voter version history.
+ * Every write that changes a record stores the full record as the next
+ * version, so a bad re-ingestion can be undone field by field or rolled back.
+ * The audit trail says who changed what; versions are what gets restored.
+ */
+
+export interface VoterVersion {
+  id: string;
+  epicNo: string;
+  /** 1-based, per EPIC */
+  version: number;
+  record: VoterRecord;
+  /** As in the audit trail, e.g. "INGEST: roll_142.pdf" or "ROLLBACK: v3" */
+  source: string;
+  actor: string;
+  createdAt: string;
+}
+
+export interface FieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** Source of the version captured for records written before history existed. */
+export const BASELINE_SOURCE = 'BASELINE';
+
+function version(record: VoterRecord, number: number, source: string, actor: string, createdAt?: string): VoterVersion {
+  const now = Date.now();
+  return {
+    id: auditId(now),
+    epicNo: record.epicNo,
+    version: number,
+    record,
+    source,
+    actor,
+    createdAt: createdAt || new Date(now).toISOString()
+  };
+}
+
+/**
+ * Versions to store for a batch of upserts. `previous` holds the rows being
+ * replaced and `latest` each EPIC's highest stored version. A replaced row
+ * with no history is kept as a baseline first; rows that change nothing
+ * (the same file ingested twice) add no version.
+ */
+export function nextVersions(
+  rows: VoterRecord[],
+  previous: Map<string, VoterRecord>,
+  latest: Record<string, number>,
+  source: string
+): VoterVersion[] {
+  const counters = new Map(Object.entries(latest));
+  const current = new Map(previous);
+  const versions: VoterVersion[] = [];
+  rows.forEach(row => {
+    const before = current.get(row.epicNo);
+    let number = counters.get(row.epicNo) || 0;
+    if (before && number === 0) {
+      versions.push(version(before, ++number, BASELINE_SOURCE, 'system', before.lastUpdated));
+    }
+    if (!before || changedFields(before, row).length > 0) {
+      versions.push(version(row, ++number, source, currentActor()));
+    }
+    counters.set(row.epicNo, number);
+    current.set(row.epicNo, row);
+  });
+  return versions;
+}
+
+/** Field-level changes from `older` to `newer`; everything is new for a first version. */
+export function diffVersions(older: VoterVersion | undefined, newer: VoterVersion): FieldDiff[] {
+  const before = (older?.record || null) as unknown as Record<string, unknown> | null;
+  const after = newer.record as unknown as Record<string, unknown>;
+  return changedFields(older?.record || null, newer.record).map(field => ({
+    field,
+    before: before?.[field],
+    after: after[field]
+  }));
+}
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  /** 'supabase' | 'indexeddb' | 'memory'; see storage/index.ts */
+  readonly VITE_STORAGE_BACKEND?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+/** package.json version, written into backup headers */
+declare const __APP_VERSION__: string;